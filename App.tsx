@@ -17,6 +17,8 @@ import ErrorBoundary from './components/ErrorBoundary';
 import ErrorToast from './components/ErrorToast';
 import ProjectResultState from './components/ProjectResultState';
 import ProtectedRoute from './components/ProtectedRoute';
+import VersionCompare from './components/VersionCompare';
+import VariantPicker, { getVariantLabel, VariantSelection } from './components/VariantPicker';
 import { AuthProvider, useAuth } from './hooks/useAuth';
 import { useError } from './hooks/useError';
 import { ThemeProvider } from './hooks/useTheme';
@@ -27,29 +29,62 @@ import {
   getBrandAiProviderChain,
   getBrandAiProviderLabel,
 } from './lib/brandAi';
-import { generateBrandKit, regenerateBrandSection } from './lib/brandGeneration';
+import {
+  generateBrandKit,
+  generateBrandKitVariants,
+  GenerationStreamEvent,
+  regenerateBrandSection,
+  regenerateBrandSectionVariants,
+} from './lib/brandGeneration';
+import { BRAND_KIT_FIELD_LABELS } from './lib/brandKitSchema';
+import { composeBrandKitFromVariants, composeVariantMetadata } from './lib/brandStrategy';
 import { getProjectBrandName } from './lib/brandWorkbook';
 import {
   BrandProject,
   BrandProjectWorkspace,
+  BrandKitExportOptions,
   BrandKitLocks,
+  BrandKitVariantSet,
+  GenerationActivityEntry,
   GenerationStatusNotice,
   KitSectionId,
   RegenerableKitSectionId,
+  SavedBrandResult,
+  ShareLink,
+  ShareLinkOptions,
+  SharedBrandResult,
 } from './types';
 import {
   createProject,
+  createShareLink,
   deleteProject,
   duplicateProject,
+  getShareLinkUrl,
   listProjects,
+  listShareLinks,
   loadProjectWorkspace,
+  loadSharedBrandResult,
+  promoteBrandResult,
   recordExport,
+  revokeShareLink,
+  saveBrandResult,
   saveGeneratedLogo,
   saveQuestionnaireAnswers,
   updateProjectKitLocks,
   updateProjectStatus,
 } from './lib/projects';
-import { openBrandKitPdfExport } from './lib/brandExport';
+import { PdfExportError, openBrandKitPdfExport, requestBrandKitPdf } from './lib/brandExport';
+import { buildBrandBriefMarkdown, getBrandBriefFileName } from './lib/brandBrief';
+import { buildBrandPackage } from './lib/brandPackage';
+import { TokenExportFormat, buildTokenExport } from './lib/brandTokens';
+import { downloadFile, downloadFromUrl } from './lib/fileDownload';
+import {
+  WorkbookBundleError,
+  buildWorkbookBundle,
+  downloadWorkbookBundle,
+  importWorkbookBundle,
+  parseWorkbookBundle,
+} from './lib/workbookBundle';
 
 const LoadingPage: React.FC<{ label?: string }> = ({ label = '[ LOADING MOSAIC... ]' }) => (
   <div className="brand-page app-loading-state">{label}</div>
@@ -75,6 +110,22 @@ const MissingProjectState: React.FC = () => {
   );
 };
 
+const UnavailableShareState: React.FC = () => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="brand-page project-missing-state">
+      <div className="project-missing-card">
+        <h2>[ LINK UNAVAILABLE ]</h2>
+        <p>This share link has expired, was revoked, or never existed. Ask the sender for a new one.</p>
+        <button className="brand-submit-btn" onClick={() => navigate('/')}>
+          [ VISIT BRAND MOSAIC ]
+        </button>
+      </div>
+    </div>
+  );
+};
+
 const getInterruptedGenerationStatus = (): GenerationStatusNotice => ({
   phase: 'failed',
   title: 'The last generation attempt did not finish saving.',
@@ -106,6 +157,61 @@ const getAttemptNote = (attempt: BrandAiAttemptFailure): string => {
   }
 };
 
+const describeGenerationEvent = (
+  event: GenerationStreamEvent,
+  index: number
+): GenerationActivityEntry => {
+  const id = `${index}-${event.type}`;
+
+  switch (event.type) {
+    case 'attempt-started':
+      return {
+        id,
+        label: `${getBrandAiProviderLabel(event.provider)} started writing with ${event.model}.`,
+        tone: 'progress',
+      };
+    case 'attempt-failed':
+      return {
+        id,
+        label: `${getAttemptNote(event)} (${event.code})`,
+        tone: 'failure',
+      };
+    case 'response-received':
+      return {
+        id,
+        label:
+          event.outputTokens !== null
+            ? `${getBrandAiProviderLabel(event.provider)} returned ${event.outputTokens.toLocaleString()} tokens.`
+            : `${getBrandAiProviderLabel(event.provider)} returned a response.`,
+        tone: 'progress',
+      };
+    case 'repair-started':
+      return {
+        id,
+        label: `Response had ${event.issueCount} schema issue${event.issueCount === 1 ? '' : 's'}. Sending repair attempt ${event.attempt}.`,
+        tone: 'failure',
+      };
+    case 'section-parsed':
+      return {
+        id,
+        label: `${BRAND_KIT_FIELD_LABELS[event.field] || event.field} parsed.`,
+        tone: 'success',
+      };
+    case 'variant-started':
+      return {
+        id,
+        label: `Writing ${getVariantLabel(event.index)} of ${event.total}.`,
+        tone: 'progress',
+      };
+    case 'row-persisted':
+      return {
+        id,
+        label: 'Result row saved to this workbook.',
+        tone: 'success',
+      };
+  }
+};
+
 const getAttemptAction = (attempt: BrandAiAttemptFailure) => {
   const docs = getBrandAiDocs(attempt.provider);
   const label = getBrandAiProviderLabel(attempt.provider);
@@ -153,7 +259,7 @@ const resolveBrandAiError = (
           phase: 'failed',
           title: 'Brand generation is not configured for this app yet.',
           message:
-            'The workbook draft was saved, but no model provider key is currently available to generate the result.',
+            'The workbook draft was saved, but no hosted provider key or local model URL is currently available to generate the result.',
           notes,
           ...action,
         },
@@ -326,6 +432,7 @@ const DashboardRoute: React.FC = () => {
   const [loading, setLoading] = useState(true);
   const [pendingDeleteProject, setPendingDeleteProject] = useState<BrandProject | null>(null);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
 
   const loadDashboard = async () => {
     if (!user) return;
@@ -359,6 +466,35 @@ const DashboardRoute: React.FC = () => {
     }
   };
 
+  const handleImportWorkbook = async (file: File) => {
+    if (!user) return;
+
+    setIsImporting(true);
+    try {
+      const bundle = parseWorkbookBundle(await file.text());
+      const projectId = await importWorkbookBundle(user.id, bundle);
+      const repairedCount = bundle.results.filter((result) => result.issues).length;
+      showSuccess(
+        repairedCount > 0
+          ? `Imported "${bundle.project.brandName}". ${repairedCount} saved ${
+              repairedCount === 1 ? 'version had' : 'versions had'
+            } malformed sections that were reset.`
+          : `Imported "${bundle.project.brandName}".`
+      );
+      navigate(bundle.results.length > 0 ? `/project/${projectId}/result` : `/project/${projectId}/questions`);
+    } catch (error) {
+      console.error('Failed to import workbook:', error);
+      if (error instanceof WorkbookBundleError) {
+        showError(error.code);
+      } else {
+        showError('db/save-failed');
+        await loadDashboard();
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
   const handleDuplicate = async (projectId: string) => {
     try {
       const newProjectId = await duplicateProject(projectId);
@@ -431,6 +567,8 @@ const DashboardRoute: React.FC = () => {
         userName={profile?.full_name}
         isLoading={loading}
         onCreateNew={handleCreateNew}
+        onImportWorkbook={handleImportWorkbook}
+        isImporting={isImporting}
         onOpenQuestions={(projectId) => navigate(`/project/${projectId}/questions`)}
         onOpenResult={(projectId) => navigate(`/project/${projectId}/result`)}
         onDuplicate={handleDuplicate}
@@ -581,12 +719,28 @@ const ProjectQuestionsRoute: React.FC = () => {
         notes: ['This can take a moment while the model provider responds.'],
       });
 
-      const savedResult = await generateBrandKit(projectId);
-      setGenerationStatus({
-        phase: 'persisting',
-        title: 'Saving the generated brand kit to this workbook.',
-        message:
-          'The result is being stored so it can be reopened from the dashboard and result route later.',
+      const savedResult = await generateBrandKit(projectId, {
+        onEvent: (event) => {
+          setGenerationStatus((current) => {
+            const activity = current.activity || [];
+            const entry = describeGenerationEvent(event, activity.length);
+
+            if (event.type === 'row-persisted') {
+              return {
+                phase: 'persisting',
+                title: 'Saving the generated brand kit to this workbook.',
+                message:
+                  'The result is being stored so it can be reopened from the dashboard and result route later.',
+                activity: [...activity, entry],
+              };
+            }
+
+            return {
+              ...current,
+              activity: [...activity, entry],
+            };
+          });
+        },
       });
       await updateProjectStatus(projectId, 'generated');
       setWorkspace((current) =>
@@ -629,7 +783,11 @@ const ProjectQuestionsRoute: React.FC = () => {
             }
           : current
       );
-      setGenerationStatus(handleGenerationError(error, showError));
+      const failedStatus = handleGenerationError(error, showError);
+      setGenerationStatus((current) => ({
+        ...failedStatus,
+        activity: current.activity,
+      }));
     } finally {
       setIsAnalyzing(false);
     }
@@ -666,6 +824,10 @@ const ProjectResultRoute: React.FC = () => {
   const { toasts, showError, showSuccess, removeToast } = useError();
   const [workspace, setWorkspace] = useState<BrandProjectWorkspace | null>();
   const [isRegenerating, setIsRegenerating] = useState(false);
+  const [variantSet, setVariantSet] = useState<BrandKitVariantSet | null>(null);
+  const [variantStatus, setVariantStatus] = useState<GenerationStatusNotice>(idleGenerationStatus);
+  const [isSavingVariant, setIsSavingVariant] = useState(false);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
 
   const loadWorkspace = async () => {
     if (!projectId) return;
@@ -680,8 +842,19 @@ const ProjectResultRoute: React.FC = () => {
     }
   };
 
+  const loadShareLinks = async () => {
+    if (!projectId) return;
+
+    try {
+      setShareLinks(await listShareLinks(projectId));
+    } catch (error) {
+      console.error('Failed to load share links:', error);
+    }
+  };
+
   useEffect(() => {
     loadWorkspace();
+    loadShareLinks();
   }, [projectId]);
 
   if (workspace === undefined) {
@@ -740,33 +913,39 @@ const ProjectResultRoute: React.FC = () => {
     }
   };
 
-  const handleRegenerateSection = async (sectionId: RegenerableKitSectionId) => {
+  const applyNewResult = (savedResult: SavedBrandResult) => {
+    setWorkspace((current) =>
+      current
+        ? {
+            ...current,
+            latestResult: savedResult,
+            resultHistory: [
+              savedResult,
+              ...current.resultHistory.filter((result) => result.id !== savedResult.id),
+            ],
+            project: {
+              ...current.project,
+              status: 'generated',
+              latestResult: savedResult,
+              resultCount: current.project.resultCount + 1,
+            },
+          }
+        : current
+    );
+    setSearchParams({ version: savedResult.id });
+  };
+
+  const handleRegenerateSection = async (
+    sectionId: RegenerableKitSectionId,
+    instruction?: string
+  ) => {
     setIsRegenerating(true);
 
     try {
-      const savedResult = await regenerateBrandSection(
-        projectId,
-        activeResult.id,
-        sectionId
-      );
-      setWorkspace((current) =>
-        current
-          ? {
-              ...current,
-              latestResult: savedResult,
-              resultHistory: [
-                savedResult,
-                ...current.resultHistory.filter((result) => result.id !== savedResult.id),
-              ],
-              project: {
-                ...current.project,
-                latestResult: savedResult,
-                resultCount: current.project.resultCount + 1,
-              },
-            }
-          : current
-      );
-      setSearchParams({ version: savedResult.id });
+      const savedResult = await regenerateBrandSection(projectId, activeResult.id, sectionId, {
+        instruction,
+      });
+      applyNewResult(savedResult);
       showSuccess('A new workbook version was created from that section refinement.');
     } catch (error) {
       console.error('Failed to regenerate brand section:', error);
@@ -776,6 +955,101 @@ const ProjectResultRoute: React.FC = () => {
     }
   };
 
+  const handleGenerateVariants = async (
+    variantCount: number,
+    sectionId?: RegenerableKitSectionId,
+    instruction?: string
+  ) => {
+    const activity: GenerationActivityEntry[] = [];
+    const onEvent = (event: GenerationStreamEvent) => {
+      activity.push(describeGenerationEvent(event, activity.length));
+      setVariantStatus((current) => ({ ...current, activity: [...activity] }));
+    };
+
+    setIsRegenerating(true);
+    setVariantStatus({
+      phase: 'synthesizing',
+      title: `Writing ${variantCount} options to compare...`,
+      message: 'Nothing is saved until you pick a direction.',
+      activity: [],
+    });
+
+    try {
+      const nextVariantSet = sectionId
+        ? await regenerateBrandSectionVariants(projectId, activeResult.id, sectionId, variantCount, {
+            instruction,
+            onEvent,
+          })
+        : await generateBrandKitVariants(projectId, variantCount, { onEvent });
+
+      setVariantSet(nextVariantSet);
+      window.scrollTo({ top: 0 });
+    } catch (error) {
+      console.error('Failed to generate brand variants:', error);
+      handleGenerationError(error, showError, 'api/generation-failed');
+    } finally {
+      setIsRegenerating(false);
+      setVariantStatus(idleGenerationStatus);
+    }
+  };
+
+  const handleSaveVariant = async ({ baseVariant, sections }: VariantSelection) => {
+    if (!variantSet) return;
+
+    const base = variantSet.variants[baseVariant];
+    const logoSource = variantSet.variants[sections.logoPrompt ?? baseVariant] || base;
+    setIsSavingVariant(true);
+
+    try {
+      const savedResult = await saveBrandResult(
+        projectId,
+        composeBrandKitFromVariants(
+          variantSet.variants.map((variant) => variant.result),
+          baseVariant,
+          sections
+        ),
+        base.sourceModel || undefined,
+        {
+          metadata: {
+            ...composeVariantMetadata(
+              variantSet.variants.map((variant) => variant.metadata),
+              baseVariant,
+              sections
+            ),
+            variantPick: {
+              variantCount: variantSet.variants.length,
+              baseVariant,
+              sections,
+            },
+          },
+          logoImageUrl: logoSource.logoImageUrl,
+          logoGeneratedAt: logoSource.logoGeneratedAt,
+        }
+      );
+      await updateProjectStatus(projectId, 'generated');
+      applyNewResult(savedResult);
+      setVariantSet(null);
+      showSuccess('Your pick was saved as a new workbook version.');
+    } catch (error) {
+      console.error('Failed to save picked variant:', error);
+      showError('db/save-failed');
+    } finally {
+      setIsSavingVariant(false);
+    }
+  };
+
+  const handlePromoteResult = async () => {
+    try {
+      const savedResult = await promoteBrandResult(projectId, activeResult);
+      await updateProjectStatus(projectId, 'generated');
+      applyNewResult(savedResult);
+      showSuccess('That version is now the current workbook result.');
+    } catch (error) {
+      console.error('Failed to promote brand result:', error);
+      showError('db/save-failed');
+    }
+  };
+
   const handleCopyLink = async () => {
     const url = `${window.location.origin}/project/${projectId}/result?version=${activeResult.id}`;
 
@@ -801,19 +1075,73 @@ const ProjectResultRoute: React.FC = () => {
     }
   };
 
-  const handleExportPdf = async () => {
+  const handleCopyShareLink = async (link: ShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link.token));
+      showSuccess('Share link copied.');
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      showError('unknown', { message: 'Failed to copy the share link.' });
+    }
+  };
+
+  const handleCreateShareLink = async (options: ShareLinkOptions) => {
     try {
-      await openBrandKitPdfExport({
-        brandName: workspace.project.brandName,
-        formData: workspace.formData,
-        kit: activeResult.result,
-        exportedAt: new Date().toISOString(),
-        sourceModel: activeResult.sourceModel || undefined,
-        versionLabel:
-          activeResultIndex >= 0
-            ? `Workbook version ${Math.max(workspace.resultHistory.length - activeResultIndex, 1)}`
-            : undefined,
+      const link = await createShareLink({
+        projectId,
+        brandResultId: activeResult.id,
+        label: options.label,
+        expiresInDays: options.expiresInDays,
+        includeAnswers: options.includeAnswers,
       });
+      setShareLinks((current) => [link, ...current]);
+      await handleCopyShareLink(link);
+    } catch (error) {
+      console.error('Failed to create share link:', error);
+      showError('db/save-failed');
+    }
+  };
+
+  const handleRevokeShareLink = async (link: ShareLink) => {
+    try {
+      const revoked = await revokeShareLink(link.id);
+      setShareLinks((current) => current.map((item) => (item.id === revoked.id ? revoked : item)));
+      showSuccess('Share link revoked. Anyone opening it now sees an unavailable notice.');
+    } catch (error) {
+      console.error('Failed to revoke share link:', error);
+      showError('db/save-failed');
+    }
+  };
+
+  const activeVersionLabel =
+    activeResultIndex >= 0
+      ? `Workbook version ${Math.max(workspace.resultHistory.length - activeResultIndex, 1)}`
+      : undefined;
+
+  const getActiveExportOptions = (): BrandKitExportOptions => ({
+    brandName: workspace.project.brandName,
+    formData: workspace.formData,
+    kit: activeResult.result,
+    exportedAt: new Date().toISOString(),
+    sourceModel: activeResult.sourceModel || undefined,
+    versionLabel: activeVersionLabel,
+    logoImageUrl: activeResult.logoImageUrl,
+  });
+
+  const handleExportPdf = async () => {
+    try {
+      const pdf = await requestBrandKitPdf({ projectId, resultId: activeResult.id, versionLabel: activeVersionLabel });
+      downloadFromUrl(pdf.url, pdf.fileName);
+      showSuccess('Brand workbook PDF saved. The download link stays valid for 7 days.');
+      return;
+    } catch (error) {
+      // Fall back to the browser print flow so an export is never blocked on the function
+      console.error('Server PDF export failed:', error);
+      showError(error instanceof PdfExportError ? error.code : 'export/render-failed');
+    }
+
+    try {
+      await openBrandKitPdfExport(getActiveExportOptions());
 
       try {
         await recordExport({
@@ -823,6 +1151,7 @@ const ProjectResultRoute: React.FC = () => {
           fileName: `${workspace.project.brandName}.pdf`,
           metadata: {
             versionId: activeResult.id,
+            renderer: 'print',
           },
         });
       } catch (exportError) {
@@ -835,6 +1164,129 @@ const ProjectResultRoute: React.FC = () => {
     }
   };
 
+  const handleExportTokens = async (format: TokenExportFormat) => {
+    try {
+      const file = buildTokenExport(format, activeResult.result, workspace.project.brandName, workspace.formData);
+      downloadFile(file.fileName, file.content, file.mimeType);
+
+      try {
+        await recordExport({
+          projectId,
+          brandResultId: activeResult.id,
+          exportType: 'tokens',
+          fileName: file.fileName,
+          metadata: {
+            versionId: activeResult.id,
+            format,
+          },
+        });
+      } catch (exportError) {
+        console.error('Failed to record token export:', exportError);
+      }
+      showSuccess('Design tokens downloaded.');
+    } catch (error) {
+      console.error('Failed to export design tokens:', error);
+      showError('unknown', { message: 'Could not export design tokens right now.' });
+    }
+  };
+
+  const handleExportPackage = async (logoUrl: string | null) => {
+    try {
+      const brandPackage = await buildBrandPackage({
+        ...getActiveExportOptions(),
+        projectId,
+        resultId: activeResult.id,
+        logoImageUrl: logoUrl,
+      });
+      downloadFile(brandPackage.fileName, brandPackage.archive, 'application/zip');
+
+      try {
+        await recordExport({
+          projectId,
+          brandResultId: activeResult.id,
+          exportType: 'package',
+          fileName: brandPackage.fileName,
+          metadata: {
+            versionId: activeResult.id,
+            manifest: brandPackage.manifest,
+          },
+        });
+      } catch (exportError) {
+        console.error('Failed to record brand package export:', exportError);
+      }
+
+      const skipped = brandPackage.manifest.skipped.map((item) => item.kind.toUpperCase());
+      showSuccess(
+        skipped.length > 0
+          ? `Brand package downloaded without: ${skipped.join(', ')}.`
+          : 'Brand package downloaded.'
+      );
+    } catch (error) {
+      console.error('Failed to export brand package:', error);
+      showError('unknown', { message: 'Could not build the brand package right now.' });
+    }
+  };
+
+  const handleCopyBrief = async () => {
+    try {
+      await navigator.clipboard.writeText(buildBrandBriefMarkdown(getActiveExportOptions()));
+      showSuccess('Markdown brief copied. Paste it into Notion, Confluence, or a README.');
+    } catch (error) {
+      console.error('Failed to copy Markdown brief:', error);
+      showError('unknown', { message: 'Could not copy the brief right now.' });
+    }
+  };
+
+  const handleDownloadBrief = async () => {
+    try {
+      const fileName = getBrandBriefFileName(workspace.project.brandName);
+      downloadFile(fileName, buildBrandBriefMarkdown(getActiveExportOptions()), 'text/markdown');
+
+      try {
+        await recordExport({
+          projectId,
+          brandResultId: activeResult.id,
+          exportType: 'markdown',
+          fileName,
+          metadata: {
+            versionId: activeResult.id,
+          },
+        });
+      } catch (exportError) {
+        console.error('Failed to record Markdown export:', exportError);
+      }
+      showSuccess('Markdown brief downloaded.');
+    } catch (error) {
+      console.error('Failed to export Markdown brief:', error);
+      showError('unknown', { message: 'Could not export the brief right now.' });
+    }
+  };
+
+  const handleExportWorkbook = async () => {
+    try {
+      const fileName = downloadWorkbookBundle(buildWorkbookBundle(workspace));
+
+      try {
+        await recordExport({
+          projectId,
+          brandResultId: activeResult.id,
+          exportType: 'json',
+          fileName,
+          metadata: {
+            versionId: activeResult.id,
+            resultCount: workspace.resultHistory.length,
+          },
+        });
+      } catch (exportError) {
+        console.error('Failed to record workbook export:', exportError);
+      }
+      showSuccess('Workbook JSON downloaded.');
+    } catch (error) {
+      console.error('Failed to export workbook JSON:', error);
+      showError('unknown', { message: 'Could not export the workbook right now.' });
+    }
+  };
+
   const handleDuplicate = async () => {
     try {
       const newProjectId = await duplicateProject(projectId);
@@ -879,6 +1331,38 @@ const ProjectResultRoute: React.FC = () => {
     navigate('/', { replace: true });
   };
 
+  const compareResultId = searchParams.get('compare');
+  const compareResult = workspace.resultHistory.find((result) => result.id === compareResultId);
+
+  if (compareResult) {
+    return (
+      <VersionCompare
+        brandName={workspace.formData.brandName}
+        resultHistory={workspace.resultHistory}
+        beforeId={compareResult.id}
+        afterId={activeResult.id}
+        onChange={(beforeId, afterId) => setSearchParams({ version: afterId, compare: beforeId })}
+        onClose={() => setSearchParams({ version: activeResult.id })}
+      />
+    );
+  }
+
+  if (variantSet) {
+    return (
+      <>
+        <ErrorToast toasts={toasts} onDismiss={removeToast} />
+        <VariantPicker
+          brandName={workspace.formData.brandName}
+          variantSet={variantSet}
+          kitLocks={workspace.project.kitLocks || {}}
+          isSaving={isSavingVariant}
+          onSave={handleSaveVariant}
+          onDiscard={() => setVariantSet(null)}
+        />
+      </>
+    );
+  }
+
   return (
     <>
       <ErrorToast toasts={toasts} onDismiss={removeToast} />
@@ -890,10 +1374,21 @@ const ProjectResultRoute: React.FC = () => {
         onSignOut={handleSignOut}
         onCopyLink={handleCopyLink}
         onExportPdf={handleExportPdf}
+        onExportTokens={handleExportTokens}
+        onExportWorkbook={handleExportWorkbook}
+        onExportPackage={handleExportPackage}
+        onCopyBrief={handleCopyBrief}
+        onDownloadBrief={handleDownloadBrief}
+        shareLinks={shareLinks}
+        onCreateShareLink={handleCreateShareLink}
+        onCopyShareLink={handleCopyShareLink}
+        onRevokeShareLink={handleRevokeShareLink}
         projectId={projectId}
         kitLocks={workspace.project.kitLocks || {}}
         onToggleLock={handleToggleLock}
         onRegenerateSection={handleRegenerateSection}
+        onGenerateVariants={handleGenerateVariants}
+        generationStatus={variantStatus}
         isRegenerating={isRegenerating}
         onDuplicate={handleDuplicate}
         onPersistGeneratedLogo={handlePersistGeneratedLogo}
@@ -903,6 +1398,101 @@ const ProjectResultRoute: React.FC = () => {
         onSelectResult={(resultId) => {
           setSearchParams({ version: resultId });
         }}
+        onPromoteResult={handlePromoteResult}
+        onCompareResults={(beforeId) => {
+          setSearchParams({ version: activeResult.id, compare: beforeId });
+        }}
+      />
+    </>
+  );
+};
+
+const SharedResultRoute: React.FC = () => {
+  const { token } = useParams();
+  const navigate = useNavigate();
+  const { toasts, showError, showSuccess, removeToast } = useError();
+  const [shared, setShared] = useState<SharedBrandResult | null>();
+
+  useEffect(() => {
+    if (!token) return;
+
+    loadSharedBrandResult(token)
+      .then(setShared)
+      .catch((error) => {
+        console.error('Failed to load shared result:', error);
+        setShared(null);
+      });
+  }, [token]);
+
+  if (shared === undefined) {
+    return <LoadingPage />;
+  }
+
+  if (!shared) {
+    return <UnavailableShareState />;
+  }
+
+  const getSharedExportOptions = (): BrandKitExportOptions => ({
+    brandName: shared.brandName,
+    formData: shared.formData,
+    kit: shared.result.result,
+    exportedAt: new Date().toISOString(),
+    sourceModel: shared.result.sourceModel || undefined,
+    logoImageUrl: shared.result.logoImageUrl,
+    includeRecap: shared.includesAnswers,
+  });
+
+  const handleExportPdf = async () => {
+    try {
+      await openBrandKitPdfExport(getSharedExportOptions());
+    } catch (error) {
+      console.error('Failed to start PDF export:', error);
+      showError('unknown', { message: 'Could not start the PDF export right now.' });
+    }
+  };
+
+  const handleCopyBrief = async () => {
+    try {
+      await navigator.clipboard.writeText(buildBrandBriefMarkdown(getSharedExportOptions()));
+      showSuccess('Markdown brief copied.');
+    } catch (error) {
+      console.error('Failed to copy Markdown brief:', error);
+      showError('unknown', { message: 'Could not copy the brief right now.' });
+    }
+  };
+
+  const handleDownloadBrief = () =>
+    downloadFile(
+      getBrandBriefFileName(shared.brandName),
+      buildBrandBriefMarkdown(getSharedExportOptions()),
+      'text/markdown'
+    );
+
+  return (
+    <>
+      <ErrorToast toasts={toasts} onDismiss={removeToast} />
+      <BrandKit
+        kit={shared.result.result}
+        formData={shared.formData}
+        onEdit={() => undefined}
+        onBackToDashboard={() => navigate('/')}
+        onSignOut={() => undefined}
+        onCopyLink={() => undefined}
+        onExportPdf={handleExportPdf}
+        onCopyBrief={handleCopyBrief}
+        onDownloadBrief={handleDownloadBrief}
+        readOnly={true}
+        showAnswerRecap={shared.includesAnswers}
+        projectId=""
+        initialLogoUrl={shared.result.logoImageUrl}
+        resultHistory={[shared.result]}
+        activeResultId={shared.result.id}
+        onSelectResult={() => undefined}
+        sharedNotice={
+          shared.expiresAt
+            ? `Shared read-only view. This link stays open until ${new Date(shared.expiresAt).toLocaleDateString()}.`
+            : 'Shared read-only view.'
+        }
       />
     </>
   );
@@ -919,6 +1509,7 @@ const AppRoutes: React.FC = () => {
     <Routes>
       <Route path="/" element={<HomePage />} />
       <Route path="/auth" element={<Navigate to="/" replace />} />
+      <Route path="/share/:token" element={<SharedResultRoute />} />
       <Route element={<ProtectedRoute />}>
         <Route path="/dashboard" element={<DashboardRoute />} />
         <Route path="/project/:projectId" element={<ProjectIndexRoute />} />
@@ -3,18 +3,31 @@ import {
   BrandKit as BrandKitType,
   BrandFormData,
   BrandKitLocks,
+  GenerationStatusNotice,
   KitSectionId,
+  PaletteColorCorrection,
   RegenerableKitSectionId,
   SavedBrandResult,
+  ShareLink,
+  ShareLinkOptions,
 } from '../types';
 import BrandHeader from './BrandHeader';
 import BrandSummary from './BrandSummary';
 import LogoGenerator from './LogoGenerator';
 import LogoDisplay from './LogoDisplay';
 import ErrorToast from './ErrorToast';
+import GenerationStatusCard from './GenerationStatusCard';
+import PaletteAccessibilityPanel from './PaletteAccessibilityPanel';
+import PaletteScalesPanel from './PaletteScalesPanel';
+import ShareLinksPanel from './ShareLinksPanel';
 import ThemeToggle from './ThemeToggle';
+import TypeSpecimen from './TypeSpecimen';
 import { useError } from '../hooks/useError';
 import { generateLogo } from '../lib/logoGeneration';
+import { BRAND_KIT_FIELD_LABELS, BRAND_KIT_SECTION_NAV } from '../lib/brandKitSchema';
+import { getSectionRegenerationLabel } from '../lib/brandStrategy';
+import { TOKEN_EXPORT_FORMATS, TokenExportFormat, getPaletteRole } from '../lib/brandTokens';
+import { getTypographySystem } from '../lib/typographySystem';
 
 interface BrandKitProps {
   kit: BrandKitType;
@@ -24,18 +37,45 @@ interface BrandKitProps {
   onSignOut: () => void;
   onCopyLink: () => Promise<void> | void;
   onExportPdf: () => Promise<void> | void;
+  onExportTokens?: (format: TokenExportFormat) => Promise<void> | void;
+  onExportWorkbook?: () => Promise<void> | void;
+  onExportPackage?: (logoUrl: string | null) => Promise<void> | void;
+  onCopyBrief?: () => Promise<void> | void;
+  onDownloadBrief?: () => Promise<void> | void;
   readOnly?: boolean;
   projectId: string;
   kitLocks?: BrandKitLocks;
   onToggleLock?: (sectionId: KitSectionId) => void;
-  onRegenerateSection?: (sectionId: RegenerableKitSectionId) => void;
+  onRegenerateSection?: (sectionId: RegenerableKitSectionId, instruction?: string) => void;
+  onGenerateVariants?: (
+    variantCount: number,
+    sectionId?: RegenerableKitSectionId,
+    instruction?: string
+  ) => void;
   isRegenerating?: boolean;
+  generationStatus?: GenerationStatusNotice;
   onDuplicate?: () => void;
   onPersistGeneratedLogo?: (logoUrl: string) => Promise<void>;
   initialLogoUrl?: string | null;
   resultHistory: SavedBrandResult[];
   activeResultId: string;
   onSelectResult: (resultId: string) => void;
+  onCompareResults?: (beforeId: string) => void;
+  onPromoteResult?: () => void;
+  shareLinks?: ShareLink[];
+  sharedNotice?: string;
+  /** Shared links without answers only carry what the kit is rendered from, so the recap is hidden */
+  showAnswerRecap?: boolean;
+  onCreateShareLink?: (options: ShareLinkOptions) => Promise<void> | void;
+  onCopyShareLink?: (link: ShareLink) => void;
+  onRevokeShareLink?: (link: ShareLink) => void;
+}
+
+interface NotebookRegenerateAction {
+  key: string;
+  label: string;
+  isLocked: boolean;
+  onRegenerate: (instruction?: string, variantCount?: number) => void;
 }
 
 interface NotebookSectionProps {
@@ -46,23 +86,26 @@ interface NotebookSectionProps {
   contentToCopy?: string;
   isLocked?: boolean;
   onToggleLock?: () => void;
-  onRegenerate?: () => void;
+  regenerateActions?: NotebookRegenerateAction[];
   isRegenerating?: boolean;
-  canRegenerate?: boolean;
 }
 
-const SECTION_NAV = [
-  { id: 'overview', label: 'Overview' },
-  { id: 'essence', label: 'Essence' },
-  { id: 'personality', label: 'Personality' },
-  { id: 'palette', label: 'Palette' },
-  { id: 'typography', label: 'Typography' },
-  { id: 'logo', label: 'Logo' },
-  { id: 'voice', label: 'Voice' },
-  { id: 'imagery', label: 'Imagery' },
-  { id: 'applications', label: 'Applications' },
-  { id: 'recap', label: 'Recap' },
-];
+const VARIANT_COUNT_OPTIONS = [2, 3, 4];
+
+const describeColorCorrection = (correction: PaletteColorCorrection) => {
+  switch (correction.method) {
+    case 'parsed':
+      return 'read from the color code';
+    case 'name':
+      return 'read from the color name';
+    case 'approximated':
+      return 'approximated from the color name';
+    case 'fallback':
+      return `closest match from ${correction.source || 'your palette answers'}`;
+    case 'unresolved':
+      return 'no color could be recovered, so it is left out of tokens and swatches';
+  }
+};
 
 const uniqueValues = (values: string[]) => Array.from(new Set(values.filter(Boolean)));
 
@@ -73,37 +116,6 @@ const joinAsSentence = (values: string[]) => {
   return `${values.slice(0, -1).join(', ')}, and ${values[values.length - 1]}`;
 };
 
-const inferFontPreviewClass = (fontName: string) => {
-  const value = fontName.toLowerCase();
-
-  if (
-    value.includes('mono') ||
-    value.includes('courier') ||
-    value.includes('typewriter') ||
-    value.includes('space mono')
-  ) {
-    return 'kit-type-preview-mono';
-  }
-
-  if (
-    value.includes('serif') ||
-    value.includes('garamond') ||
-    value.includes('caslon') ||
-    value.includes('times') ||
-    value.includes('bodoni') ||
-    value.includes('playfair') ||
-    value.includes('didot')
-  ) {
-    return 'kit-type-preview-serif';
-  }
-
-  if (value.includes('script') || value.includes('handwritten') || value.includes('signature')) {
-    return 'kit-type-preview-script';
-  }
-
-  return 'kit-type-preview-sans';
-};
-
 const NotebookSection: React.FC<NotebookSectionProps> = ({
   id,
   eyebrow,
@@ -112,15 +124,33 @@ const NotebookSection: React.FC<NotebookSectionProps> = ({
   contentToCopy,
   isLocked = false,
   onToggleLock,
-  onRegenerate,
+  regenerateActions = [],
   isRegenerating = false,
-  canRegenerate = false,
 }) => {
+  const [pendingActionKey, setPendingActionKey] = useState<string | null>(null);
+  const [instruction, setInstruction] = useState('');
+  const [variantCount, setVariantCount] = useState(1);
+  const pendingAction = regenerateActions.find((action) => action.key === pendingActionKey);
+
   const handleCopy = async () => {
     if (!contentToCopy) return;
     await navigator.clipboard.writeText(contentToCopy);
   };
 
+  const closeRegenerateForm = () => {
+    setPendingActionKey(null);
+    setInstruction('');
+    setVariantCount(1);
+  };
+
+  const handleRegenerateSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!pendingAction) return;
+
+    pendingAction.onRegenerate(instruction.trim() || undefined, variantCount);
+    closeRegenerateForm();
+  };
+
   return (
     <section id={id} className={`kit-sheet-section ${isLocked ? 'kit-section-locked' : ''}`}>
       <div className="kit-sheet-header">
@@ -139,16 +169,25 @@ const NotebookSection: React.FC<NotebookSectionProps> = ({
               {isLocked ? '[ LOCKED ]' : '[ LOCK ]'}
             </button>
           )}
-          {canRegenerate && onRegenerate && (
+          {regenerateActions.map((action) => (
             <button
+              key={action.key}
               type="button"
               className="kit-regen-btn"
-              disabled={isLocked || isRegenerating}
-              onClick={onRegenerate}
+              disabled={action.isLocked || isRegenerating}
+              onClick={() => {
+                setPendingActionKey(action.key);
+                setInstruction('');
+              }}
+              title={action.isLocked ? `${action.label} is locked.` : `Regenerate ${action.label.toLowerCase()}.`}
             >
-              {isRegenerating ? '[ ... ]' : '[ REGENERATE ]'}
+              {isRegenerating
+                ? '[ ... ]'
+                : regenerateActions.length > 1
+                  ? `[ REGENERATE ${action.label.toUpperCase()} ]`
+                  : '[ REGENERATE ]'}
             </button>
-          )}
+          ))}
           {contentToCopy && (
             <button type="button" className="kit-copy-btn" onClick={handleCopy}>
               [ COPY ]
@@ -157,6 +196,45 @@ const NotebookSection: React.FC<NotebookSectionProps> = ({
         </div>
       </div>
 
+      {pendingAction && !pendingAction.isLocked && (
+        <form className="kit-regen-form" onSubmit={handleRegenerateSubmit}>
+          <label className="kit-regen-form-label" htmlFor={`${id}-${pendingAction.key}-instruction`}>
+            Direction for the new {pendingAction.label.toLowerCase()} (optional)
+          </label>
+          <input
+            id={`${id}-${pendingAction.key}-instruction`}
+            className="kit-regen-form-input"
+            type="text"
+            value={instruction}
+            maxLength={500}
+            placeholder="e.g. warmer palette, avoid navy"
+            onChange={(event) => setInstruction(event.target.value)}
+            autoFocus
+          />
+          <div className="kit-regen-form-actions">
+            <select
+              className="kit-regen-form-takes"
+              value={variantCount}
+              onChange={(event) => setVariantCount(Number(event.target.value))}
+              aria-label="Number of takes"
+            >
+              <option value={1}>1 take</option>
+              {VARIANT_COUNT_OPTIONS.map((count) => (
+                <option key={count} value={count}>
+                  {count} takes to compare
+                </option>
+              ))}
+            </select>
+            <button type="submit" className="kit-regen-btn" disabled={isRegenerating}>
+              [ REGENERATE ]
+            </button>
+            <button type="button" className="kit-copy-btn" onClick={closeRegenerateForm}>
+              [ CANCEL ]
+            </button>
+          </div>
+        </form>
+      )}
+
       <div className="kit-sheet-body">{children}</div>
     </section>
   );
@@ -170,21 +248,39 @@ const BrandKit: React.FC<BrandKitProps> = ({
   onSignOut,
   onCopyLink,
   onExportPdf,
+  onExportTokens,
+  onExportWorkbook,
+  onExportPackage,
+  onCopyBrief,
+  onDownloadBrief,
   readOnly = false,
   projectId,
   kitLocks = {},
   onToggleLock,
   onRegenerateSection,
+  onGenerateVariants,
   isRegenerating = false,
+  generationStatus,
   onDuplicate,
   onPersistGeneratedLogo,
   initialLogoUrl,
   resultHistory,
   activeResultId,
   onSelectResult,
+  onCompareResults,
+  onPromoteResult,
+  shareLinks,
+  sharedNotice,
+  showAnswerRecap = true,
+  onCreateShareLink,
+  onCopyShareLink,
+  onRevokeShareLink,
 }) => {
   const [isGeneratingLogo, setIsGeneratingLogo] = useState(false);
+  const [kitVariantCount, setKitVariantCount] = useState(VARIANT_COUNT_OPTIONS[0]);
+  const [tokenFormat, setTokenFormat] = useState<TokenExportFormat>(TOKEN_EXPORT_FORMATS[0].format);
   const [generatedLogoUrl, setGeneratedLogoUrl] = useState<string | null>(initialLogoUrl || null);
+  const [isExportingPackage, setIsExportingPackage] = useState(false);
 
   const { toasts, showError, showSuccess, removeToast } = useError();
 
@@ -192,6 +288,25 @@ const BrandKit: React.FC<BrandKitProps> = ({
     setGeneratedLogoUrl(initialLogoUrl || null);
   }, [initialLogoUrl, activeResultId]);
 
+  // Packages the logo currently shown in LogoDisplay, including one generated this session
+  const handleExportPackage = async () => {
+    if (!onExportPackage) return;
+
+    setIsExportingPackage(true);
+    try {
+      await onExportPackage(generatedLogoUrl);
+    } finally {
+      setIsExportingPackage(false);
+    }
+  };
+
+  const activeMetadata = resultHistory.find((result) => result.id === activeResultId)?.metadata;
+  const activeQualityReport = activeMetadata?.qualityReport;
+  const colorCorrections = activeMetadata?.colorCorrections || [];
+  const defaultedSectionLabels = (activeQualityReport?.defaultedSections || []).map(
+    (field) => BRAND_KIT_FIELD_LABELS[field] || field
+  );
+
   const synthesizedFoundation = kit.brandFoundation;
   const synthesizedPersonality = kit.personalityProfile;
   const synthesizedMessaging = kit.messagingDirection;
@@ -228,12 +343,15 @@ const BrandKit: React.FC<BrandKitProps> = ({
 
   const paletteItems = (kit.colorPaletteSuggestions || []).map((color, index) => ({
     ...color,
-    role: ['Primary', 'Secondary', 'Accent', 'Support'][index] || 'Support',
+    role: getPaletteRole(index),
   }));
 
   const headlineFont = kit.fontPairing?.headlineFont || 'Heading font not specified';
   const bodyFont = kit.fontPairing?.bodyFont || 'Body font not specified';
-  const accentFont = headlineFont;
+  const typographySystem = useMemo(() => getTypographySystem(kit, formData), [kit, formData]);
+  const tocSections = showAnswerRecap
+    ? BRAND_KIT_SECTION_NAV
+    : BRAND_KIT_SECTION_NAV.filter((section) => section.id !== 'recap');
   const essenceMission = synthesizedFoundation?.mission || 'Mission summary was not returned in this result yet.';
   const essencePositioning =
     synthesizedFoundation?.positioning || 'Positioning summary was not returned in this result yet.';
@@ -323,11 +441,36 @@ const BrandKit: React.FC<BrandKitProps> = ({
     }
   };
 
+  const getRegenerateActions = (
+    targets: Array<{ sectionId: RegenerableKitSectionId; label: string }>
+  ): NotebookRegenerateAction[] =>
+    !readOnly && onRegenerateSection
+      ? targets.map(({ sectionId, label }) => ({
+          key: sectionId,
+          label,
+          isLocked: Boolean(kitLocks[sectionId]),
+          onRegenerate: (instruction, variantCount = 1) =>
+            variantCount > 1 && onGenerateVariants
+              ? onGenerateVariants(variantCount, sectionId, instruction)
+              : onRegenerateSection(sectionId, instruction),
+        }))
+      : [];
+
   const jumpToSection = (id: string) => {
     const section = document.getElementById(id);
     section?.scrollIntoView({ behavior: 'smooth', block: 'start' });
   };
 
+  const activeIndex = resultHistory.findIndex((result) => result.id === activeResultId);
+  // History is newest first, so the previous version sits just after the active one.
+  const compareTargetId =
+    resultHistory[activeIndex + 1]?.id || (activeIndex > 0 ? resultHistory[activeIndex - 1].id : null);
+
+  const getVersionLabel = (resultId: string) => {
+    const index = resultHistory.findIndex((result) => result.id === resultId);
+    return index >= 0 ? `Version ${resultHistory.length - index}` : 'an earlier version';
+  };
+
   const formatVersionDate = (value: string) =>
     new Intl.DateTimeFormat(undefined, {
       month: 'short',
@@ -362,6 +505,10 @@ const BrandKit: React.FC<BrandKitProps> = ({
         subtitle={formData.brandName ? `Brand Identity: ${formData.brandName}` : 'The Mosaic Output'}
       />
 
+      {sharedNotice && <div className="shared-view-banner">{sharedNotice}</div>}
+
+      {generationStatus && <GenerationStatusCard status={generationStatus} />}
+
       <section id="overview" className="kit-overview-sheet">
         <div className="kit-overview-copy">
           <div className="kit-overview-kicker">Generated Brand Direction</div>
@@ -379,14 +526,84 @@ const BrandKit: React.FC<BrandKitProps> = ({
               [ EXPORT PDF ]
             </button>
 
+            {onExportTokens && (
+              <>
+                <select
+                  className="kit-variant-count"
+                  value={tokenFormat}
+                  onChange={(event) => setTokenFormat(event.target.value as TokenExportFormat)}
+                  aria-label="Design token format"
+                >
+                  {TOKEN_EXPORT_FORMATS.map((option) => (
+                    <option key={option.format} value={option.format}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="brand-edit-btn" onClick={() => onExportTokens(tokenFormat)}>
+                  [ EXPORT TOKENS ]
+                </button>
+              </>
+            )}
+
+            {onCopyBrief && (
+              <button type="button" className="brand-edit-btn" onClick={onCopyBrief}>
+                [ COPY MARKDOWN ]
+              </button>
+            )}
+            {onDownloadBrief && (
+              <button type="button" className="brand-edit-btn" onClick={onDownloadBrief}>
+                [ DOWNLOAD MARKDOWN ]
+              </button>
+            )}
+
             {!readOnly ? (
               <>
                 <button type="button" className="brand-edit-btn" onClick={onCopyLink}>
                   [ COPY LINK ]
                 </button>
+                {onExportPackage && (
+                  <button
+                    type="button"
+                    className="brand-edit-btn"
+                    onClick={handleExportPackage}
+                    disabled={isExportingPackage}
+                  >
+                    {isExportingPackage ? '[ PACKAGING... ]' : '[ EXPORT BRAND PACKAGE ]'}
+                  </button>
+                )}
+                {onExportWorkbook && (
+                  <button type="button" className="brand-edit-btn" onClick={onExportWorkbook}>
+                    [ EXPORT WORKBOOK JSON ]
+                  </button>
+                )}
                 <button type="button" className="brand-edit-btn" onClick={onEdit}>
                   [ EDIT ANSWERS ]
                 </button>
+                {onGenerateVariants && (
+                  <>
+                    <select
+                      className="kit-variant-count"
+                      value={kitVariantCount}
+                      onChange={(event) => setKitVariantCount(Number(event.target.value))}
+                      aria-label="Number of full-kit options"
+                    >
+                      {VARIANT_COUNT_OPTIONS.map((count) => (
+                        <option key={count} value={count}>
+                          {count} options
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="brand-edit-btn"
+                      onClick={() => onGenerateVariants(kitVariantCount)}
+                      disabled={isRegenerating}
+                    >
+                      {isRegenerating ? '[ WRITING OPTIONS... ]' : '[ COMPARE FULL-KIT OPTIONS ]'}
+                    </button>
+                  </>
+                )}
               </>
             ) : (
               onDuplicate && (
@@ -416,6 +633,20 @@ const BrandKit: React.FC<BrandKitProps> = ({
             </div>
           </div>
 
+          {defaultedSectionLabels.length > 0 && (
+            <div className="kit-overview-note kit-quality-note">
+              <span className="kit-overview-note-label">Quality Check</span>
+              <p>
+                The model did not return {joinAsSentence(defaultedSectionLabels)} cleanly
+                {activeQualityReport?.repairAttempts
+                  ? ` after ${activeQualityReport.repairAttempts} repair attempt${activeQualityReport.repairAttempts === 1 ? '' : 's'}`
+                  : ''}
+                , so {defaultedSectionLabels.length === 1 ? 'that section was' : 'those sections were'} filled from defaults.
+                Regenerate to replace them.
+              </p>
+            </div>
+          )}
+
           <div className="kit-overview-note kit-version-note">
             <span className="kit-overview-note-label">Workbook Versions</span>
             <div className="kit-version-stack">
@@ -440,11 +671,79 @@ const BrandKit: React.FC<BrandKitProps> = ({
                     {result.sourceModel && (
                       <span className="kit-version-model">{result.sourceModel}</span>
                     )}
+                    {Boolean(result.metadata?.carriedOver?.sections.length) && (
+                      <span className="kit-version-carried">
+                        Kept locked:{' '}
+                        {joinAsSentence(
+                          (result.metadata.carriedOver?.sections || []).map((sectionId) =>
+                            getSectionRegenerationLabel(sectionId)
+                          )
+                        )}
+                      </span>
+                    )}
+                    {result.metadata?.restoredFrom && (
+                      <span className="kit-version-reason">
+                        Restored from {getVersionLabel(result.metadata.restoredFrom.resultId)}
+                      </span>
+                    )}
+                    {result.metadata?.variantPick && (
+                      <span className="kit-version-reason">
+                        Picked from {result.metadata.variantPick.variantCount} options
+                        {Object.keys(result.metadata.variantPick.sections).length > 0
+                          ? ', with sections mixed across them'
+                          : ''}
+                      </span>
+                    )}
+                    {result.metadata?.sectionRegeneration && (
+                      <span className="kit-version-reason">
+                        Revised {getSectionRegenerationLabel(result.metadata.sectionRegeneration.sectionId)}
+                        {result.metadata.sectionRegeneration.instruction
+                          ? `: "${result.metadata.sectionRegeneration.instruction}"`
+                          : ''}
+                      </span>
+                    )}
                   </button>
                 );
               })}
             </div>
+            {onPromoteResult && !readOnly && activeIndex > 0 && (
+              <div className="kit-version-promote">
+                <p>
+                  You are viewing Version {resultHistory.length - activeIndex}. Regeneration and
+                  exports use the version on screen; make it current so it also leads the dashboard
+                  and future full regenerations.
+                </p>
+                <button
+                  type="button"
+                  className="kit-regen-btn"
+                  onClick={onPromoteResult}
+                  disabled={isRegenerating}
+                >
+                  [ MAKE THIS THE CURRENT VERSION ]
+                </button>
+              </div>
+            )}
+            {onCompareResults && compareTargetId && (
+              <button
+                type="button"
+                className="kit-regen-btn kit-version-compare-btn"
+                onClick={() => onCompareResults(compareTargetId)}
+              >
+                [ COMPARE WITH {activeIndex < resultHistory.length - 1 ? 'PREVIOUS' : 'NEXT'} VERSION ]
+              </button>
+            )}
           </div>
+
+          {!readOnly && shareLinks && onCreateShareLink && onCopyShareLink && onRevokeShareLink && (
+            <ShareLinksPanel
+              links={shareLinks}
+              activeVersionLabel={activeIndex >= 0 ? `Version ${resultHistory.length - activeIndex}` : 'this version'}
+              getVersionLabel={getVersionLabel}
+              onCreate={onCreateShareLink}
+              onCopy={onCopyShareLink}
+              onRevoke={onRevokeShareLink}
+            />
+          )}
         </div>
       </section>
 
@@ -452,7 +751,7 @@ const BrandKit: React.FC<BrandKitProps> = ({
         <aside className="kit-toc">
           <div className="kit-toc-title">Notebook Map</div>
           <div className="kit-toc-list">
-            {SECTION_NAV.map((section, index) => (
+            {tocSections.map((section, index) => (
               <button
                 key={section.id}
                 type="button"
@@ -474,9 +773,12 @@ const BrandKit: React.FC<BrandKitProps> = ({
             contentToCopy={`${brandEssenceText}\n\n${summaryParagraph}`}
             isLocked={kitLocks.brandEssence}
             onToggleLock={!readOnly && onToggleLock ? () => onToggleLock('brandEssence') : undefined}
-            onRegenerate={!readOnly && onRegenerateSection ? () => onRegenerateSection('brandEssence') : undefined}
+            regenerateActions={getRegenerateActions([
+              { sectionId: 'brandEssence', label: 'Essence' },
+              { sectionId: 'summaryParagraph', label: 'Summary' },
+              { sectionId: 'brandArchetype', label: 'Archetype' },
+            ])}
             isRegenerating={isRegenerating}
-            canRegenerate={!readOnly}
           >
             <p className="kit-essence">{brandEssenceText}</p>
 
@@ -505,6 +807,11 @@ const BrandKit: React.FC<BrandKitProps> = ({
             eyebrow="How The Brand Feels"
             title="Brand Personality"
             contentToCopy={[...personalityTraits, ...personalityTone, ...emotionalDescriptors].join(', ')}
+            regenerateActions={getRegenerateActions([
+              { sectionId: 'keywords', label: 'Keywords' },
+              { sectionId: 'toneOfVoice', label: 'Tone' },
+            ])}
+            isRegenerating={isRegenerating}
           >
             <div className="kit-personality-groups">
               <div className="kit-personality-group">
@@ -547,9 +854,10 @@ const BrandKit: React.FC<BrandKitProps> = ({
             eyebrow="Visual System"
             title="Color Palette"
             contentToCopy={paletteItems.map((color) => `${color.role}: ${color.name} ${color.hex} — ${color.usage}`).join('\n')}
-            onRegenerate={!readOnly && onRegenerateSection ? () => onRegenerateSection('colorPaletteSuggestions') : undefined}
+            regenerateActions={getRegenerateActions([
+              { sectionId: 'colorPaletteSuggestions', label: 'Palette' },
+            ])}
             isRegenerating={isRegenerating}
-            canRegenerate={!readOnly}
           >
             {paletteItems.length > 0 ? (
               <div className="kit-palette-grid">
@@ -570,6 +878,26 @@ const BrandKit: React.FC<BrandKitProps> = ({
                 No palette suggestions were generated yet. Regenerate the result after refining the workbook if you want a clearer palette system.
               </div>
             )}
+
+            {colorCorrections.length > 0 && (
+              <div className="kit-color-corrections">
+                <span className="kit-note-label">Color Corrections</span>
+                <ul>
+                  {colorCorrections.map((correction, index) => (
+                    <li key={`${correction.name}-${index}`}>
+                      {correction.corrected && (
+                        <span className="palette-a11y-chip" style={{ backgroundColor: correction.corrected }} />
+                      )}
+                      <strong>{correction.name || 'Unnamed color'}</strong> ({correction.original || 'no value'}) →{' '}
+                      {correction.corrected || 'left out'} · {describeColorCorrection(correction)}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <PaletteScalesPanel kit={kit} formData={formData} />
+            <PaletteAccessibilityPanel kit={kit} />
           </NotebookSection>
 
           <NotebookSection
@@ -577,29 +905,17 @@ const BrandKit: React.FC<BrandKitProps> = ({
             eyebrow="Reading Rhythm"
             title="Typography"
             contentToCopy={`${headlineFont}\n${bodyFont}\n${kit.fontPairing?.note || 'Use the type pairing with restraint and consistency.'}`}
+            regenerateActions={getRegenerateActions([
+              { sectionId: 'fontPairing', label: 'Typography' },
+            ])}
+            isRegenerating={isRegenerating}
           >
-            <div className="kit-type-grid">
-              <div className="kit-type-card">
-                <span className="kit-note-label">Display / Heading</span>
-                <strong>{headlineFont}</strong>
-                <div className={`kit-type-preview ${inferFontPreviewClass(headlineFont)}`}>Brand Mosaic</div>
-                <p>Use for page titles, section headlines, and places where the brand should feel most expressive.</p>
-              </div>
-
-              <div className="kit-type-card">
-                <span className="kit-note-label">Body</span>
-                <strong>{bodyFont}</strong>
-                <div className={`kit-type-preview ${inferFontPreviewClass(bodyFont)}`}>Clear, practical body copy for everyday reading.</div>
-                <p>Use for paragraphs, supporting notes, and content that needs clarity first.</p>
-              </div>
-
-              <div className="kit-type-card">
-                <span className="kit-note-label">Accent / Reference</span>
-                <strong>{accentFont}</strong>
-                <div className={`kit-type-preview ${inferFontPreviewClass(accentFont)}`}>A smaller styling cue for labels, pull quotes, or emphasis.</div>
-                <p>{kit.fontPairing?.note || 'Treat this as a style cue rather than a strict final font prescription.'}</p>
-              </div>
-            </div>
+            <TypeSpecimen
+              headlineFont={kit.fontPairing?.headlineFont}
+              bodyFont={kit.fontPairing?.bodyFont}
+              note={kit.fontPairing?.note}
+              system={typographySystem}
+            />
           </NotebookSection>
 
           <NotebookSection
@@ -607,9 +923,11 @@ const BrandKit: React.FC<BrandKitProps> = ({
             eyebrow="Mark Direction"
             title="Logo Direction"
             contentToCopy={kit.logoPrompt || ''}
-            onRegenerate={!readOnly && onRegenerateSection ? () => onRegenerateSection('logoDirection') : undefined}
+            regenerateActions={getRegenerateActions([
+              { sectionId: 'logoDirection', label: 'Direction' },
+              { sectionId: 'logoPrompt', label: 'Prompt' },
+            ])}
             isRegenerating={isRegenerating}
-            canRegenerate={!readOnly}
           >
             <div className="kit-logo-layout">
               <div className="kit-logo-copy">
@@ -655,9 +973,11 @@ const BrandKit: React.FC<BrandKitProps> = ({
             eyebrow="Messaging"
             title="Voice & Messaging"
             contentToCopy={`${voiceSummaryText}\n\n${messageExamples.join('\n')}\n\n${taglineDirections.join('\n')}`}
-            onRegenerate={!readOnly && onRegenerateSection ? () => onRegenerateSection('messagingDirection') : undefined}
+            regenerateActions={getRegenerateActions([
+              { sectionId: 'messagingDirection', label: 'Messaging' },
+              { sectionId: 'suggestedTagline', label: 'Tagline' },
+            ])}
             isRegenerating={isRegenerating}
-            canRegenerate={!readOnly}
           >
             <div className="kit-voice-grid">
               <div className="kit-voice-card">
@@ -699,9 +1019,10 @@ const BrandKit: React.FC<BrandKitProps> = ({
             eyebrow="Visual World"
             title="Imagery / Visual Direction"
             contentToCopy={`${imagerySummary}\n\n${imageryMood}\n\n${imageryArtDirection}\n\n${imageryNotes.join(', ')}`}
-            onRegenerate={!readOnly && onRegenerateSection ? () => onRegenerateSection('imageryDirection') : undefined}
+            regenerateActions={getRegenerateActions([
+              { sectionId: 'imageryDirection', label: 'Imagery' },
+            ])}
             isRegenerating={isRegenerating}
-            canRegenerate={!readOnly}
           >
             <p className="kit-paragraph">{imagerySummary}</p>
 
@@ -754,16 +1075,18 @@ const BrandKit: React.FC<BrandKitProps> = ({
             </div>
           </NotebookSection>
 
-          <NotebookSection
-            id="recap"
-            eyebrow="Your Starting Material"
-            title="Original Input Recap"
-          >
-            <div className="kit-recap-intro">
-              Open any group below to compare the generated direction with the answers you originally gave.
-            </div>
-            <BrandSummary formData={formData} onEdit={onEdit} readOnly={true} />
-          </NotebookSection>
+          {showAnswerRecap && (
+            <NotebookSection
+              id="recap"
+              eyebrow="Your Starting Material"
+              title="Original Input Recap"
+            >
+              <div className="kit-recap-intro">
+                Open any group below to compare the generated direction with the answers you originally gave.
+              </div>
+              <BrandSummary formData={formData} onEdit={onEdit} readOnly={true} />
+            </NotebookSection>
+          )}
         </div>
       </div>
 
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import BrandHeader from './BrandHeader';
 import ThemeToggle from './ThemeToggle';
 import { BrandProject } from '../types';
@@ -9,6 +9,8 @@ interface DashboardProps {
   userName?: string | null;
   isLoading?: boolean;
   onCreateNew: () => void;
+  onImportWorkbook?: (file: File) => void;
+  isImporting?: boolean;
   onOpenQuestions: (projectId: string) => void;
   onOpenResult: (projectId: string) => void;
   onDuplicate: (projectId: string) => void;
@@ -29,6 +31,8 @@ const Dashboard: React.FC<DashboardProps> = ({
   userName,
   isLoading = false,
   onCreateNew,
+  onImportWorkbook,
+  isImporting = false,
   onOpenQuestions,
   onOpenResult,
   onDuplicate,
@@ -37,6 +41,16 @@ const Dashboard: React.FC<DashboardProps> = ({
 }) => {
   const drafts = projects.filter((project) => !project.latestResult);
   const completed = projects.filter((project) => Boolean(project.latestResult));
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const handleImportChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+
+    if (file && onImportWorkbook) {
+      onImportWorkbook(file);
+    }
+  };
 
   return (
     <div className="brand-page dashboard-container">
@@ -72,6 +86,24 @@ const Dashboard: React.FC<DashboardProps> = ({
         <button onClick={onCreateNew} className="dashboard-create-btn">
           [ + NEW BRAND WORKBOOK ]
         </button>
+        {onImportWorkbook && (
+          <>
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="nav-link-btn dashboard-import-btn"
+              disabled={isImporting}
+            >
+              {isImporting ? '[ IMPORTING... ]' : '[ IMPORT WORKBOOK JSON ]'}
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="dashboard-import-input"
+              onChange={handleImportChange}
+            />
+          </>
+        )}
       </div>
 
       <div className="dashboard-section">
@@ -65,6 +65,22 @@ const GenerationStatusCard: React.FC<GenerationStatusCardProps> = ({ status, onD
         </ol>
       )}
 
+      {Boolean(status.activity?.length) && (
+        <ol className="generation-status-activity">
+          {status.activity?.map((entry) => (
+            <li
+              key={entry.id}
+              className={`generation-status-activity-item generation-status-activity-${entry.tone}`}
+            >
+              <span className="generation-status-step-mark">
+                {entry.tone === 'success' ? '✓' : entry.tone === 'failure' ? '✗' : '→'}
+              </span>
+              <span>{entry.label}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
       {Boolean(status.notes?.length) && (
         <ul className="generation-status-notes">
           {status.notes?.map((note) => (
@@ -0,0 +1,100 @@
+import React, { useMemo } from 'react';
+import { BrandKit } from '../types';
+import { COLOR_VISION_TYPES, buildPaletteAccessibilityAudit } from '../lib/paletteAccessibility';
+
+interface PaletteAccessibilityPanelProps {
+  kit: BrandKit;
+}
+
+const PaletteAccessibilityPanel: React.FC<PaletteAccessibilityPanelProps> = ({ kit }) => {
+  const audit = useMemo(() => buildPaletteAccessibilityAudit(kit), [kit]);
+
+  if (audit.colors.length < 2) {
+    return null;
+  }
+
+  const pairCount = (audit.colors.length * (audit.colors.length - 1)) / 2;
+  const passingCount = pairCount - audit.failingPairs.length;
+
+  return (
+    <div className="palette-a11y">
+      <div className="palette-a11y-head">
+        <span className="kit-note-label">Contrast Check (WCAG 2.1)</span>
+        <p>
+          {passingCount} of {pairCount} pairings pass AA for body text. Rows are text color, columns are
+          background.
+        </p>
+      </div>
+
+      <div className="palette-a11y-scroll">
+        <table className="palette-a11y-matrix">
+          <thead>
+            <tr>
+              <th scope="col">Text \ Background</th>
+              {audit.colors.map((color, index) => (
+                <th key={`${index}-${color.hex}`} scope="col">
+                  <span className="palette-a11y-chip" style={{ backgroundColor: color.hex }} />
+                  {color.name}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {audit.matrix.map((cells, row) => (
+              <tr key={`${row}-${audit.colors[row].hex}`}>
+                <th scope="row">
+                  <span className="palette-a11y-chip" style={{ backgroundColor: audit.colors[row].hex }} />
+                  {audit.colors[row].name}
+                </th>
+                {cells.map((cell, column) =>
+                  cell ? (
+                    <td key={`${column}-${audit.colors[column].hex}`}>
+                      <div
+                        className="palette-a11y-sample"
+                        style={{ backgroundColor: cell.background.hex, color: cell.foreground.hex }}
+                      >
+                        Aa
+                      </div>
+                      <span className={`palette-a11y-level palette-a11y-${cell.level.replace(' ', '-').toLowerCase()}`}>
+                        {cell.ratio.toFixed(2)} · {cell.level}
+                      </span>
+                      {cell.suggestion && (
+                        <span className="palette-a11y-suggestion" title={`${cell.suggestion.ratio.toFixed(2)}:1`}>
+                          <span className="palette-a11y-chip" style={{ backgroundColor: cell.suggestion.hex }} />
+                          {cell.suggestion.direction} {cell.suggestion.hex}
+                        </span>
+                      )}
+                    </td>
+                  ) : (
+                    <td key={`${column}-${audit.colors[column].hex}`} className="palette-a11y-self">—</td>
+                  )
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="palette-a11y-vision">
+        <span className="kit-note-label">Color Vision Preview</span>
+        {COLOR_VISION_TYPES.map(({ type, label }) => (
+          <div key={type} className="palette-a11y-vision-row">
+            <span>{label}</span>
+            <div className="palette-a11y-vision-swatches">
+              {audit.simulations[type].map((hex, index) => (
+                <span
+                  key={`${type}-${index}-${audit.colors[index].hex}`}
+                  className="palette-a11y-vision-swatch"
+                  style={{ backgroundColor: hex }}
+                  title={`${audit.colors[index].name}: ${audit.colors[index].hex} → ${hex}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PaletteAccessibilityPanel;
@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { BrandFormData, BrandKit } from '../types';
+import { buildBrandTokenSet } from '../lib/brandTokens';
+import { getContrastRatio } from '../lib/paletteAccessibility';
+
+const getLabelColor = (hex: string) =>
+  getContrastRatio(hex, '#FFFFFF') >= getContrastRatio(hex, '#222222') ? '#ffffff' : '#222222';
+
+interface PaletteScalesPanelProps {
+  kit: BrandKit;
+  formData: BrandFormData;
+}
+
+const PaletteScalesPanel: React.FC<PaletteScalesPanelProps> = ({ kit, formData }) => {
+  const tokens = useMemo(() => buildBrandTokenSet(kit, formData.brandName, formData), [kit, formData]);
+
+  if (tokens.colors.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="palette-scales">
+      <div className="palette-scales-head">
+        <span className="kit-note-label">Tonal Scales (OKLCH)</span>
+        <p>
+          Each color expanded to 50–950 with even lightness steps. The outlined step is the original color;
+          these are the values in the token exports.
+        </p>
+      </div>
+
+      <div className="palette-scales-rows">
+        {tokens.scales.map((scale) => (
+          <div key={scale.key} className="palette-scales-row">
+            <span className="palette-scales-label">
+              {scale.label}
+              {scale.source === 'system' && <em> · derived</em>}
+            </span>
+            <div className="palette-scales-steps">
+              {scale.steps.map(({ step, hex }) => (
+                <span
+                  key={step}
+                  className={`palette-scales-step${step === scale.baseStep ? ' is-base' : ''}`}
+                  style={{ backgroundColor: hex, color: getLabelColor(hex) }}
+                  title={`${scale.key}-${step}: ${hex}`}
+                >
+                  {step}
+                </span>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="palette-scales-semantic">
+        <span className="kit-note-label">Semantic Roles</span>
+        <div className="palette-scales-roles">
+          {tokens.semantic.map((entry) => (
+            <div key={entry.role} className="palette-scales-role">
+              <span className="palette-a11y-chip" style={{ backgroundColor: entry.hex }} />
+              <strong>{entry.role}</strong>
+              <span>
+                {entry.scaleKey}-{entry.step} · {entry.hex}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaletteScalesPanel;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { ShareLink, ShareLinkOptions } from '../types';
+
+interface ShareLinksPanelProps {
+  links: ShareLink[];
+  activeVersionLabel: string;
+  getVersionLabel: (resultId: string) => string;
+  onCreate: (options: ShareLinkOptions) => Promise<void> | void;
+  onCopy: (link: ShareLink) => void;
+  onRevoke: (link: ShareLink) => void;
+}
+
+const EXPIRY_OPTIONS: Array<{ value: number | null; label: string }> = [
+  { value: null, label: 'No expiry' },
+  { value: 1, label: 'Expires in 1 day' },
+  { value: 7, label: 'Expires in 7 days' },
+  { value: 30, label: 'Expires in 30 days' },
+];
+
+const formatShortDate = (value: string) =>
+  new Intl.DateTimeFormat(undefined, {
+    month: 'short',
+    day: 'numeric',
+  }).format(new Date(value));
+
+const getLinkStatus = (link: ShareLink) => {
+  if (link.revokedAt) return 'revoked';
+  if (link.expiresAt && new Date(link.expiresAt).getTime() <= Date.now()) return 'expired';
+  return 'active';
+};
+
+const ShareLinksPanel: React.FC<ShareLinksPanelProps> = ({
+  links,
+  activeVersionLabel,
+  getVersionLabel,
+  onCreate,
+  onCopy,
+  onRevoke,
+}) => {
+  const [label, setLabel] = useState('');
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [includeAnswers, setIncludeAnswers] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+
+  const handleCreate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsCreating(true);
+
+    try {
+      await onCreate({ label, expiresInDays: EXPIRY_OPTIONS[expiryIndex].value, includeAnswers });
+      setLabel('');
+      setIncludeAnswers(false);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="kit-overview-note share-links-note">
+      <span className="kit-overview-note-label">Share Links</span>
+      <p className="share-links-intro">
+        Public, read-only links for clients and collaborators. No account needed to view.
+      </p>
+
+      <form className="share-links-form" onSubmit={handleCreate}>
+        <input
+          type="text"
+          className="kit-regen-form-input"
+          value={label}
+          onChange={(event) => setLabel(event.target.value)}
+          placeholder="Who is this for? (optional)"
+          maxLength={80}
+        />
+        <select
+          className="kit-variant-count"
+          value={expiryIndex}
+          onChange={(event) => setExpiryIndex(Number(event.target.value))}
+          aria-label="Link expiry"
+        >
+          {EXPIRY_OPTIONS.map((option, index) => (
+            <option key={option.label} value={index}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <label className="share-links-answers">
+          <input
+            type="checkbox"
+            checked={includeAnswers}
+            onChange={(event) => setIncludeAnswers(event.target.checked)}
+          />
+          Include questionnaire answers
+        </label>
+        <button type="submit" className="kit-regen-btn" disabled={isCreating}>
+          {isCreating ? '[ CREATING... ]' : `[ SHARE ${activeVersionLabel.toUpperCase()} ]`}
+        </button>
+      </form>
+
+      {links.length > 0 && (
+        <ul className="share-links-list">
+          {links.map((link) => {
+            const status = getLinkStatus(link);
+
+            return (
+              <li key={link.id} className={`share-link-item share-link-${status}`}>
+                <div className="share-link-top">
+                  <strong>{link.label || 'Untitled link'}</strong>
+                  <span className="share-link-status">{status}</span>
+                </div>
+                <span className="share-link-meta">
+                  {getVersionLabel(link.brandResultId)} · {link.viewCount} view{link.viewCount === 1 ? '' : 's'}
+                  {link.includeAnswers ? ' · answers included' : ''}
+                  {link.expiresAt && status === 'active' ? ` · until ${formatShortDate(link.expiresAt)}` : ''}
+                  {link.lastViewedAt ? ` · last opened ${formatShortDate(link.lastViewedAt)}` : ''}
+                </span>
+                {status === 'active' && (
+                  <div className="kit-regen-form-actions">
+                    <button type="button" className="kit-regen-btn" onClick={() => onCopy(link)}>
+                      [ COPY ]
+                    </button>
+                    <button type="button" className="kit-regen-btn" onClick={() => onRevoke(link)}>
+                      [ REVOKE ]
+                    </button>
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ShareLinksPanel;
@@ -0,0 +1,182 @@
+import React, { useMemo, useState } from 'react';
+import { BrandTypographySystem } from '../types';
+import { CatalogFont } from '../lib/fontCatalog';
+import { FontResolution, resolveFont, toFontStack } from '../lib/fontResolver';
+import { getGenericFamily } from '../lib/brandTokens';
+import { buildTypographyLevels, describeLetterSpacing, formatEm } from '../lib/typographySystem';
+import { useGoogleFonts } from '../hooks/useGoogleFonts';
+
+interface TypeSpecimenProps {
+  headlineFont?: string;
+  bodyFont?: string;
+  note?: string;
+  system: BrandTypographySystem;
+}
+
+type TypeRole = 'heading' | 'body';
+
+const ROLE_COPY: Record<TypeRole, { label: string; sample: string; usage: string }> = {
+  heading: {
+    label: 'Display / Heading',
+    sample: 'Brand Mosaic',
+    usage: 'Use for page titles, section headlines, and places where the brand should feel most expressive.',
+  },
+  body: {
+    label: 'Body',
+    sample: 'Clear, practical body copy for everyday reading.',
+    usage: 'Use for paragraphs, supporting notes, and content that needs clarity first.',
+  },
+};
+
+const STATUS_COPY: Record<FontResolution['status'], string> = {
+  available: 'On Google Fonts',
+  approximate: 'Not an exact Google Fonts name. Previewed with the substitute',
+  commercial: 'Commercial license required. Closest free alternatives:',
+  unknown: 'Not found on Google Fonts. Closest available alternatives:',
+  missing: 'Not specified',
+};
+
+const getPreviewFont = (resolution: FontResolution, picked?: string) =>
+  resolution.font || resolution.alternatives.find((entry) => entry.family === picked) || resolution.alternatives[0] || null;
+
+const getPreviewStack = (resolution: FontResolution, font: CatalogFont | null) =>
+  font ? toFontStack(font) : `"${resolution.requested}", ${getGenericFamily(resolution.requested)}`;
+
+const TypeSpecimen: React.FC<TypeSpecimenProps> = ({ headlineFont, bodyFont, note, system }) => {
+  const resolutions = useMemo(
+    () => ({ heading: resolveFont(headlineFont), body: resolveFont(bodyFont) }),
+    [headlineFont, bodyFont]
+  );
+  const [pickedAlternatives, setPickedAlternatives] = useState<Partial<Record<TypeRole, string>>>({});
+
+  const previewFonts = {
+    heading: getPreviewFont(resolutions.heading, pickedAlternatives.heading),
+    body: getPreviewFont(resolutions.body, pickedAlternatives.body),
+  };
+  const stacks = {
+    heading: getPreviewStack(resolutions.heading, previewFonts.heading),
+    body: getPreviewStack(resolutions.body, previewFonts.body),
+  };
+
+  // Alternatives are loaded too so each option renders in its own face
+  const loadState = useGoogleFonts(
+    [previewFonts.heading, previewFonts.body, ...resolutions.heading.alternatives, ...resolutions.body.alternatives].filter(
+      (entry): entry is CatalogFont => Boolean(entry)
+    )
+  );
+  const levels = useMemo(() => buildTypographyLevels(system), [system]);
+  const rhythm = {
+    heading: { lineHeight: system.lineHeights.heading, letterSpacing: formatEm(system.letterSpacing.heading) },
+    body: { lineHeight: system.lineHeights.body, letterSpacing: formatEm(system.letterSpacing.body) },
+  };
+
+  return (
+    <div className={`type-specimen type-specimen-${loadState}`}>
+      <div className="kit-type-grid">
+        {(['heading', 'body'] as const).map((role) => {
+          const resolution = resolutions[role];
+          const previewFont = previewFonts[role];
+
+          return (
+            <div key={role} className="kit-type-card">
+              <span className="kit-note-label">{ROLE_COPY[role].label}</span>
+              <strong>{resolution.requested || `${role === 'heading' ? 'Heading' : 'Body'} font not specified`}</strong>
+              <span className="type-specimen-status">
+                {STATUS_COPY[resolution.status]}
+                {resolution.status === 'approximate' && resolution.font && ` ${resolution.font.family}`}
+                {resolution.font && ` · ${resolution.font.category} · ${resolution.font.license}`}
+              </span>
+              {resolution.alternatives.length > 0 && (
+                <div className="type-specimen-alternatives">
+                  {resolution.alternatives.map((entry) => (
+                    <button
+                      key={entry.family}
+                      type="button"
+                      className={`type-specimen-alternative${previewFont?.family === entry.family ? ' is-active' : ''}`}
+                      style={{ fontFamily: toFontStack(entry) }}
+                      onClick={() => setPickedAlternatives((current) => ({ ...current, [role]: entry.family }))}
+                    >
+                      {entry.family}
+                    </button>
+                  ))}
+                </div>
+              )}
+              <div className="kit-type-preview" style={{ fontFamily: stacks[role], ...rhythm[role] }}>
+                {ROLE_COPY[role].sample}
+              </div>
+              <p>{ROLE_COPY[role].usage}</p>
+            </div>
+          );
+        })}
+
+        <div className="kit-type-card">
+          <span className="kit-note-label">Pairing Note</span>
+          <strong>
+            {[previewFonts.heading?.family, previewFonts.body?.family].filter(Boolean).join(' + ') || 'No loadable pairing'}
+          </strong>
+          <div className="kit-type-preview" style={{ fontFamily: stacks.heading }}>
+            A smaller styling cue for labels, pull quotes, or emphasis.
+          </div>
+          <p>{note || 'Treat this as a style cue rather than a strict final font prescription.'}</p>
+        </div>
+      </div>
+
+      <div className="type-specimen-scale">
+        <span className="kit-note-label">
+          Type Scale · {system.baseSize}px base × {system.scaleRatio} ({system.scaleName})
+        </span>
+        {levels.map((level) => (
+          <div key={level.id} className="type-specimen-row">
+            <span className="type-specimen-meta">
+              {level.label} · {level.size}px / {level.lineHeight}
+            </span>
+            <span
+              className="type-specimen-sample"
+              style={{
+                fontFamily: level.heading ? stacks.heading : stacks.body,
+                fontSize: `${level.size}px`,
+                lineHeight: level.lineHeight,
+                letterSpacing: formatEm(level.letterSpacing),
+              }}
+            >
+              {level.heading ? ROLE_COPY.heading.sample : ROLE_COPY.body.sample}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="type-specimen-rhythm">
+        <div className="type-specimen-tracking">
+          <span className="kit-note-label">Letter-spacing</span>
+          <span
+            className="type-specimen-caps"
+            style={{ fontFamily: stacks.body, letterSpacing: formatEm(system.letterSpacing.caps) }}
+          >
+            Section label
+          </span>
+          <p>{describeLetterSpacing(system)}</p>
+        </div>
+
+        <div className="type-specimen-spacing">
+          <span className="kit-note-label">Spacing · {system.spacingUnit}px unit</span>
+          {system.spacingScale.map((value) => (
+            <div key={value} className="type-specimen-space">
+              <span className="type-specimen-meta">{value}px</span>
+              <span className="type-specimen-space-bar" style={{ width: `${value}px` }} />
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {system.rationale.length > 0 && (
+        <ul className="type-specimen-rationale">
+          {system.rationale.map((reason) => (
+            <li key={reason}>{reason}</li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default TypeSpecimen;
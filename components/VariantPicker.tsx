@@ -0,0 +1,232 @@
+import React, { useState } from 'react';
+import {
+  BrandKit as BrandKitType,
+  BrandKitLocks,
+  BrandKitVariantSet,
+  RegenerableKitSectionId,
+} from '../types';
+import BrandHeader from './BrandHeader';
+import ThemeToggle from './ThemeToggle';
+import { BRAND_KIT_FIELD_LABELS } from '../lib/brandKitSchema';
+import {
+  getRegenerableSectionIds,
+  getSectionRegenerationFields,
+  getSectionRegenerationLabel,
+} from '../lib/brandStrategy';
+
+export interface VariantSelection {
+  baseVariant: number;
+  sections: Partial<Record<RegenerableKitSectionId, number>>;
+}
+
+interface VariantPickerProps {
+  brandName: string;
+  variantSet: BrandKitVariantSet;
+  kitLocks: BrandKitLocks;
+  isSaving: boolean;
+  onSave: (selection: VariantSelection) => void;
+  onDiscard: () => void;
+}
+
+const OPTION_LETTERS = ['A', 'B', 'C', 'D'];
+
+export const getVariantLabel = (index: number) => `Option ${OPTION_LETTERS[index] || index + 1}`;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const formatKey = (key: string) =>
+  key.replace(/([A-Z])/g, ' $1').replace(/^./, (letter) => letter.toUpperCase());
+
+const renderValue = (value: unknown): React.ReactNode => {
+  if (typeof value === 'string') {
+    return <p>{value}</p>;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.every((item) => isRecord(item) && typeof item.hex === 'string')) {
+      return (
+        <div className="variant-swatch-row">
+          {(value as Array<Record<string, string>>).map((color) => (
+            <span key={`${color.name}-${color.hex}`} className="variant-swatch" title={color.name}>
+              <span className="variant-swatch-chip" style={{ backgroundColor: color.hex }} />
+              {color.hex}
+            </span>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div className="kit-tag-row">
+        {value.map((item) => (
+          <span key={String(item)} className="kit-tag">
+            {String(item)}
+          </span>
+        ))}
+      </div>
+    );
+  }
+
+  if (isRecord(value)) {
+    return (
+      <dl className="variant-detail-list">
+        {Object.entries(value).map(([key, item]) => (
+          <div key={key}>
+            <dt>{formatKey(key)}</dt>
+            <dd>{Array.isArray(item) ? item.join(' · ') : String(item ?? '')}</dd>
+          </div>
+        ))}
+      </dl>
+    );
+  }
+
+  return null;
+};
+
+const renderSection = (kit: BrandKitType, sectionId: RegenerableKitSectionId) =>
+  getSectionRegenerationFields(sectionId).map((field) => (
+    <div key={field} className="variant-field">
+      <span className="variant-field-label">{BRAND_KIT_FIELD_LABELS[field]}</span>
+      {renderValue(kit[field])}
+    </div>
+  ));
+
+const VariantPicker: React.FC<VariantPickerProps> = ({
+  brandName,
+  variantSet,
+  kitLocks,
+  isSaving,
+  onSave,
+  onDiscard,
+}) => {
+  const { variants, sectionId } = variantSet;
+  const [baseVariant, setBaseVariant] = useState(0);
+  const [sectionPicks, setSectionPicks] = useState<Partial<Record<RegenerableKitSectionId, number>>>({});
+
+  // Section takes only differ in one section, so there is nothing to cherry-pick across them.
+  const rows = sectionId
+    ? [sectionId]
+    : getRegenerableSectionIds().filter((id) => !kitLocks[id]);
+  const getPick = (id: RegenerableKitSectionId) => sectionPicks[id] ?? baseVariant;
+  const mixedCount = Object.values(sectionPicks).filter((index) => index !== baseVariant).length;
+
+  const handleUseAll = (index: number) => {
+    setBaseVariant(index);
+    setSectionPicks({});
+  };
+
+  const handlePick = (id: RegenerableKitSectionId, index: number) => {
+    if (sectionId) {
+      handleUseAll(index);
+      return;
+    }
+
+    setSectionPicks((current) => ({ ...current, [id]: index }));
+  };
+
+  const handleSave = () => {
+    const sections = Object.fromEntries(
+      Object.entries(sectionPicks).filter(([, index]) => index !== baseVariant)
+    ) as VariantSelection['sections'];
+
+    onSave({ baseVariant, sections });
+  };
+
+  return (
+    <div className="brand-page">
+      <div className="nav-top-bar">
+        <button onClick={onDiscard} className="nav-link-btn" disabled={isSaving}>
+          ← BACK TO RESULT
+        </button>
+        <div className="nav-top-actions">
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <BrandHeader
+        onTitleClick={onDiscard}
+        subtitle={brandName ? `Brand Identity: ${brandName}` : 'The Mosaic Output'}
+      />
+
+      <section className="kit-overview-sheet variant-overview">
+        <div className="kit-overview-copy">
+          <div className="kit-overview-kicker">
+            {sectionId
+              ? `${variants.length} takes on ${getSectionRegenerationLabel(sectionId).toLowerCase()}`
+              : `${variants.length} takes on the full kit`}
+          </div>
+          <h2 className="kit-overview-title">Pick the direction to keep.</h2>
+          <p className="kit-overview-text">
+            {sectionId
+              ? 'Choose one take. Only the chosen take is saved as a new workbook version.'
+              : 'Start from one option, then swap in individual sections from the others. Only your final pick is saved as a new workbook version.'}
+          </p>
+          {mixedCount > 0 && (
+            <p className="kit-overview-summary">
+              Based on {getVariantLabel(baseVariant)} with {mixedCount} section
+              {mixedCount === 1 ? '' : 's'} swapped in from other options.
+            </p>
+          )}
+
+          <div className="kit-overview-actions">
+            <button type="button" className="brand-submit-btn" onClick={handleSave} disabled={isSaving}>
+              {isSaving ? '[ SAVING... ]' : '[ SAVE PICK ]'}
+            </button>
+            <button type="button" className="brand-edit-btn" onClick={onDiscard} disabled={isSaving}>
+              [ DISCARD OPTIONS ]
+            </button>
+          </div>
+        </div>
+      </section>
+
+      <div
+        className="variant-grid"
+        style={{ gridTemplateColumns: `minmax(120px, 160px) repeat(${variants.length}, minmax(0, 1fr))` }}
+      >
+        <div className="variant-grid-corner" />
+        {variants.map((variant) => (
+          <div
+            key={variant.index}
+            className={`variant-column-head ${baseVariant === variant.index ? 'active' : ''}`}
+          >
+            <strong>{getVariantLabel(variant.index)}</strong>
+            {variant.sourceModel && <span className="kit-version-model">{variant.sourceModel}</span>}
+            <button
+              type="button"
+              className="kit-regen-btn"
+              onClick={() => handleUseAll(variant.index)}
+              disabled={isSaving}
+            >
+              {baseVariant === variant.index && mixedCount === 0 ? '[ PICKED ]' : '[ USE ALL ]'}
+            </button>
+          </div>
+        ))}
+
+        {rows.map((rowId) => (
+          <React.Fragment key={rowId}>
+            <div className="variant-row-label">{getSectionRegenerationLabel(rowId)}</div>
+            {variants.map((variant) => {
+              const isPicked = getPick(rowId) === variant.index;
+
+              return (
+                <button
+                  key={`${rowId}-${variant.index}`}
+                  type="button"
+                  className={`variant-cell ${isPicked ? 'picked' : ''}`}
+                  onClick={() => handlePick(rowId, variant.index)}
+                  aria-pressed={isPicked}
+                  disabled={isSaving}
+                >
+                  {renderSection(variant.result, rowId)}
+                </button>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VariantPicker;
@@ -0,0 +1,200 @@
+import React, { useMemo } from 'react';
+import { SavedBrandResult } from '../types';
+import BrandHeader from './BrandHeader';
+import ThemeToggle from './ThemeToggle';
+import { BRAND_KIT_FIELD_LABELS } from '../lib/brandKitSchema';
+import { BrandKitFieldDiff, diffBrandKits } from '../lib/brandDiff';
+
+interface VersionCompareProps {
+  brandName: string;
+  resultHistory: SavedBrandResult[];
+  beforeId: string;
+  afterId: string;
+  onChange: (beforeId: string, afterId: string) => void;
+  onClose: () => void;
+}
+
+const renderChange = (change: BrandKitFieldDiff) => {
+  switch (change.kind) {
+    case 'text':
+      return (
+        <p className="diff-text">
+          {change.segments.map((segment, index) =>
+            segment.type === 'same' ? (
+              <span key={index}>{segment.text}</span>
+            ) : segment.type === 'added' ? (
+              <ins key={index} className="diff-added">
+                {segment.text}
+              </ins>
+            ) : (
+              <del key={index} className="diff-removed">
+                {segment.text}
+              </del>
+            )
+          )}
+        </p>
+      );
+    case 'font':
+    case 'setting':
+      return (
+        <p className="diff-text">
+          <del className="diff-removed">{change.before || 'None'}</del>
+          {' → '}
+          <ins className="diff-added">{change.after || 'None'}</ins>
+        </p>
+      );
+    case 'list':
+      return (
+        <div className="kit-tag-row">
+          {change.removed.map((item) => (
+            <span key={`removed-${item}`} className="kit-tag diff-tag-removed">
+              − {item}
+            </span>
+          ))}
+          {change.added.map((item) => (
+            <span key={`added-${item}`} className="kit-tag diff-tag-added">
+              + {item}
+            </span>
+          ))}
+          {change.kept.map((item) => (
+            <span key={`kept-${item}`} className="kit-tag">
+              {item}
+            </span>
+          ))}
+        </div>
+      );
+    case 'palette':
+      return (
+        <div className="diff-palette">
+          {change.removed.map((color) => (
+            <div key={`removed-${color.hex}`} className="diff-swatch diff-swatch-removed">
+              <span className="diff-swatch-chip" style={{ backgroundColor: color.hex }} />
+              <span>
+                − {color.name} {color.hex}
+              </span>
+            </div>
+          ))}
+          {change.added.map((color) => (
+            <div key={`added-${color.hex}`} className="diff-swatch diff-swatch-added">
+              <span className="diff-swatch-chip" style={{ backgroundColor: color.hex }} />
+              <span>
+                + {color.name} {color.hex}
+              </span>
+            </div>
+          ))}
+          {change.changed.map(({ before, after }) => (
+            <div key={`changed-${before.hex}-${after.hex}`} className="diff-swatch">
+              {before.hex !== after.hex && <span className="diff-swatch-chip" style={{ backgroundColor: before.hex }} />}
+              <span className="diff-swatch-chip" style={{ backgroundColor: after.hex }} />
+              <span>
+                {before.name !== after.name ? `${before.name} → ${after.name}` : after.name}{' '}
+                {before.hex !== after.hex ? `${before.hex} → ${after.hex}` : after.hex}
+                {before.usage !== after.usage ? ' (usage rewritten)' : ''}
+              </span>
+            </div>
+          ))}
+        </div>
+      );
+  }
+};
+
+const VersionCompare: React.FC<VersionCompareProps> = ({
+  brandName,
+  resultHistory,
+  beforeId,
+  afterId,
+  onChange,
+  onClose,
+}) => {
+  const getVersionLabel = (resultId: string) => {
+    const index = resultHistory.findIndex((result) => result.id === resultId);
+    return `Version ${resultHistory.length - index}`;
+  };
+
+  const before = resultHistory.find((result) => result.id === beforeId);
+  const after = resultHistory.find((result) => result.id === afterId);
+  const diff = useMemo(
+    () => (before && after ? diffBrandKits(before.result, after.result) : null),
+    [before, after]
+  );
+
+  const renderSelect = (value: string, onSelect: (resultId: string) => void, label: string) => (
+    <select
+      className="kit-variant-count"
+      value={value}
+      onChange={(event) => onSelect(event.target.value)}
+      aria-label={label}
+    >
+      {resultHistory.map((result) => (
+        <option key={result.id} value={result.id}>
+          {getVersionLabel(result.id)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="brand-page">
+      <div className="nav-top-bar">
+        <button onClick={onClose} className="nav-link-btn">
+          ← BACK TO RESULT
+        </button>
+        <div className="nav-top-actions">
+          <ThemeToggle />
+        </div>
+      </div>
+
+      <BrandHeader
+        onTitleClick={onClose}
+        subtitle={brandName ? `Brand Identity: ${brandName}` : 'The Mosaic Output'}
+      />
+
+      <section className="kit-overview-sheet">
+        <div className="kit-overview-copy">
+          <div className="kit-overview-kicker">Compare Versions</div>
+          <h2 className="kit-overview-title">What changed between two saved directions.</h2>
+          <div className="kit-overview-actions">
+            {renderSelect(beforeId, (resultId) => onChange(resultId, afterId), 'Earlier version')}
+            <span className="diff-arrow">→</span>
+            {renderSelect(afterId, (resultId) => onChange(beforeId, resultId), 'Later version')}
+            <button
+              type="button"
+              className="brand-edit-btn"
+              onClick={() => onChange(afterId, beforeId)}
+            >
+              [ SWAP ]
+            </button>
+          </div>
+          {diff && (
+            <p className="kit-overview-summary">
+              {diff.changes.length === 0
+                ? 'These two versions are identical.'
+                : `${diff.changes.length} change${diff.changes.length === 1 ? '' : 's'} across ${
+                    Object.keys(BRAND_KIT_FIELD_LABELS).length - diff.unchangedFields.length
+                  } sections.`}
+            </p>
+          )}
+        </div>
+      </section>
+
+      {diff && (
+        <div className="diff-list">
+          {diff.changes.map((change, index) => (
+            <section key={`${change.label}-${index}`} className="diff-entry">
+              <div className="kit-sheet-eyebrow">{change.label}</div>
+              {renderChange(change)}
+            </section>
+          ))}
+
+          {diff.unchangedFields.length > 0 && (
+            <p className="diff-unchanged">
+              Unchanged: {diff.unchangedFields.map((field) => BRAND_KIT_FIELD_LABELS[field]).join(', ')}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default VersionCompare;
@@ -0,0 +1,61 @@
+import { useEffect, useState } from 'react';
+import { CatalogFont } from '../lib/fontCatalog';
+import { buildGoogleFontsUrl } from '../lib/fontResolver';
+
+export type FontLoadState = 'idle' | 'loading' | 'ready' | 'failed';
+
+const LINK_ATTRIBUTE = 'data-brand-fonts';
+
+/**
+ * Adds one Google Fonts stylesheet for the given catalog families and reports when the faces
+ * are usable. Stylesheets stay in the document once added, so switching back is instant.
+ */
+export const useGoogleFonts = (fonts: CatalogFont[]) => {
+  const url = buildGoogleFontsUrl(fonts);
+  const familyList = fonts.map((entry) => entry.family).join('|');
+  const [state, setState] = useState<FontLoadState>('idle');
+
+  useEffect(() => {
+    if (!url || typeof document === 'undefined') {
+      setState('idle');
+      return;
+    }
+
+    let cancelled = false;
+    const existing = Array.from(document.head.querySelectorAll<HTMLLinkElement>(`link[${LINK_ATTRIBUTE}]`)).find(
+      (link) => link.href === url
+    );
+
+    const link = existing || document.createElement('link');
+    if (!existing) {
+      link.rel = 'stylesheet';
+      link.href = url;
+      link.setAttribute(LINK_ATTRIBUTE, 'true');
+      document.head.appendChild(link);
+    }
+
+    const waitForStylesheet = existing
+      ? Promise.resolve()
+      : new Promise<void>((resolve, reject) => {
+          link.addEventListener('load', () => resolve(), { once: true });
+          link.addEventListener('error', () => reject(new Error('Font stylesheet failed to load.')), { once: true });
+        });
+
+    setState('loading');
+    waitForStylesheet
+      .then(() => Promise.all(familyList.split('|').map((family) => document.fonts.load(`16px "${family}"`))))
+      .then(() => {
+        if (!cancelled) setState('ready');
+      })
+      .catch((error) => {
+        console.error('Failed to load brand fonts:', error);
+        if (!cancelled) setState('failed');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [url, familyList]);
+
+  return state;
+};
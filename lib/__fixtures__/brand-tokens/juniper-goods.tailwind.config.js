@@ -0,0 +1,157 @@
+// Juniper Goods brand tokens exported from Brand Mosaic
+/** @type {import('tailwindcss').Config} */
+export default {
+  theme: {
+    extend: {
+      colors: {
+        brand: {
+          'primary': {
+            DEFAULT: '#8A9A5B',
+            50: '#F5F9EC',
+            100: '#E8EFD8',
+            200: '#D3DDB9',
+            300: '#B7C595',
+            400: '#9AAA6F',
+            500: '#8A9A5B',
+            600: '#657335',
+            700: '#4F5C24',
+            800: '#3B4516',
+            900: '#272F0B',
+            950: '#181D04',
+          },
+          'secondary': {
+            DEFAULT: '#C4663F',
+            50: '#FFF4F0',
+            100: '#FFE5DB',
+            200: '#FFCAB5',
+            300: '#F4A98B',
+            400: '#E08763',
+            500: '#C4663F',
+            600: '#A84D25',
+            700: '#8A3913',
+            800: '#6B2806',
+            900: '#4C1801',
+            950: '#320D00',
+          },
+          'accent': {
+            DEFAULT: '#E5D3B3',
+            50: '#FAF6F0',
+            100: '#F1EADF',
+            200: '#E5D3B3',
+            300: '#C9BCA5',
+            400: '#AF9F83',
+            500: '#948466',
+            600: '#7A694C',
+            700: '#615339',
+            800: '#4A3E28',
+            900: '#332A19',
+            950: '#201A0E',
+          },
+          'custom-1': {
+            DEFAULT: '#1F3A5F',
+            50: '#F2F7FF',
+            100: '#E1ECFD',
+            200: '#C7D9F2',
+            300: '#A7C0E1',
+            400: '#87A4CC',
+            500: '#6A88B2',
+            600: '#506D96',
+            700: '#3C567A',
+            800: '#1F3A5F',
+            900: '#1B2C43',
+            950: '#0F1B2B',
+          },
+          'neutral': {
+            DEFAULT: '#85877F',
+            50: '#F6F7F5',
+            100: '#EBECE8',
+            200: '#D7D8D3',
+            300: '#BDBFB8',
+            400: '#A0A39B',
+            500: '#85877F',
+            600: '#6B6D65',
+            700: '#545650',
+            800: '#3F413B',
+            900: '#2B2C28',
+            950: '#1A1B18',
+          },
+          'success': {
+            DEFAULT: '#11813C',
+            50: '#EAFDED',
+            100: '#D5F5DA',
+            200: '#B4E6BD',
+            300: '#8BD19A',
+            400: '#60B876',
+            500: '#399D57',
+            600: '#11813C',
+            700: '#00672C',
+            800: '#004E20',
+            900: '#003614',
+            950: '#00220A',
+          },
+          'warning': {
+            DEFAULT: '#B37900',
+            50: '#FFF5E8',
+            100: '#FFE7C8',
+            200: '#F8D09A',
+            300: '#E8B367',
+            400: '#D39327',
+            500: '#B37900',
+            600: '#916100',
+            700: '#744C00',
+            800: '#573900',
+            900: '#3D2600',
+            950: '#271700',
+          },
+          'danger': {
+            DEFAULT: '#C22826',
+            50: '#FFF4F2',
+            100: '#FFE4E0',
+            200: '#FFC8C1',
+            300: '#FFA096',
+            400: '#FC6F63',
+            500: '#E24942',
+            600: '#C22826',
+            700: '#A01015',
+            800: '#7D0008',
+            900: '#580004',
+            950: '#3B0002',
+          },
+          'background': '#F6F7F5',
+          'surface': '#EBECE8',
+          'text': '#2B2C28',
+          'border': '#D7D8D3',
+        },
+      },
+      fontFamily: {
+        heading: ['Fraunces', 'serif'],
+        body: ['Inter', 'sans-serif'],
+      },
+      fontSize: {
+        'brand-display': ['3.8125rem', { lineHeight: '1.2', letterSpacing: '-0.01em' }],
+        'brand-h1': ['3.0625rem', { lineHeight: '1.2', letterSpacing: '-0.01em' }],
+        'brand-h2': ['2.4375rem', { lineHeight: '1.2', letterSpacing: '-0.01em' }],
+        'brand-h3': ['1.9375rem', { lineHeight: '1.2', letterSpacing: '-0.01em' }],
+        'brand-h4': ['1.5625rem', { lineHeight: '1.2', letterSpacing: '-0.01em' }],
+        'brand-lead': ['1.25rem', { lineHeight: '1.6', letterSpacing: '0' }],
+        'brand-body': ['1rem', { lineHeight: '1.6', letterSpacing: '0' }],
+        'brand-caption': ['0.8125rem', { lineHeight: '1.6', letterSpacing: '0' }],
+      },
+      letterSpacing: {
+        'brand-caps': '0.08em',
+      },
+      spacing: {
+        'brand-0-5': '4px',
+        'brand-1': '8px',
+        'brand-1-5': '12px',
+        'brand-2': '16px',
+        'brand-3': '24px',
+        'brand-4': '32px',
+        'brand-6': '48px',
+        'brand-8': '64px',
+        'brand-12': '96px',
+        'brand-16': '128px',
+      },
+    },
+  },
+};
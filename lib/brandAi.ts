@@ -1,4 +1,4 @@
-export type BrandAiProvider = 'openai' | 'gemini' | 'anthropic';
+export type BrandAiProvider = 'openai' | 'gemini' | 'anthropic' | 'local';
 
 export type BrandAiErrorCode =
   | 'key-not-found'
@@ -36,6 +36,7 @@ const BRAND_AI_PROVIDER_LABELS: Record<BrandAiProvider, string> = {
   openai: 'OpenAI',
   gemini: 'Gemini',
   anthropic: 'Anthropic',
+  local: 'Local model',
 };
 
 const BRAND_AI_PROVIDER_DOCS: Record<
@@ -57,11 +58,20 @@ const BRAND_AI_PROVIDER_DOCS: Record<
     keys: 'https://docs.anthropic.com/en/api/admin-api/apikeys/get-api-key',
     quota: 'https://docs.anthropic.com/en/api/errors',
   },
+  local: {
+    keys: 'https://github.com/ollama/ollama/blob/main/docs/openai.md',
+    quota: 'https://github.com/ollama/ollama/blob/main/docs/faq.md',
+  },
 };
 
 const normalizeProvider = (value: string): BrandAiProvider | null => {
   const normalized = value.trim().toLowerCase();
-  if (normalized === 'openai' || normalized === 'gemini' || normalized === 'anthropic') {
+  if (
+    normalized === 'openai' ||
+    normalized === 'gemini' ||
+    normalized === 'anthropic' ||
+    normalized === 'local'
+  ) {
     return normalized;
   }
   return null;
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import type { BrandKit, BrandKitExportOptions } from '../types';
+import { buildBrandBriefMarkdown, getBrandBriefFileName } from './brandBrief';
+import { normalizeBrandKit } from './brandStrategy';
+import { defaultBrandFormData } from './brandWorkbook';
+
+const kit = normalizeBrandKit({
+  brandEssence: 'Quiet pantry staples for slow mornings.',
+  summaryParagraph: 'Juniper Goods makes small-batch granola and preserves with a calm, honest voice.',
+  keywords: ['calm', 'honest', 'crafted'],
+  toneOfVoice: ['warm', 'plainspoken'],
+  targetAudienceSummary: 'Home cooks who read labels.',
+  visualDirection: 'Soft daylight on linen and stoneware.',
+  brandArchetype: { name: 'Caregiver', explanation: 'Looks after the first meal of the day.' },
+  suggestedTagline: 'Good mornings, kept simple.',
+  colorPaletteSuggestions: [
+    { name: 'Sage', hex: '#8A9A5B', usage: 'Labels' },
+    { name: 'Terracotta', hex: '#C4663F', usage: 'Accents' },
+  ],
+  fontPairing: { headlineFont: 'Fraunces', bodyFont: 'Inter', note: 'Serif headings over a quiet sans.' },
+  logoPrompt: 'A juniper sprig inside a rounded jar outline.',
+  brandFoundation: {
+    mission: 'Make breakfast feel unhurried.',
+    positioning: 'Premium pantry goods without the fuss.',
+    emotionalCharacter: 'Steady and kind.',
+  },
+  messagingDirection: {
+    voiceSummary: 'Short sentences, real ingredients.',
+    messagingPillars: ['Ingredients first', 'Made slowly'],
+    avoidLanguage: ['superfood'],
+    taglineDirections: ['Slow is a flavor'],
+  },
+  applicationDirection: {
+    website: 'Wide photography, few words.',
+    social: 'Process clips from the kitchen.',
+    packaging: '',
+    campaign: 'Seasonal jar drops.',
+  },
+} as Partial<BrandKit>);
+
+const options: BrandKitExportOptions = {
+  brandName: 'Juniper Goods',
+  kit,
+  formData: { ...defaultBrandFormData, brandName: 'Juniper Goods', offering: 'Granola and preserves' },
+  exportedAt: '2026-03-04T10:00:00.000Z',
+  sourceModel: 'gpt-4o',
+  versionLabel: 'Version 2',
+};
+
+const withKit = (overrides: Partial<BrandKit>) => ({ ...options, kit: { ...kit, ...overrides } });
+
+describe('buildBrandBriefMarkdown', () => {
+  it('matches the golden brief', async () => {
+    await expect(buildBrandBriefMarkdown(options)).toMatchFileSnapshot('./__fixtures__/brand-brief/juniper-goods.md');
+  });
+
+  it('follows the result page section order and skips empty sections', () => {
+    const headings = buildBrandBriefMarkdown(options).match(/^#{1,2} .+$/gm);
+
+    expect(headings).toEqual([
+      '# Juniper Goods Brand Brief',
+      '## Overview',
+      '## Essence',
+      '## Personality',
+      '## Palette',
+      '## Typography',
+      '## Logo',
+      '## Voice',
+      '## Imagery',
+      '## Applications',
+      '## Recap',
+    ]);
+  });
+
+  it('keeps model text from opening headings, lists, or breaking tables', () => {
+    const markdown = buildBrandBriefMarkdown(
+      withKit({
+        summaryParagraph: '# Not a heading\n- not a list',
+        keywords: ['1. not ordered', '+ not a bullet'],
+        colorPaletteSuggestions: [{ name: 'Pipe | Green', hex: '#00FF00', usage: '**bold** <b>' }],
+      })
+    );
+
+    expect(markdown).toContain('\n\\# Not a heading - not a list\n');
+    expect(markdown).toContain('- 1\\. not ordered\n- \\+ not a bullet');
+    expect(markdown).toContain('| Primary | Pipe \\| Green | #00FF00 | \\*\\*bold\\*\\* \\<b\\> |');
+  });
+
+  it('leaves the recap out when the shared link did not include answers', () => {
+    const markdown = buildBrandBriefMarkdown({ ...options, includeRecap: false });
+
+    expect(markdown).not.toContain('## Recap');
+    expect(markdown).not.toContain('Granola and preserves');
+  });
+
+  it('ends with a single newline', () => {
+    expect(buildBrandBriefMarkdown(options)).toMatch(/[^\n]\n$/);
+  });
+});
+
+describe('getBrandBriefFileName', () => {
+  it('slugs the brand name', () => {
+    expect(getBrandBriefFileName("Juniper's Goods & Co.")).toBe('junipers-goods-co-brand-brief.md');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Brand Brief
+ * Renders a saved brand kit and its questionnaire recap as Markdown for Notion, Confluence, and
+ * GitHub READMEs. Sections follow BRAND_KIT_SECTION_NAV so the brief reads in the same order as
+ * the result page.
+ */
+
+import type { BrandKitExportOptions } from '../types.ts';
+import { BRAND_KIT_SECTION_NAV, BrandKitSectionNavId } from './brandKitSchema.ts';
+import { getPaletteRole, toFileSlug } from './brandTokens.ts';
+import { getWorkbookRecapItems } from './brandWorkbook.ts';
+
+// Keeps model text from opening headings, lists, or tables when pasted mid-document
+const escapeMarkdown = (value: string) => value.replace(/([\\`*_[\]|<>])/g, '\\$1').replace(/\s*\n\s*/g, ' ').trim();
+
+// At the start of a paragraph or list item, "#", "-", "+", "=", and "1." would still open a block
+const escapeBlockStart = (value: string) =>
+  escapeMarkdown(value).replace(/^([#+=-])/, '\\$1').replace(/^(\d+)([.)])/, '$1\\$2');
+
+const paragraph = (value: string | undefined) => (value && value.trim() ? escapeBlockStart(value) : '');
+
+const bulletList = (items: string[] | undefined) =>
+  (items || [])
+    .filter((item) => item && item.trim())
+    .map((item) => `- ${escapeBlockStart(item)}`)
+    .join('\n');
+
+const labeled = (label: string, value: string) => (value ? `**${label}**\n\n${value}` : '');
+
+const table = (headers: string[], rows: string[][]) =>
+  rows.length > 0
+    ? [
+        `| ${headers.join(' | ')} |`,
+        `| ${headers.map(() => '---').join(' | ')} |`,
+        ...rows.map((row) => `| ${row.map((cell) => escapeMarkdown(cell) || ' ').join(' | ')} |`),
+      ].join('\n')
+    : '';
+
+const SECTION_RENDERERS: Record<BrandKitSectionNavId, (options: BrandKitExportOptions) => string[]> = {
+  overview: ({ kit }) => [
+    paragraph(kit.brandEssence) ? `> ${paragraph(kit.brandEssence)}` : '',
+    paragraph(kit.summaryParagraph),
+    labeled('Suggested tagline', paragraph(kit.suggestedTagline)),
+  ],
+  essence: ({ kit }) => [
+    labeled('Mission', paragraph(kit.brandFoundation?.mission)),
+    labeled('Positioning', paragraph(kit.brandFoundation?.positioning)),
+    labeled('Audience', paragraph(kit.targetAudienceSummary)),
+    labeled('Emotional character', paragraph(kit.brandFoundation?.emotionalCharacter)),
+    labeled(
+      `Archetype${kit.brandArchetype?.name ? `: ${escapeMarkdown(kit.brandArchetype.name)}` : ''}`,
+      paragraph(kit.brandArchetype?.explanation)
+    ),
+  ],
+  personality: ({ kit }) => [
+    labeled('Traits', bulletList(kit.personalityProfile?.traits || kit.keywords)),
+    labeled('Tone', bulletList(kit.personalityProfile?.tone || kit.toneOfVoice)),
+    labeled('Emotional descriptors', bulletList(kit.personalityProfile?.emotionalDescriptors)),
+  ],
+  palette: ({ kit }) => [
+    table(
+      ['Role', 'Name', 'Hex', 'Usage'],
+      (kit.colorPaletteSuggestions || []).map((color, index) => [
+        getPaletteRole(index),
+        color.name || 'Unnamed',
+        color.hex || '',
+        color.usage || '',
+      ])
+    ),
+  ],
+  typography: ({ kit }) => [
+    table(
+      ['Role', 'Font'],
+      [
+        ['Display / Heading', kit.fontPairing?.headlineFont || 'Not specified'],
+        ['Body', kit.fontPairing?.bodyFont || 'Not specified'],
+      ]
+    ),
+    labeled('Usage note', paragraph(kit.fontPairing?.note)),
+  ],
+  logo: ({ kit }) => [
+    labeled('Concept summary', paragraph(kit.logoDirection?.conceptSummary)),
+    labeled('Creative notes', bulletList(kit.logoDirection?.creativeNotes)),
+    labeled('Logo prompt', paragraph(kit.logoPrompt)),
+  ],
+  voice: ({ kit }) => [
+    labeled('Voice summary', paragraph(kit.messagingDirection?.voiceSummary)),
+    labeled('Messaging pillars', bulletList(kit.messagingDirection?.messagingPillars)),
+    labeled('Tagline directions', bulletList(kit.messagingDirection?.taglineDirections)),
+    labeled('Avoid', bulletList(kit.messagingDirection?.avoidLanguage)),
+  ],
+  imagery: ({ kit }) => [
+    labeled('Photography direction', paragraph(kit.imageryDirection?.photographyDirection || kit.visualDirection)),
+    labeled('Mood', paragraph(kit.imageryDirection?.mood)),
+    labeled('Art direction', paragraph(kit.imageryDirection?.artDirection)),
+    labeled('Reference cues', bulletList(kit.imageryDirection?.referenceCues)),
+  ],
+  applications: ({ kit }) => [
+    table(
+      ['Touchpoint', 'Direction'],
+      [
+        ['Website', kit.applicationDirection?.website || ''],
+        ['Social', kit.applicationDirection?.social || ''],
+        ['Packaging / Collateral', kit.applicationDirection?.packaging || ''],
+        ['Campaign', kit.applicationDirection?.campaign || ''],
+      ].filter(([, direction]) => direction.trim())
+    ),
+  ],
+  recap: ({ formData, includeRecap = true }) =>
+    includeRecap ? [table(['Question', 'Answer'], getWorkbookRecapItems(formData))] : [],
+};
+
+export const buildBrandBriefMarkdown = (options: BrandKitExportOptions) => {
+  const { brandName, exportedAt, sourceModel, versionLabel } = options;
+  const meta = [versionLabel, new Date(exportedAt).toISOString().slice(0, 10), sourceModel]
+    .filter(Boolean)
+    .join(' · ');
+
+  const sections = BRAND_KIT_SECTION_NAV.map(({ id, label }) => {
+    const body = SECTION_RENDERERS[id](options).filter(Boolean).join('\n\n');
+    return body ? `## ${label}\n\n${body}` : '';
+  });
+
+  return `${[`# ${escapeMarkdown(brandName)} Brand Brief`, meta ? `_${escapeMarkdown(meta)}_` : '', ...sections]
+    .filter(Boolean)
+    .join('\n\n')}\n`;
+};
+
+export const getBrandBriefFileName = (brandName: string) => `${toFileSlug(brandName)}-brand-brief.md`;
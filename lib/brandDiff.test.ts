@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import type { BrandKit } from '../types';
+import { diffBrandKits, diffPalette } from './brandDiff';
+import { normalizeBrandKit } from './brandStrategy';
+import { buildTypographySystem } from './typographySystem';
+
+const sand = { name: 'Warm Sand', hex: '#E5D3B3', usage: 'Backgrounds' };
+const clay = { name: 'Terracotta', hex: '#C4663F', usage: 'Accents' };
+
+describe('diffPalette', () => {
+  it('reports a hex adjusted in place as a change', () => {
+    const adjusted = { ...clay, hex: '#B85A35' };
+
+    expect(diffPalette([sand, clay], [sand, adjusted])).toEqual({
+      added: [],
+      removed: [],
+      changed: [{ before: clay, after: adjusted }],
+    });
+  });
+
+  it('follows a color that moved position by its hex', () => {
+    expect(diffPalette([sand, clay], [clay, sand])).toEqual({ added: [], removed: [], changed: [] });
+  });
+
+  it('reports extra colors as added or removed', () => {
+    const ink = { name: 'Ink', hex: '#1F1B16', usage: 'Text' };
+
+    expect(diffPalette([sand], [sand, ink])).toMatchObject({ added: [ink], removed: [], changed: [] });
+    expect(diffPalette([sand, ink], [sand])).toMatchObject({ added: [], removed: [ink], changed: [] });
+  });
+});
+
+describe('diffBrandKits', () => {
+  it('compares the typography system behind the font pairing', () => {
+    const fontPairing = { headlineFont: 'Fraunces', bodyFont: 'Inter', note: 'Serif headlines, quiet body.' };
+    const system = buildTypographySystem({});
+    const before = normalizeBrandKit({ fontPairing: { ...fontPairing, system } } as Partial<BrandKit>);
+    const after = normalizeBrandKit({ fontPairing: { ...fontPairing, system: { ...system, baseSize: 18 } } } as Partial<BrandKit>);
+
+    expect(diffBrandKits(before, after).changes).toEqual([
+      expect.objectContaining({ kind: 'setting', field: 'fontPairing', label: 'Font pairing · type scale' }),
+    ]);
+  });
+});
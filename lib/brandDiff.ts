@@ -0,0 +1,258 @@
+import type { BrandKit, BrandTypographySystem } from '../types.ts';
+import {
+  ALL_BRAND_KIT_FIELDS,
+  BRAND_KIT_FIELD_LABELS,
+  BRAND_KIT_SCHEMA,
+  type BrandKitFieldId,
+  type BrandKitFieldSchema,
+} from './brandKitSchema.ts';
+import { formatEm } from './typographySystem.ts';
+
+type PaletteSwatch = BrandKit['colorPaletteSuggestions'][number];
+
+export interface TextDiffSegment {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+export type BrandKitFieldDiff =
+  | { kind: 'text'; field: BrandKitFieldId; label: string; segments: TextDiffSegment[] }
+  | { kind: 'font'; field: BrandKitFieldId; label: string; before: string; after: string }
+  | { kind: 'setting'; field: BrandKitFieldId; label: string; before: string; after: string }
+  | {
+      kind: 'list';
+      field: BrandKitFieldId;
+      label: string;
+      added: string[];
+      removed: string[];
+      kept: string[];
+    }
+  | {
+      kind: 'palette';
+      field: BrandKitFieldId;
+      label: string;
+      added: PaletteSwatch[];
+      removed: PaletteSwatch[];
+      changed: Array<{ before: PaletteSwatch; after: PaletteSwatch }>;
+    };
+
+export interface BrandKitDiff {
+  changes: BrandKitFieldDiff[];
+  unchangedFields: BrandKitFieldId[];
+}
+
+// Font names are compared as whole values; a word-level diff of "Inter" vs "Inter Tight" reads badly.
+const FONT_KEYS = ['headlineFont', 'bodyFont'];
+
+const asText = (value: unknown) => (typeof value === 'string' ? value.trim() : '');
+
+const asList = (value: unknown) =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const asPalette = (value: unknown): PaletteSwatch[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (item): item is PaletteSwatch =>
+          Boolean(item) && typeof item === 'object' && typeof item.hex === 'string'
+      )
+    : [];
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const formatKey = (key: string) =>
+  key.replace(/([A-Z])/g, ' $1').toLowerCase();
+
+const normalizeListItem = (item: string) => item.trim().toLowerCase();
+
+const normalizeHex = (hex: string) => hex.trim().toUpperCase();
+
+/**
+ * Word-level diff built on a longest-common-subsequence table. Whitespace is kept as its own
+ * token so joined segments reproduce the original text exactly.
+ */
+export const diffText = (before: string, after: string): TextDiffSegment[] => {
+  const a = before.split(/(\s+)/).filter(Boolean);
+  const b = after.split(/(\s+)/).filter(Boolean);
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const segments: TextDiffSegment[] = [];
+  const push = (type: TextDiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i += 1;
+      j += 1;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      push('removed', a[i]);
+      i += 1;
+    } else {
+      push('added', b[j]);
+      j += 1;
+    }
+  }
+  a.slice(i).forEach((token) => push('removed', token));
+  b.slice(j).forEach((token) => push('added', token));
+
+  return segments;
+};
+
+export const diffList = (before: string[], after: string[]) => {
+  const beforeKeys = new Set(before.map(normalizeListItem));
+  const afterKeys = new Set(after.map(normalizeListItem));
+
+  return {
+    added: after.filter((item) => !beforeKeys.has(normalizeListItem(item))),
+    removed: before.filter((item) => !afterKeys.has(normalizeListItem(item))),
+    kept: after.filter((item) => beforeKeys.has(normalizeListItem(item))),
+  };
+};
+
+/**
+ * Pairs swatches by hex first, then pairs what is left by position, so a color whose hex was
+ * adjusted in place reads as a change rather than a removal plus an addition.
+ */
+export const diffPalette = (before: PaletteSwatch[], after: PaletteSwatch[]) => {
+  const pairs = new Map<number, number>();
+  const claimed = new Set<number>();
+  const pair = (afterIndex: number, beforeIndex: number) => {
+    pairs.set(afterIndex, beforeIndex);
+    claimed.add(beforeIndex);
+  };
+
+  after.forEach((color, afterIndex) => {
+    const beforeIndex = before.findIndex(
+      (candidate, index) => !claimed.has(index) && normalizeHex(candidate.hex) === normalizeHex(color.hex)
+    );
+    if (beforeIndex !== -1) pair(afterIndex, beforeIndex);
+  });
+
+  after.forEach((_, index) => {
+    if (!pairs.has(index) && index < before.length && !claimed.has(index)) pair(index, index);
+  });
+
+  return {
+    added: after.filter((_, index) => !pairs.has(index)),
+    removed: before.filter((_, index) => !claimed.has(index)),
+    changed: Array.from(pairs.entries())
+      .sort(([first], [second]) => first - second)
+      .map(([afterIndex, beforeIndex]) => ({ before: before[beforeIndex], after: after[afterIndex] }))
+      .filter(
+        (pair) =>
+          normalizeHex(pair.before.hex) !== normalizeHex(pair.after.hex) ||
+          pair.before.name !== pair.after.name ||
+          pair.before.usage !== pair.after.usage
+      ),
+  };
+};
+
+// The derived typography system is not part of the generated schema, so it is compared as a few
+// readable settings instead of field by field.
+const describeTypographySystem = (system: BrandTypographySystem | undefined): Record<string, string> =>
+  system
+    ? {
+        'type scale': `${system.baseSize}px × ${system.scaleRatio} (${system.scaleName})`,
+        'line height': `headings ${system.lineHeights.heading} · body ${system.lineHeights.body}`,
+        'letter-spacing': `headings ${formatEm(system.letterSpacing.heading)} · body ${formatEm(
+          system.letterSpacing.body
+        )} · caps ${formatEm(system.letterSpacing.caps)}`,
+        spacing: `${system.spacingUnit}px unit · ${system.spacingScale.join(', ')}`,
+      }
+    : {};
+
+const diffTypographySystem = (before: BrandKit, after: BrandKit): BrandKitFieldDiff[] => {
+  const beforeSettings = describeTypographySystem(before.fontPairing?.system);
+  const afterSettings = describeTypographySystem(after.fontPairing?.system);
+
+  return Array.from(new Set([...Object.keys(beforeSettings), ...Object.keys(afterSettings)]))
+    .filter((setting) => beforeSettings[setting] !== afterSettings[setting])
+    .map((setting) => ({
+      kind: 'setting',
+      field: 'fontPairing',
+      label: `${BRAND_KIT_FIELD_LABELS.fontPairing} · ${setting}`,
+      before: beforeSettings[setting] || '',
+      after: afterSettings[setting] || '',
+    }));
+};
+
+const diffField = (
+  schema: BrandKitFieldSchema,
+  field: BrandKitFieldId,
+  label: string,
+  key: string,
+  before: unknown,
+  after: unknown
+): BrandKitFieldDiff[] => {
+  switch (schema.kind) {
+    case 'text': {
+      const beforeText = asText(before);
+      const afterText = asText(after);
+      if (beforeText === afterText) return [];
+
+      return FONT_KEYS.includes(key)
+        ? [{ kind: 'font', field, label, before: beforeText, after: afterText }]
+        : [{ kind: 'text', field, label, segments: diffText(beforeText, afterText) }];
+    }
+    case 'list': {
+      const diff = diffList(asList(before), asList(after));
+      return diff.added.length || diff.removed.length ? [{ kind: 'list', field, label, ...diff }] : [];
+    }
+    case 'palette': {
+      const diff = diffPalette(asPalette(before), asPalette(after));
+      return diff.added.length || diff.removed.length || diff.changed.length
+        ? [{ kind: 'palette', field, label, ...diff }]
+        : [];
+    }
+    case 'object':
+      return Object.entries(schema.fields).flatMap(([childKey, childSchema]) =>
+        diffField(
+          childSchema,
+          field,
+          `${label} · ${formatKey(childKey)}`,
+          childKey,
+          asRecord(before)[childKey],
+          asRecord(after)[childKey]
+        )
+      );
+  }
+};
+
+/**
+ * Compares two saved kits field by field, following the BrandKit schema so nested sections such
+ * as fontPairing or messagingDirection are broken down into their own entries.
+ */
+export const diffBrandKits = (before: BrandKit, after: BrandKit): BrandKitDiff => {
+  const changes: BrandKitFieldDiff[] = [];
+  const unchangedFields: BrandKitFieldId[] = [];
+
+  ALL_BRAND_KIT_FIELDS.forEach((field) => {
+    const fieldChanges = [
+      ...diffField(BRAND_KIT_SCHEMA[field], field, BRAND_KIT_FIELD_LABELS[field], field, before[field], after[field]),
+      ...(field === 'fontPairing' ? diffTypographySystem(before, after) : []),
+    ];
+
+    if (fieldChanges.length > 0) {
+      changes.push(...fieldChanges);
+    } else {
+      unchangedFields.push(field);
+    }
+  });
+
+  return { changes, unchangedFields };
+};
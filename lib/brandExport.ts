@@ -1,13 +1,8 @@
-import { BrandFormData, BrandKit } from '../types';
-
-interface BrandKitExportOptions {
-  brandName: string;
-  kit: BrandKit;
-  formData: BrandFormData;
-  exportedAt: string;
-  sourceModel?: string;
-  versionLabel?: string;
-}
+import { BrandFormData, BrandKit, BrandKitExportOptions } from '../types';
+import { getPaletteRole } from './brandTokens';
+import { getWorkbookRecapItems } from './brandWorkbook';
+import { buildTypographyLevels, describeLetterSpacing, formatEm, getTypographySystem } from './typographySystem';
+import { supabase } from './supabase';
 
 const escapeHtml = (value: string) =>
   value
@@ -30,7 +25,7 @@ const renderPalette = (kit: BrandKit) =>
             (color, index) => `<div class="palette-card">
                 <div class="swatch" style="background:${escapeHtml(color.hex || '#f1ece2')}"></div>
                 <div class="meta">
-                  <div class="role">${['Primary', 'Secondary', 'Accent', 'Support'][index] || 'Support'}</div>
+                  <div class="role">${getPaletteRole(index)}</div>
                   <strong>${escapeHtml(color.name || 'Unnamed')}</strong>
                   <span>${escapeHtml(color.hex || '')}</span>
                   <p>${escapeHtml(color.usage || '')}</p>
@@ -42,28 +37,7 @@ const renderPalette = (kit: BrandKit) =>
     : '<p class="empty-note">Palette suggestions were not saved for this version yet.</p>';
 
 const recapRows = (formData: BrandFormData) => {
-  const items: Array<[string, string]> = [
-    ['Brand name', formData.brandName],
-    ['Offering', formData.offering],
-    ['Purpose', formData.purpose],
-    ['Problem solved', formData.problem],
-    ['Audience', formData.audience.join(', ')],
-    ['Customer priorities', formData.customerCare],
-    ['Tone', formData.tone.join(', ')],
-    ['Feeling', formData.feeling],
-    ['Adjectives', formData.adjectives],
-    ['Palette', [formData.palette, formData.customPalette].filter(Boolean).join(' / ')],
-    ['Visual vibe', [...formData.vibe, formData.customVibe || ''].filter(Boolean).join(', ')],
-    ['Mood keywords', formData.moodBoardKeywords],
-    ['Typography', [formData.typography, formData.customFont].filter(Boolean).join(' / ')],
-    ['Differentiation', formData.differentiation],
-    ['Competitors', formData.competitors],
-    ['Tagline input', formData.tagline],
-    ['Logo preference', [formData.logoExists, formData.logoPreference].filter(Boolean).join(' / ')],
-    ['Fashion cue', formData.fashion],
-    ['Soundtrack cue', formData.soundtrack],
-    ['Inspiration', formData.inspiration],
-  ].filter(([, value]) => value && value.trim().length > 0);
+  const items = getWorkbookRecapItems(formData);
 
   return items
     .map(
@@ -75,6 +49,32 @@ const recapRows = (formData: BrandFormData) => {
     .join('');
 };
 
+const renderTypeSystem = (kit: BrandKit, formData: BrandFormData) => {
+  const system = getTypographySystem(kit, formData);
+
+  return `<div class="type-system">
+      <div class="label">${escapeHtml(`Type scale · ${system.baseSize}px base × ${system.scaleRatio} (${system.scaleName})`)}</div>
+      ${buildTypographyLevels(system)
+        .map(
+          (level) => `<div class="type-scale-row">
+              <span>${escapeHtml(`${level.label} · ${level.size}px / ${level.lineHeight} / ${formatEm(level.letterSpacing)}`)}</span>
+              <div style="font-size:${level.size}px;line-height:${level.lineHeight};letter-spacing:${formatEm(level.letterSpacing)};">${
+                level.heading ? escapeHtml(kit.fontPairing?.headlineFont || 'Heading') : 'Clear, practical body copy.'
+              }</div>
+            </div>`
+        )
+        .join('')}
+      <p>${escapeHtml(describeLetterSpacing(system))}</p>
+      <div class="label">Spacing · ${system.spacingUnit}px unit</div>
+      ${system.spacingScale
+        .map(
+          (value) => `<div class="space-row"><span>${value}px</span><i style="width:${value}px"></i></div>`
+        )
+        .join('')}
+      ${system.rationale.length > 0 ? renderList(system.rationale) : ''}
+    </div>`;
+};
+
 const buildExportHtml = ({
   brandName,
   kit,
@@ -82,6 +82,8 @@ const buildExportHtml = ({
   exportedAt,
   sourceModel,
   versionLabel,
+  logoImageUrl,
+  includeRecap = true,
 }: BrandKitExportOptions) => `<!doctype html>
 <html lang="en">
   <head>
@@ -213,6 +215,39 @@ const buildExportHtml = ({
         background: rgba(184, 117, 63, 0.08);
         font-size: 24px;
       }
+      .type-system {
+        margin-top: 18px;
+      }
+      .type-scale-row {
+        display: grid;
+        grid-template-columns: 220px 1fr;
+        align-items: baseline;
+        gap: 12px;
+        padding: 8px 0;
+        border-bottom: 1px solid var(--line);
+      }
+      .type-scale-row span, .space-row span {
+        color: var(--muted);
+        font-size: 13px;
+      }
+      .type-scale-row div {
+        overflow: hidden;
+        white-space: nowrap;
+        text-overflow: ellipsis;
+      }
+      .space-row {
+        display: grid;
+        grid-template-columns: 64px 1fr;
+        align-items: center;
+        gap: 12px;
+        margin: 4px 0;
+      }
+      .space-row i {
+        display: block;
+        max-width: 100%;
+        height: 10px;
+        background: var(--ink);
+      }
       .summary {
         font-size: 18px;
         margin-top: 18px;
@@ -221,6 +256,18 @@ const buildExportHtml = ({
       .empty-note {
         color: var(--muted);
       }
+      .logo-frame {
+        margin-bottom: 18px;
+        padding: 18px;
+        border: 1px solid var(--line);
+        border-radius: 18px;
+        background: rgba(255,255,255,0.44);
+        text-align: center;
+      }
+      .logo-frame img {
+        max-width: 240px;
+        max-height: 240px;
+      }
       .recap {
         display: grid;
         grid-template-columns: repeat(2, minmax(0, 1fr));
@@ -322,11 +369,17 @@ const buildExportHtml = ({
             <p>${escapeHtml(kit.fontPairing?.note || 'Treat the type pairing as a direction, then keep its use consistent.')}</p>
           </div>
         </div>
+        ${renderTypeSystem(kit, formData)}
       </section>
 
       <section class="section">
         <div class="label">Logo Direction</div>
         <h2>Mark concept and creative note</h2>
+        ${
+          logoImageUrl
+            ? `<div class="logo-frame"><img src="${escapeHtml(logoImageUrl)}" alt="${escapeHtml(brandName)} generated logo" /></div>`
+            : ''
+        }
         <div class="grid-2">
           <div class="note-card">
             <div class="label">Concept summary</div>
@@ -405,11 +458,15 @@ const buildExportHtml = ({
         </div>
       </section>
 
-      <section class="section">
+      ${
+        includeRecap
+          ? `<section class="section">
         <div class="label">Original Input Recap</div>
         <h2>Source notes from the workbook</h2>
         <div class="recap">${recapRows(formData)}</div>
-      </section>
+      </section>`
+          : ''
+      }
     </main>
   </body>
 </html>`;
@@ -429,3 +486,74 @@ export const openBrandKitPdfExport = async (options: BrandKitExportOptions) => {
   await new Promise((resolve) => window.setTimeout(resolve, 180));
   exportWindow.print();
 };
+
+const PDF_EXPORT_ERROR_CODES = [
+  'export/not-authenticated',
+  'export/invalid-request',
+  'export/not-found',
+  'export/render-failed',
+  'export/storage-failed',
+] as const;
+
+export type PdfExportErrorCode = (typeof PDF_EXPORT_ERROR_CODES)[number];
+
+export class PdfExportError extends Error {
+  code: PdfExportErrorCode;
+
+  constructor(code: PdfExportErrorCode, message?: string) {
+    super(message || code);
+
+    this.name = 'PdfExportError';
+    this.code = code;
+  }
+}
+
+export interface ServerPdfExport {
+  url: string;
+  fileName: string;
+  storagePath: string;
+  byteLength: number;
+}
+
+const toPdfExportError = async (error: unknown): Promise<PdfExportError> => {
+  const message = error instanceof Error ? error.message : undefined;
+  const response = error && typeof error === 'object' && 'context' in error ? (error.context as Response) : undefined;
+
+  try {
+    const body = response && typeof response.json === 'function' ? await response.json() : null;
+    const code = PDF_EXPORT_ERROR_CODES.find((known) => known === body?.error?.code) || 'export/render-failed';
+    return new PdfExportError(code, body?.error?.message || message);
+  } catch {
+    return new PdfExportError('export/render-failed', message);
+  }
+};
+
+/**
+ * Renders the saved result as a PDF on the server, stores it in the private brand-exports bucket,
+ * and returns a signed download link. The function records the export itself.
+ */
+export const requestBrandKitPdf = async (params: {
+  projectId: string;
+  resultId: string;
+  versionLabel?: string;
+  /** Set to false when the PDF is part of a larger export that records itself. */
+  recordExport?: boolean;
+}): Promise<ServerPdfExport> => {
+  if (!supabase) {
+    throw new PdfExportError('export/render-failed', 'Supabase not configured');
+  }
+
+  const { data, error } = await supabase.functions.invoke<ServerPdfExport>('export-brand-pdf', {
+    body: params,
+  });
+
+  if (error) {
+    throw await toPdfExportError(error);
+  }
+
+  if (!data?.url) {
+    throw new PdfExportError('export/storage-failed');
+  }
+
+  return data;
+};
@@ -1,17 +1,52 @@
-import { BrandAiRequestError } from './brandAi';
-import { supabase, supabaseAnonKey, supabaseUrl } from './supabase';
-import { RegenerableKitSectionId, SavedBrandResult } from '../types';
+import {
+  BrandAiAttemptFailure,
+  BrandAiErrorCode,
+  BrandAiProvider,
+  BrandAiRequestError,
+} from './brandAi';
+import { BrandResultRecord, supabase, supabaseAnonKey, supabaseUrl } from './supabase';
+import {
+  BrandKit,
+  BrandKitVariant,
+  BrandKitVariantSet,
+  RegenerableKitSectionId,
+  SavedBrandResult,
+} from '../types';
+
+const BRAND_AI_ERROR_CODES: BrandAiErrorCode[] = [
+  'key-not-found',
+  'invalid-key',
+  'quota-exceeded',
+  'rate-limit',
+  'generation-failed',
+];
 
 interface BrandGenerationErrorPayload {
   code?: string;
-  attempts?: Array<{
-    provider: 'openai' | 'gemini' | 'anthropic';
-    code: 'key-not-found' | 'invalid-key' | 'quota-exceeded' | 'rate-limit' | 'generation-failed';
-    message: string;
-  }>;
+  attempts?: BrandAiAttemptFailure[];
   message?: string;
 }
 
+// Progress events emitted by the generate-brand-kit function in streaming mode.
+export type GenerationStreamEvent =
+  | { type: 'attempt-started'; provider: BrandAiProvider; model: string }
+  | { type: 'attempt-failed'; provider: BrandAiProvider; code: BrandAiErrorCode; message: string }
+  // Sent once per complete provider response; outputTokens is the provider's usage count when it reports one
+  | { type: 'response-received'; provider: BrandAiProvider; outputTokens: number | null }
+  | { type: 'repair-started'; attempt: number; issueCount: number }
+  | { type: 'section-parsed'; field: keyof BrandKit }
+  | { type: 'variant-started'; index: number; total: number }
+  | { type: 'row-persisted'; resultId: string };
+
+type GenerationStreamMessage =
+  | GenerationStreamEvent
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; error: BrandGenerationErrorPayload };
+
+interface GenerationRequestOptions {
+  onEvent?: (event: GenerationStreamEvent) => void;
+}
+
 const requireSupabase = () => {
   if (!supabase || !supabaseUrl || !supabaseAnonKey) {
     throw new Error('Supabase not configured');
@@ -20,28 +55,64 @@ const requireSupabase = () => {
   return supabase;
 };
 
-const parseSavedResult = (raw: any): SavedBrandResult => ({
-  id: raw.id,
-  projectId: raw.projectId || raw.project_id,
-  result: raw.result,
-  logoImageUrl: raw.logoImageUrl ?? raw.generated_logo_url ?? null,
-  logoGeneratedAt: raw.logoGeneratedAt ?? raw.generated_logo_at ?? null,
-  sourceModel: raw.sourceModel ?? raw.source_model ?? null,
-  createdAt: raw.createdAt ?? raw.created_at,
-  updatedAt: raw.updatedAt ?? raw.updated_at,
-});
+// Saved results arrive camelCase from the function, or as a raw snake_case brand_results row
+type RawSavedResult = Partial<SavedBrandResult> & Partial<Omit<BrandResultRecord, 'id' | 'metadata'>>;
+
+const toRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+const parseSavedResult = (value: unknown): SavedBrandResult => {
+  const raw = toRecord(value) as RawSavedResult;
+
+  return {
+    id: raw.id,
+    projectId: raw.projectId || raw.project_id,
+    result: raw.result,
+    logoImageUrl: raw.logoImageUrl ?? raw.generated_logo_url ?? null,
+    logoGeneratedAt: raw.logoGeneratedAt ?? raw.generated_logo_at ?? null,
+    sourceModel: raw.sourceModel ?? raw.source_model ?? null,
+    metadata: raw.metadata || {},
+    createdAt: raw.createdAt ?? raw.created_at,
+    updatedAt: raw.updatedAt ?? raw.updated_at,
+  };
+};
+
+const parseVariant = (value: unknown): BrandKitVariant => {
+  const variant = toRecord(value) as Partial<BrandKitVariant>;
+
+  return {
+    index: variant.index,
+    result: variant.result,
+    sourceModel: variant.sourceModel ?? null,
+    metadata: variant.metadata || {},
+    logoImageUrl: variant.logoImageUrl ?? null,
+    logoGeneratedAt: variant.logoGeneratedAt ?? null,
+  };
+};
+
+const parseVariantSet = (value: unknown): BrandKitVariantSet => {
+  const raw = toRecord(value) as Partial<BrandKitVariantSet>;
+
+  return {
+    baseResultId: raw.baseResultId ?? null,
+    sectionId: raw.sectionId ?? null,
+    variants: (Array.isArray(raw.variants) ? raw.variants : []).map(parseVariant),
+  };
+};
 
 const toBrandAiError = (payload: BrandGenerationErrorPayload): BrandAiRequestError | null => {
   if (!payload.code || !payload.attempts) {
     return null;
   }
 
-  return new BrandAiRequestError(payload.code as any, payload.attempts);
+  const code = BRAND_AI_ERROR_CODES.find((known) => known === payload.code) || 'generation-failed';
+  return new BrandAiRequestError(code, payload.attempts);
 };
 
-const callGenerationFunction = async <T>(
-  body: Record<string, unknown>
-): Promise<T> => {
+const toGenerationError = (payload: BrandGenerationErrorPayload) =>
+  toBrandAiError(payload) || new Error(payload.message || 'Brand generation request failed.');
+
+const postGenerationRequest = async (body: Record<string, unknown>) => {
   const client = requireSupabase();
   const {
     data: { session },
@@ -51,7 +122,7 @@ const callGenerationFunction = async <T>(
     throw new Error('Authentication required before generation.');
   }
 
-  const response = await fetch(`${supabaseUrl}/functions/v1/generate-brand-kit`, {
+  return fetch(`${supabaseUrl}/functions/v1/generate-brand-kit`, {
     method: 'POST',
     headers: {
       Authorization: `Bearer ${session.access_token}`,
@@ -60,6 +131,71 @@ const callGenerationFunction = async <T>(
     },
     body: JSON.stringify(body),
   });
+};
+
+const readGenerationStream = async <T>(
+  response: Response,
+  onEvent: (event: GenerationStreamEvent) => void
+): Promise<T> => {
+  if (!response.body) {
+    throw new Error('Brand generation stream was empty.');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  // Returning or throwing mid-stream cancels the body so the connection is not left open
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+
+      const frames = buffer.split('\n\n');
+      buffer = done ? '' : frames.pop() || '';
+
+      for (const frame of frames) {
+        const data = frame
+          .split('\n')
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trim())
+          .join('');
+
+        if (!data) continue;
+
+        const message = JSON.parse(data) as GenerationStreamMessage;
+
+        if (message.type === 'result') {
+          return { result: message.result } as T;
+        }
+
+        if (message.type === 'error') {
+          throw toGenerationError(message.error || {});
+        }
+
+        onEvent(message);
+      }
+
+      if (done) break;
+    }
+
+    throw new Error('Brand generation stream ended before a result was saved.');
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+};
+
+const callGenerationFunction = async <T>(
+  body: Record<string, unknown>,
+  options?: GenerationRequestOptions
+): Promise<T> => {
+  const response = await postGenerationRequest(
+    options?.onEvent ? { ...body, stream: true } : body
+  );
+
+  if (response.ok && options?.onEvent) {
+    return readGenerationStream<T>(response, options.onEvent);
+  }
 
   const payload = (await response.json().catch(() => ({}))) as
     | T
@@ -68,34 +204,25 @@ const callGenerationFunction = async <T>(
       };
 
   if (!response.ok) {
-    const providerError =
-      payload && typeof payload === 'object' && 'error' in payload
-        ? toBrandAiError(payload.error || {})
-        : null;
-
-    if (providerError) {
-      throw providerError;
-    }
-
-    const message =
-      payload &&
-      typeof payload === 'object' &&
-      'error' in payload &&
-      payload.error?.message
-        ? payload.error.message
-        : 'Brand generation request failed.';
-
-    throw new Error(message);
+    throw toGenerationError(
+      payload && typeof payload === 'object' && 'error' in payload ? payload.error || {} : {}
+    );
   }
 
   return payload as T;
 };
 
-export const generateBrandKit = async (projectId: string): Promise<SavedBrandResult> => {
-  const payload = await callGenerationFunction<{ result: SavedBrandResult }>({
-    action: 'generate-kit',
-    projectId,
-  });
+export const generateBrandKit = async (
+  projectId: string,
+  options?: GenerationRequestOptions
+): Promise<SavedBrandResult> => {
+  const payload = await callGenerationFunction<{ result: unknown }>(
+    {
+      action: 'generate-kit',
+      projectId,
+    },
+    options
+  );
 
   return parseSavedResult(payload.result);
 };
@@ -103,14 +230,61 @@ export const generateBrandKit = async (projectId: string): Promise<SavedBrandRes
 export const regenerateBrandSection = async (
   projectId: string,
   resultId: string,
-  sectionId: RegenerableKitSectionId
+  sectionId: RegenerableKitSectionId,
+  options?: GenerationRequestOptions & { instruction?: string }
 ): Promise<SavedBrandResult> => {
-  const payload = await callGenerationFunction<{ result: SavedBrandResult }>({
-    action: 'regenerate-section',
-    projectId,
-    resultId,
-    sectionId,
-  });
+  const instruction = options?.instruction?.trim();
+  const payload = await callGenerationFunction<{ result: unknown }>(
+    {
+      action: 'regenerate-section',
+      projectId,
+      resultId,
+      sectionId,
+      ...(instruction ? { instruction } : {}),
+    },
+    options
+  );
 
   return parseSavedResult(payload.result);
 };
+
+// Returns 2-4 unsaved takes of the full kit. Nothing is stored until one is picked and saved.
+export const generateBrandKitVariants = async (
+  projectId: string,
+  variantCount: number,
+  options?: GenerationRequestOptions
+): Promise<BrandKitVariantSet> => {
+  const payload = await callGenerationFunction<{ result: unknown }>(
+    {
+      action: 'generate-kit',
+      projectId,
+      variantCount,
+    },
+    options
+  );
+
+  return parseVariantSet(payload.result);
+};
+
+export const regenerateBrandSectionVariants = async (
+  projectId: string,
+  resultId: string,
+  sectionId: RegenerableKitSectionId,
+  variantCount: number,
+  options?: GenerationRequestOptions & { instruction?: string }
+): Promise<BrandKitVariantSet> => {
+  const instruction = options?.instruction?.trim();
+  const payload = await callGenerationFunction<{ result: unknown }>(
+    {
+      action: 'regenerate-section',
+      projectId,
+      resultId,
+      sectionId,
+      variantCount,
+      ...(instruction ? { instruction } : {}),
+    },
+    options
+  );
+
+  return parseVariantSet(payload.result);
+};
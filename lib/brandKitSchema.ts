@@ -0,0 +1,230 @@
+import type { BrandKit, BrandKitQualityReport, BrandKitValidationIssue } from '../types.ts';
+import { parseColor } from './colorParser.ts';
+
+export type BrandKitFieldId = keyof BrandKit;
+
+export type BrandKitFieldSchema =
+  | { kind: 'text' }
+  | { kind: 'list'; min: number }
+  | { kind: 'palette'; min: number }
+  | { kind: 'object'; fields: Record<string, BrandKitFieldSchema> };
+
+const text: BrandKitFieldSchema = { kind: 'text' };
+const list = (min: number): BrandKitFieldSchema => ({ kind: 'list', min });
+
+export const BRAND_KIT_SCHEMA: Record<BrandKitFieldId, BrandKitFieldSchema> = {
+  brandEssence: text,
+  summaryParagraph: text,
+  keywords: list(3),
+  toneOfVoice: list(2),
+  targetAudienceSummary: text,
+  visualDirection: text,
+  brandArchetype: {
+    kind: 'object',
+    fields: { name: text, explanation: text },
+  },
+  suggestedTagline: text,
+  colorPaletteSuggestions: { kind: 'palette', min: 3 },
+  fontPairing: {
+    kind: 'object',
+    fields: { headlineFont: text, bodyFont: text, note: text },
+  },
+  logoPrompt: text,
+  brandFoundation: {
+    kind: 'object',
+    fields: { mission: text, positioning: text, emotionalCharacter: text },
+  },
+  personalityProfile: {
+    kind: 'object',
+    fields: { traits: list(2), tone: list(2), emotionalDescriptors: list(2) },
+  },
+  messagingDirection: {
+    kind: 'object',
+    fields: {
+      voiceSummary: text,
+      messagingPillars: list(2),
+      avoidLanguage: list(2),
+      taglineDirections: list(2),
+    },
+  },
+  imageryDirection: {
+    kind: 'object',
+    fields: {
+      photographyDirection: text,
+      mood: text,
+      artDirection: text,
+      referenceCues: list(2),
+    },
+  },
+  applicationDirection: {
+    kind: 'object',
+    fields: { website: text, social: text, packaging: text, campaign: text },
+  },
+  logoDirection: {
+    kind: 'object',
+    fields: { conceptSummary: text, creativeNotes: list(2) },
+  },
+};
+
+export const BRAND_KIT_FIELD_LABELS: Record<BrandKitFieldId, string> = {
+  brandEssence: 'Brand essence',
+  summaryParagraph: 'Summary',
+  keywords: 'Keywords',
+  toneOfVoice: 'Tone of voice',
+  targetAudienceSummary: 'Audience summary',
+  visualDirection: 'Visual direction',
+  brandArchetype: 'Brand archetype',
+  suggestedTagline: 'Suggested tagline',
+  colorPaletteSuggestions: 'Color palette',
+  fontPairing: 'Font pairing',
+  logoPrompt: 'Logo prompt',
+  brandFoundation: 'Brand foundation',
+  personalityProfile: 'Personality profile',
+  messagingDirection: 'Messaging direction',
+  imageryDirection: 'Imagery direction',
+  applicationDirection: 'Application direction',
+  logoDirection: 'Logo direction',
+};
+
+// Result page sections in reading order. The notebook map and the Markdown brief both follow it.
+export const BRAND_KIT_SECTION_NAV = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'essence', label: 'Essence' },
+  { id: 'personality', label: 'Personality' },
+  { id: 'palette', label: 'Palette' },
+  { id: 'typography', label: 'Typography' },
+  { id: 'logo', label: 'Logo' },
+  { id: 'voice', label: 'Voice' },
+  { id: 'imagery', label: 'Imagery' },
+  { id: 'applications', label: 'Applications' },
+  { id: 'recap', label: 'Recap' },
+] as const;
+
+export type BrandKitSectionNavId = (typeof BRAND_KIT_SECTION_NAV)[number]['id'];
+
+export const ALL_BRAND_KIT_FIELDS = Object.keys(BRAND_KIT_SCHEMA) as BrandKitFieldId[];
+
+// Fields the BrandKit type treats as required. A kit missing any of these is not worth saving.
+export const CORE_BRAND_KIT_FIELDS: BrandKitFieldId[] = [
+  'brandEssence',
+  'summaryParagraph',
+  'keywords',
+  'toneOfVoice',
+  'targetAudienceSummary',
+  'visualDirection',
+  'brandArchetype',
+  'suggestedTagline',
+  'colorPaletteSuggestions',
+  'fontPairing',
+  'logoPrompt',
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isFilledText = (value: unknown) => typeof value === 'string' && value.trim().length > 0;
+
+const validateField = (
+  schema: BrandKitFieldSchema,
+  value: unknown,
+  path: string,
+  issues: BrandKitValidationIssue[]
+) => {
+  switch (schema.kind) {
+    case 'text':
+      if (!isFilledText(value)) {
+        issues.push({ path, message: 'must be a non-empty string' });
+      }
+      return;
+    case 'list': {
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `must be an array of at least ${schema.min} strings` });
+        return;
+      }
+
+      const filled = value.filter(isFilledText);
+      if (filled.length !== value.length) {
+        issues.push({ path, message: 'must only contain non-empty strings' });
+      }
+      if (filled.length < schema.min) {
+        issues.push({ path, message: `needs at least ${schema.min} items, received ${filled.length}` });
+      }
+      return;
+    }
+    case 'palette':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `must be an array of at least ${schema.min} colors` });
+        return;
+      }
+
+      if (value.length < schema.min) {
+        issues.push({ path, message: `needs at least ${schema.min} colors, received ${value.length}` });
+      }
+
+      value.forEach((color, index) => {
+        const colorPath = `${path}[${index}]`;
+        if (!isRecord(color)) {
+          issues.push({ path: colorPath, message: 'must be an object with name, hex, and usage' });
+          return;
+        }
+
+        validateField(text, color.name, `${colorPath}.name`, issues);
+        validateField(text, color.usage, `${colorPath}.usage`, issues);
+        // Loose codes like "rgb(...)" or "#E5D3B3ish" pass here and are canonicalized on save
+        if (typeof color.hex !== 'string' || !parseColor(color.hex)) {
+          issues.push({ path: `${colorPath}.hex`, message: 'must be a hex color like #1A2B3C' });
+        }
+      });
+      return;
+    case 'object':
+      if (!isRecord(value)) {
+        issues.push({
+          path,
+          message: `must be an object with ${Object.keys(schema.fields).join(', ')}`,
+        });
+        return;
+      }
+
+      Object.entries(schema.fields).forEach(([key, fieldSchema]) => {
+        validateField(fieldSchema, value[key], `${path}.${key}`, issues);
+      });
+      return;
+  }
+};
+
+/**
+ * Validates raw model output against the BrandKit schema. Only the requested top-level
+ * fields are checked, and every requested field is treated as required.
+ */
+export const validateBrandKit = (
+  raw: unknown,
+  fields: BrandKitFieldId[] = ALL_BRAND_KIT_FIELDS
+): BrandKitValidationIssue[] => {
+  if (!isRecord(raw)) {
+    return [{ path: '$', message: 'response must be a JSON object' }];
+  }
+
+  const issues: BrandKitValidationIssue[] = [];
+  fields.forEach((field) => validateField(BRAND_KIT_SCHEMA[field], raw[field], field, issues));
+  return issues;
+};
+
+export const getIssueField = (issue: BrandKitValidationIssue): BrandKitFieldId | null => {
+  const field = issue.path.split(/[.[]/)[0] as BrandKitFieldId;
+  return field in BRAND_KIT_SCHEMA ? field : null;
+};
+
+export const buildBrandKitQualityReport = (
+  issues: BrandKitValidationIssue[],
+  repairAttempts: number
+): BrandKitQualityReport => ({
+  repairAttempts,
+  defaultedSections: Array.from(
+    new Set(
+      issues
+        .map((issue) => getIssueField(issue))
+        .filter((field): field is BrandKitFieldId => Boolean(field))
+    )
+  ),
+  issues,
+});
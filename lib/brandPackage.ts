@@ -0,0 +1,166 @@
+/**
+ * Brand Package
+ * One ZIP with everything a designer or developer needs from a saved result: the PDF guide, token
+ * files, palette swatches, the generated logo, a Markdown brief, and a manifest listing it all.
+ * Pieces that cannot be produced (no logo yet, PDF function unavailable) are listed as skipped
+ * instead of failing the whole package.
+ */
+
+import { BrandKitExportOptions } from '../types';
+import { buildBrandBriefMarkdown } from './brandBrief';
+import { requestBrandKitPdf } from './brandExport';
+import { TOKEN_EXPORT_FORMATS, buildTokenExport, toFileSlug } from './brandTokens';
+import { PALETTE_SWATCH_FORMATS, buildPaletteSwatchFile } from './paletteSwatches';
+import { ZipEntry, createZipArchive } from './zipArchive';
+
+export const BRAND_PACKAGE_FORMAT = 'brand-mosaic-package';
+export const BRAND_PACKAGE_VERSION = 1;
+
+export type BrandPackageFileKind = 'pdf' | 'tokens' | 'swatches' | 'logo' | 'brief';
+
+export interface BrandPackageManifest {
+  format: typeof BRAND_PACKAGE_FORMAT;
+  schemaVersion: typeof BRAND_PACKAGE_VERSION;
+  brandName: string;
+  versionId: string;
+  versionLabel: string | null;
+  createdAt: string;
+  files: Array<{ path: string; kind: BrandPackageFileKind; bytes: number }>;
+  skipped: Array<{ kind: BrandPackageFileKind; reason: string }>;
+}
+
+export interface BrandPackage {
+  fileName: string;
+  archive: Uint8Array;
+  manifest: BrandPackageManifest;
+}
+
+export interface BrandPackageOptions extends BrandKitExportOptions {
+  projectId: string;
+  resultId: string;
+}
+
+interface LogoAssets {
+  png: Uint8Array;
+  svg: string | null;
+}
+
+const readBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+// Draws any browser-readable image (JPEG, WebP, SVG) onto a canvas and re-encodes it as PNG
+const rasterizeToPng = (blob: Blob) =>
+  new Promise<Uint8Array>((resolve, reject) => {
+    const objectUrl = URL.createObjectURL(blob);
+    const image = new Image();
+
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = image.naturalWidth || 1024;
+      canvas.height = image.naturalHeight || 1024;
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(objectUrl);
+      canvas.toBlob((png) => (png ? readBytes(png).then(resolve, reject) : reject(new Error('PNG encode failed.'))), 'image/png');
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(objectUrl);
+      reject(new Error('Logo image could not be decoded.'));
+    };
+    image.src = objectUrl;
+  });
+
+/** Reads the logo shown in LogoDisplay. Generated logos are raster; SVG is kept when the source is SVG. */
+const loadLogoAssets = async (logoUrl: string): Promise<LogoAssets> => {
+  const response = await fetch(logoUrl);
+  if (!response.ok) {
+    throw new Error(`Logo request failed with ${response.status}.`);
+  }
+
+  const blob = await response.blob();
+
+  if (blob.type === 'image/svg+xml') {
+    return { png: await rasterizeToPng(blob), svg: await blob.text() };
+  }
+
+  return { png: blob.type === 'image/png' ? await readBytes(blob) : await rasterizeToPng(blob), svg: null };
+};
+
+const loadPdf = async (options: BrandPackageOptions) => {
+  const pdf = await requestBrandKitPdf({
+    projectId: options.projectId,
+    resultId: options.resultId,
+    versionLabel: options.versionLabel,
+    recordExport: false,
+  });
+
+  const response = await fetch(pdf.url);
+  if (!response.ok) {
+    throw new Error(`PDF download failed with ${response.status}.`);
+  }
+
+  return { fileName: pdf.fileName, bytes: await readBytes(await response.blob()) };
+};
+
+const describeFailure = (error: unknown) => (error instanceof Error ? error.message : 'Unavailable');
+
+export const buildBrandPackage = async (options: BrandPackageOptions): Promise<BrandPackage> => {
+  const { brandName, kit } = options;
+  const root = `${toFileSlug(brandName)}-brand-package`;
+  const entries: Array<ZipEntry & { kind: BrandPackageFileKind }> = [];
+  const skipped: BrandPackageManifest['skipped'] = [];
+
+  const [pdf, logo] = await Promise.allSettled([
+    loadPdf(options),
+    options.logoImageUrl ? loadLogoAssets(options.logoImageUrl) : Promise.reject(new Error('No logo generated yet.')),
+  ]);
+
+  if (pdf.status === 'fulfilled') {
+    entries.push({ kind: 'pdf', path: `${root}/${pdf.value.fileName}`, content: pdf.value.bytes });
+  } else {
+    console.error('Brand package PDF unavailable:', pdf.reason);
+    skipped.push({ kind: 'pdf', reason: describeFailure(pdf.reason) });
+  }
+
+  TOKEN_EXPORT_FORMATS.forEach(({ format }) => {
+    const file = buildTokenExport(format, kit, brandName, options.formData);
+    entries.push({ kind: 'tokens', path: `${root}/tokens/${file.fileName}`, content: file.content });
+  });
+
+  PALETTE_SWATCH_FORMATS.forEach((format) => {
+    const file = buildPaletteSwatchFile(format, kit, brandName);
+    entries.push({ kind: 'swatches', path: `${root}/swatches/${file.fileName}`, content: file.content });
+  });
+
+  if (logo.status === 'fulfilled') {
+    entries.push({ kind: 'logo', path: `${root}/logo/logo.png`, content: logo.value.png });
+    if (logo.value.svg) {
+      entries.push({ kind: 'logo', path: `${root}/logo/logo.svg`, content: logo.value.svg });
+    }
+  } else {
+    skipped.push({ kind: 'logo', reason: describeFailure(logo.reason) });
+  }
+
+  entries.push({ kind: 'brief', path: `${root}/BRAND-BRIEF.md`, content: buildBrandBriefMarkdown(options) });
+
+  const encoder = new TextEncoder();
+  const manifest: BrandPackageManifest = {
+    format: BRAND_PACKAGE_FORMAT,
+    schemaVersion: BRAND_PACKAGE_VERSION,
+    brandName,
+    versionId: options.resultId,
+    versionLabel: options.versionLabel || null,
+    createdAt: options.exportedAt,
+    files: entries.map((entry) => ({
+      path: entry.path.slice(root.length + 1),
+      kind: entry.kind,
+      bytes: typeof entry.content === 'string' ? encoder.encode(entry.content).length : entry.content.length,
+    })),
+    skipped,
+  };
+
+  const archive = createZipArchive(
+    [...entries, { path: `${root}/manifest.json`, content: `${JSON.stringify(manifest, null, 2)}\n` }],
+    new Date(options.exportedAt)
+  );
+
+  return { fileName: `${root}.zip`, archive, manifest };
+};
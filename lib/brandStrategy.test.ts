@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import type { BrandResultMetadata } from '../types';
+import {
+  composeVariantMetadata,
+  getSectionRegenerationFields,
+  mergeRegeneratedBrandKitSection,
+  normalizeBrandKit,
+} from './brandStrategy';
+
+const takeA: BrandResultMetadata = {
+  qualityReport: {
+    repairAttempts: 1,
+    defaultedSections: ['suggestedTagline'],
+    issues: [{ path: 'suggestedTagline', message: 'Expected a string.' }],
+  },
+  colorCorrections: [{ name: 'Sand', original: '', corrected: '#E5D3B3', method: 'fallback' }],
+};
+
+const takeB: BrandResultMetadata = {
+  qualityReport: {
+    repairAttempts: 2,
+    defaultedSections: ['fontPairing'],
+    issues: [{ path: 'fontPairing.note', message: 'Expected a string.' }],
+  },
+  colorCorrections: [{ name: 'Navy', original: 'navy-ish', corrected: '#000080', method: 'name' }],
+};
+
+describe('composeVariantMetadata', () => {
+  it('keeps only the base take metadata when nothing is picked from another take', () => {
+    expect(composeVariantMetadata([takeA, takeB], 0, {})).toEqual({
+      qualityReport: takeA.qualityReport,
+      colorCorrections: takeA.colorCorrections,
+    });
+  });
+
+  it('takes each section correction metadata from the take that supplied it', () => {
+    const metadata = composeVariantMetadata([takeA, takeB], 0, { colorPaletteSuggestions: 1 });
+
+    expect(metadata.colorCorrections).toEqual(takeB.colorCorrections);
+    // The palette section also rewrites fontPairing, so that take's typography issue comes along
+    expect(metadata.qualityReport).toEqual({
+      repairAttempts: 2,
+      defaultedSections: ['suggestedTagline', 'fontPairing'],
+      issues: [...takeA.qualityReport!.issues, ...takeB.qualityReport!.issues],
+    });
+  });
+
+  it('drops corrections when the supplying take had none', () => {
+    const metadata = composeVariantMetadata([takeA, {}], 0, { colorPaletteSuggestions: 1 });
+
+    expect(metadata.colorCorrections).toBeUndefined();
+  });
+
+  it('keeps why the version exists from the base and picked takes', () => {
+    const why: BrandResultMetadata = {
+      sectionRegeneration: { sectionId: 'colorPaletteSuggestions', instruction: 'Warmer, less beige' },
+      carriedOver: { fromResultId: 'result-1', sections: ['brandEssence'] },
+    };
+    const metadata = composeVariantMetadata([{ ...takeA, ...why }, { ...takeB, ...why }], 0, {
+      colorPaletteSuggestions: 1,
+    });
+
+    expect(metadata.sectionRegeneration).toEqual(why.sectionRegeneration);
+    expect(metadata.carriedOver).toEqual(why.carriedOver);
+  });
+
+  it('takes carried-over sections from a picked take when the base has none', () => {
+    const picked = { ...takeB, carriedOver: { fromResultId: 'result-1', sections: ['fontPairing' as const] } };
+
+    expect(composeVariantMetadata([takeA, picked], 0, { fontPairing: 1 }).carriedOver).toEqual(picked.carriedOver);
+  });
+});
+
+describe('section regeneration rules', () => {
+  it.each([
+    ['brandEssence', ['brandEssence', 'summaryParagraph', 'targetAudienceSummary', 'brandFoundation']],
+    ['messagingDirection', ['toneOfVoice', 'suggestedTagline', 'messagingDirection']],
+    ['colorPaletteSuggestions', ['colorPaletteSuggestions', 'fontPairing']],
+    ['logoDirection', ['logoDirection', 'logoPrompt']],
+    ['imageryDirection', ['visualDirection', 'imageryDirection']],
+    ['summaryParagraph', ['summaryParagraph']],
+    ['fontPairing', ['fontPairing']],
+    ['logoPrompt', ['logoPrompt']],
+  ] as const)('%s rewrites %j', (sectionId, fields) => {
+    expect(getSectionRegenerationFields(sectionId)).toEqual(fields);
+  });
+
+  it('merges only the fields the section owns', () => {
+    const current = normalizeBrandKit({
+      suggestedTagline: 'Made to last.',
+      colorPaletteSuggestions: [{ name: 'Sand', hex: '#E5D3B3', usage: 'Backgrounds' }],
+      fontPairing: { headlineFont: 'Fraunces', bodyFont: 'Inter', note: 'Quiet.' },
+    });
+    const merged = mergeRegeneratedBrandKitSection('colorPaletteSuggestions', current, {
+      suggestedTagline: 'Ignored.',
+      colorPaletteSuggestions: [{ name: 'Clay', hex: '#C4663F', usage: 'Accents' }],
+      fontPairing: { headlineFont: 'Lora', bodyFont: 'Karla', note: 'Warmer.' },
+    });
+
+    expect(merged.suggestedTagline).toBe('Made to last.');
+    expect(merged.colorPaletteSuggestions[0].name).toBe('Clay');
+    expect(merged.fontPairing.headlineFont).toBe('Lora');
+  });
+});
@@ -1,4 +1,15 @@
-import type { BrandFormData, BrandKit, RegenerableKitSectionId } from '../types.ts';
+import type {
+  BrandFormData,
+  BrandKit,
+  BrandKitLocks,
+  BrandKitValidationIssue,
+  BrandResultMetadata,
+  KitSectionId,
+  RegenerableKitSectionId,
+} from '../types.ts';
+import { ALL_BRAND_KIT_FIELDS, type BrandKitFieldId, getIssueField } from './brandKitSchema.ts';
+import { MAX_PALETTE_COLORS, parseColor } from './colorParser.ts';
+import { normalizeTypographySystem } from './typographySystem.ts';
 
 export const BRAND_WRITING_STANDARD = `
 Writing standard:
@@ -35,6 +46,18 @@ const cleanList = (value: unknown, maxItems: number): string[] => {
     .slice(0, maxItems);
 };
 
+// The typography system is derived rather than generated, so it is only kept when it is intact
+const normalizeFontPairing = (raw: Partial<BrandKit['fontPairing']> | undefined): BrandKit['fontPairing'] => {
+  const system = normalizeTypographySystem(raw?.system);
+
+  return {
+    headlineFont: cleanText(raw?.headlineFont),
+    bodyFont: cleanText(raw?.bodyFont),
+    note: cleanText(raw?.note),
+    ...(system ? { system } : {}),
+  };
+};
+
 export const normalizeBrandKit = (raw: Partial<BrandKit>): BrandKit => ({
   brandEssence: cleanText(raw.brandEssence),
   summaryParagraph: cleanText(raw.summaryParagraph),
@@ -51,17 +74,13 @@ export const normalizeBrandKit = (raw: Partial<BrandKit>): BrandKit => ({
     ? raw.colorPaletteSuggestions
         .map((color) => ({
           name: cleanText(color?.name),
-          hex: cleanText(color?.hex).toUpperCase(),
+          hex: parseColor(cleanText(color?.hex)) || cleanText(color?.hex).toUpperCase(),
           usage: cleanText(color?.usage),
         }))
         .filter((color) => color.name || color.hex || color.usage)
-        .slice(0, 4)
+        .slice(0, MAX_PALETTE_COLORS)
     : [],
-  fontPairing: {
-    headlineFont: cleanText(raw.fontPairing?.headlineFont),
-    bodyFont: cleanText(raw.fontPairing?.bodyFont),
-    note: cleanText(raw.fontPairing?.note),
-  },
+  fontPairing: normalizeFontPairing(raw.fontPairing),
   logoPrompt: cleanText(raw.logoPrompt),
   brandFoundation:
     raw.brandFoundation &&
@@ -142,7 +161,20 @@ export const normalizeBrandKit = (raw: Partial<BrandKit>): BrandKit => ({
       : undefined,
 });
 
-export const buildFullBrandKitPrompt = (data: BrandFormData): string => `You are Brand Mosaic, an intelligent creative strategist. Analyze the brand data below and return valid JSON only.
+const buildLockedSectionsBlock = (lockedKit?: Partial<BrandKit>) =>
+  lockedKit && Object.keys(lockedKit).length > 0
+    ? `
+
+Locked sections:
+- The founder locked the fields below. They will be kept exactly as written, so do not rewrite them.
+- Every other field must stay coherent with these locked fields.
+${JSON.stringify(lockedKit, null, 2)}`
+    : '';
+
+export const buildFullBrandKitPrompt = (
+  data: BrandFormData,
+  lockedKit?: Partial<BrandKit>
+): string => `You are Brand Mosaic, an intelligent creative strategist. Analyze the brand data below and return valid JSON only.
 
 Brand input:
 ${JSON.stringify(data, null, 2)}
@@ -173,7 +205,7 @@ Field guidance:
 - imageryDirection: synthesize photographyDirection, mood, artDirection, and referenceCues from the full answer set.
 - applicationDirection: synthesize website, social, packaging, and campaign guidance from the full answer set.
 - logoDirection: synthesize conceptSummary and creativeNotes from the full answer set before writing the logoPrompt.
-- logoPrompt: write this like a tight creative direction brief, not a rambling image prompt.
+- logoPrompt: write this like a tight creative direction brief, not a rambling image prompt.${buildLockedSectionsBlock(lockedKit)}
 
 Do not use markdown. Do not mention AI. Do not hedge. Do not repeat the same idea across fields.`;
 
@@ -181,26 +213,60 @@ const SECTION_REGEN_RULES: Record<
   RegenerableKitSectionId,
   {
     label: string;
-    fields: string[];
+    fields: BrandKitFieldId[];
     guidance: string[];
   }
 > = {
+  // The five original sections still rewrite their neighbouring fields together; the narrower
+  // entries let a founder revise one of those fields without touching the rest.
   brandEssence: {
     label: 'Brand Essence',
     fields: ['brandEssence', 'summaryParagraph', 'targetAudienceSummary', 'brandFoundation'],
     guidance: [
       'brandEssence must be exactly 1 sentence and stay between 16 and 26 words.',
       'summaryParagraph must sharpen the strategic summary without repeating the brandEssence sentence.',
+      'targetAudienceSummary should stay 1 or 2 sentences on who the brand serves and what they care about.',
       'brandFoundation must update mission, positioning, and emotionalCharacter together so the section reads as one system.',
     ],
   },
-  messagingDirection: {
-    label: 'Voice & Messaging',
-    fields: ['toneOfVoice', 'suggestedTagline', 'messagingDirection'],
+  summaryParagraph: {
+    label: 'Strategic Summary',
+    fields: ['summaryParagraph'],
     guidance: [
-      'Make the voice specific enough to guide real copy reviews.',
-      'taglineDirections should feel usable, not slogan soup.',
-      'avoidLanguage should call out patterns the founder should actively avoid.',
+      'summaryParagraph must be 2 or 3 sharp sentences, max 90 words.',
+      'Sharpen the strategic summary without repeating the brandEssence sentence.',
+    ],
+  },
+  keywords: {
+    label: 'Keywords & Personality',
+    fields: ['keywords', 'personalityProfile'],
+    guidance: [
+      'keywords must be 4 to 6 strong descriptors. Specific, not trendy filler.',
+      'personalityProfile should update traits, tone, and emotionalDescriptors so they agree with the new keywords.',
+    ],
+  },
+  toneOfVoice: {
+    label: 'Tone of Voice',
+    fields: ['toneOfVoice'],
+    guidance: [
+      'toneOfVoice must be 3 to 5 concise voice directions a founder can apply in copy reviews.',
+      'Each direction should be distinct enough to settle a real copy disagreement.',
+    ],
+  },
+  brandArchetype: {
+    label: 'Brand Archetype',
+    fields: ['brandArchetype'],
+    guidance: [
+      'brandArchetype.name must be concise and believable. Avoid forced mythology.',
+      'brandArchetype.explanation must be 1 short sentence explaining why the archetype fits.',
+    ],
+  },
+  suggestedTagline: {
+    label: 'Suggested Tagline',
+    fields: ['suggestedTagline'],
+    guidance: [
+      'suggestedTagline must be short, elegant, and usable in the real world.',
+      'It should sound like the saved voice direction, not a generic slogan.',
     ],
   },
   colorPaletteSuggestions: {
@@ -212,11 +278,39 @@ const SECTION_REGEN_RULES: Record<
       'fontPairing should stay realistic and support the same visual world as the palette.',
     ],
   },
+  fontPairing: {
+    label: 'Typography',
+    fields: ['fontPairing'],
+    guidance: [
+      'headlineFont and bodyFont must be realistic suggestions, not novelty fonts.',
+      'note must be 1 short sentence on how the pairing should be used.',
+      'The pairing should support the same visual world as the saved palette.',
+    ],
+  },
+  logoPrompt: {
+    label: 'Logo Prompt',
+    fields: ['logoPrompt'],
+    guidance: [
+      'logoPrompt must be tight, practical, and visually specific.',
+      'Write it like a creative direction brief that follows the saved logoDirection.',
+      'Do not output image-model filler words or long prompt padding.',
+    ],
+  },
+  messagingDirection: {
+    label: 'Voice & Messaging',
+    fields: ['toneOfVoice', 'suggestedTagline', 'messagingDirection'],
+    guidance: [
+      'Make the voice specific enough to guide real copy reviews.',
+      'taglineDirections should feel usable, not slogan soup.',
+      'avoidLanguage should call out patterns the founder should actively avoid.',
+    ],
+  },
   logoDirection: {
     label: 'Logo Direction',
     fields: ['logoDirection', 'logoPrompt'],
     guidance: [
       'logoDirection should read like concise creative direction notes.',
+      'conceptSummary should describe the mark idea, and creativeNotes should make it buildable.',
       'logoPrompt must be tight, practical, and visually specific.',
       'Do not output image-model filler words or long prompt padding.',
     ],
@@ -235,12 +329,51 @@ const SECTION_REGEN_RULES: Record<
 export const getSectionRegenerationLabel = (sectionId: RegenerableKitSectionId) =>
   SECTION_REGEN_RULES[sectionId].label;
 
+export const getSectionRegenerationFields = (sectionId: RegenerableKitSectionId) =>
+  SECTION_REGEN_RULES[sectionId].fields;
+
+export const getRegenerableSectionIds = () =>
+  Object.keys(SECTION_REGEN_RULES) as RegenerableKitSectionId[];
+
+export const getLockedSectionIds = (locks: BrandKitLocks | null | undefined): KitSectionId[] =>
+  (Object.keys(SECTION_REGEN_RULES) as KitSectionId[]).filter((sectionId) => Boolean(locks?.[sectionId]));
+
+/**
+ * Picks the saved values of every locked section so a full regeneration can carry them over
+ * untouched. Values are copied as stored, without re-normalizing them.
+ */
+export const pickLockedBrandKitFields = (
+  kit: Partial<BrandKit>,
+  sectionIds: KitSectionId[]
+): Partial<BrandKit> => {
+  const locked: Partial<BrandKit> = {};
+
+  sectionIds.forEach((sectionId) => {
+    SECTION_REGEN_RULES[sectionId].fields.forEach((field) => {
+      if (kit[field] !== undefined) {
+        (locked as Record<string, unknown>)[field] = kit[field];
+      }
+    });
+  });
+
+  return locked;
+};
+
 export const buildSectionRegenerationPrompt = (
   sectionId: RegenerableKitSectionId,
   data: BrandFormData,
-  currentKit: BrandKit
+  currentKit: BrandKit,
+  instruction?: string
 ) => {
   const config = SECTION_REGEN_RULES[sectionId];
+  const direction = instruction?.trim()
+    ? `
+Founder direction for this revision:
+"${instruction.trim()}"
+- Treat this as the main reason for the revision and make the change clearly visible.
+- Keep the revision grounded in the brand input above; where the two conflict, favor the brand input.
+`
+    : '';
 
   return `You are Brand Mosaic, an intelligent creative strategist.
 
@@ -259,7 +392,7 @@ Synthesis rule:
 - Cross-reference the full workbook before changing any field.
 - Revise only the fields requested below.
 - Keep the rest of the brand system coherent with the current saved result.
-
+${direction}
 Return valid JSON only with these fields:
 ${config.fields.join(', ')}
 
@@ -269,50 +402,114 @@ ${config.guidance.map((item) => `- ${item}`).join('\n')}
 Do not use markdown. Do not mention AI. Do not repeat ideas already handled better elsewhere in the kit.`;
 };
 
+export const buildBrandKitRepairPrompt = (
+  originalPrompt: string,
+  previousOutput: unknown,
+  issues: BrandKitValidationIssue[]
+) => `${originalPrompt}
+
+Your previous response did not pass validation and cannot be saved yet.
+
+Previous response:
+${JSON.stringify(previousOutput, null, 2)}
+
+Fix every problem listed below:
+${issues.map((issue) => `- ${issue.path}: ${issue.message}`).join('\n')}
+
+Return the complete corrected JSON object only. Keep fields that were already valid unless a fix requires changing them.`;
+
 export const mergeRegeneratedBrandKitSection = (
   sectionId: RegenerableKitSectionId,
   currentKit: BrandKit,
   patch: Partial<BrandKit>
 ): BrandKit => {
-  switch (sectionId) {
-    case 'brandEssence':
-      return normalizeBrandKit({
-        ...currentKit,
-        brandEssence: patch.brandEssence ?? currentKit.brandEssence,
-        summaryParagraph: patch.summaryParagraph ?? currentKit.summaryParagraph,
-        targetAudienceSummary: patch.targetAudienceSummary ?? currentKit.targetAudienceSummary,
-        brandFoundation: patch.brandFoundation ?? currentKit.brandFoundation,
-      });
-    case 'messagingDirection':
-      return normalizeBrandKit({
-        ...currentKit,
-        toneOfVoice: patch.toneOfVoice ?? currentKit.toneOfVoice,
-        suggestedTagline: patch.suggestedTagline ?? currentKit.suggestedTagline,
-        messagingDirection: patch.messagingDirection ?? currentKit.messagingDirection,
-      });
-    case 'colorPaletteSuggestions':
-      return normalizeBrandKit({
-        ...currentKit,
-        colorPaletteSuggestions:
-          patch.colorPaletteSuggestions ?? currentKit.colorPaletteSuggestions,
-        fontPairing: patch.fontPairing ?? currentKit.fontPairing,
-      });
-    case 'logoDirection':
-      return normalizeBrandKit({
-        ...currentKit,
-        logoDirection: patch.logoDirection ?? currentKit.logoDirection,
-        logoPrompt: patch.logoPrompt ?? currentKit.logoPrompt,
-      });
-    case 'imageryDirection':
-      return normalizeBrandKit({
-        ...currentKit,
-        visualDirection: patch.visualDirection ?? currentKit.visualDirection,
-        imageryDirection: patch.imageryDirection ?? currentKit.imageryDirection,
-      });
-    default:
-      return normalizeBrandKit({
-        ...currentKit,
-        ...patch,
-      });
-  }
+  const nextKit: Partial<BrandKit> = { ...currentKit };
+
+  SECTION_REGEN_RULES[sectionId].fields.forEach((field) => {
+    if (patch[field] !== undefined && patch[field] !== null) {
+      (nextKit as Record<string, unknown>)[field] = patch[field];
+    }
+  });
+
+  return normalizeBrandKit(nextKit);
+};
+
+/**
+ * Builds one kit from several variant takes: everything starts from the base take, then each
+ * picked section is copied from the take chosen for it.
+ */
+export const composeBrandKitFromVariants = (
+  variants: BrandKit[],
+  baseIndex: number,
+  sectionPicks: Partial<Record<RegenerableKitSectionId, number>>
+): BrandKit =>
+  (Object.entries(sectionPicks) as Array<[RegenerableKitSectionId, number]>).reduce(
+    (kit, [sectionId, variantIndex]) =>
+      variants[variantIndex] && variantIndex !== baseIndex
+        ? mergeRegeneratedBrandKitSection(sectionId, kit, variants[variantIndex])
+        : kit,
+    normalizeBrandKit(variants[baseIndex])
+  );
+
+/**
+ * Metadata to save with composeBrandKitFromVariants: quality issues and palette corrections come
+ * from the take that supplied each field, so a mixed kit never reports another take's repairs.
+ * The section regeneration and carried-over locks that produced the takes are kept as well.
+ */
+export const composeVariantMetadata = (
+  variants: BrandResultMetadata[],
+  baseIndex: number,
+  sectionPicks: Partial<Record<RegenerableKitSectionId, number>>
+): Pick<BrandResultMetadata, 'qualityReport' | 'colorCorrections' | 'carriedOver' | 'sectionRegeneration'> => {
+  // Sections can share fields, so the last matching pick wins, as in composeBrandKitFromVariants
+  const getSourceIndex = (field: BrandKitFieldId) => {
+    const pick = (Object.entries(sectionPicks) as Array<[RegenerableKitSectionId, number]>)
+      .filter(
+        ([sectionId, variantIndex]) =>
+          variants[variantIndex] && variantIndex !== baseIndex && SECTION_REGEN_RULES[sectionId].fields.includes(field)
+      )
+      .pop();
+    return pick ? pick[1] : baseIndex;
+  };
+  const suppliesIssue = (issue: BrandKitValidationIssue, index: number) => {
+    const field = getIssueField(issue);
+    return (field ? getSourceIndex(field) : baseIndex) === index;
+  };
+
+  const sourceIndexes = Array.from(new Set(ALL_BRAND_KIT_FIELDS.map(getSourceIndex)));
+  const reports = sourceIndexes.flatMap((index) => {
+    const report = variants[index]?.qualityReport;
+    return report ? [{ index, report }] : [];
+  });
+  const colorCorrections = variants[getSourceIndex('colorPaletteSuggestions')]?.colorCorrections;
+
+  // Why the version exists: the base take first, then each take a section was picked from
+  const contributing = [baseIndex, ...sourceIndexes.filter((index) => index !== baseIndex)]
+    .map((index) => variants[index])
+    .filter(Boolean);
+  const sectionRegeneration = contributing.find((metadata) => metadata.sectionRegeneration)?.sectionRegeneration;
+  const carriedOverFrom = contributing.filter((metadata) => metadata.carriedOver);
+  const carriedOver = carriedOverFrom[0]?.carriedOver
+    ? {
+        fromResultId: carriedOverFrom[0].carriedOver.fromResultId,
+        sections: Array.from(new Set(carriedOverFrom.flatMap((metadata) => metadata.carriedOver?.sections || []))),
+      }
+    : undefined;
+
+  return {
+    ...(reports.length > 0
+      ? {
+          qualityReport: {
+            repairAttempts: Math.max(...reports.map(({ report }) => report.repairAttempts)),
+            defaultedSections: reports.flatMap(({ index, report }) =>
+              report.defaultedSections.filter((field) => getSourceIndex(field) === index)
+            ),
+            issues: reports.flatMap(({ index, report }) => report.issues.filter((issue) => suppliesIssue(issue, index))),
+          },
+        }
+      : {}),
+    ...(colorCorrections?.length ? { colorCorrections } : {}),
+    ...(carriedOver ? { carriedOver } : {}),
+    ...(sectionRegeneration ? { sectionRegeneration } : {}),
+  };
 };
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { BrandKit } from '../types';
+import { normalizeBrandKit } from './brandStrategy';
+import { TOKEN_EXPORT_FORMATS, TokenExportFormat, buildTokenExport } from './brandTokens';
+import { getTypographySystem } from './typographySystem';
+
+const kit = normalizeBrandKit({
+  colorPaletteSuggestions: [
+    { name: 'Sage', hex: '#8a9a5b', usage: 'Labels and packaging' },
+    { name: 'Terracotta', hex: '#C4663F', usage: 'Accents' },
+    { name: 'Oat', hex: 'E5D3B3', usage: 'Backgrounds' },
+  ],
+  fontPairing: { headlineFont: 'Fraunces', bodyFont: 'Inter (Regular)', note: 'Warm serif over a clean sans.' },
+} as Partial<BrandKit>);
+
+const answers = { typography: 'Classic serif', customColor1: '#1F3A5F', customColor2: '' };
+
+const withFonts = (headlineFont: string) =>
+  normalizeBrandKit({ ...kit, fontPairing: { ...kit.fontPairing, headlineFont } } as Partial<BrandKit>);
+
+describe('buildTokenExport', () => {
+  it.each<[TokenExportFormat, string]>([
+    ['w3c', 'juniper-goods.tokens.json'],
+    ['css', 'juniper-goods-tokens.css'],
+    ['tailwind', 'juniper-goods.tailwind.config.js'],
+    ['scss', '_juniper-goods-tokens.scss'],
+  ])('matches the golden %s output', async (format, fileName) => {
+    const file = buildTokenExport(format, kit, 'Juniper Goods', answers);
+
+    expect(file.fileName).toBe(fileName);
+    await expect(file.content).toMatchFileSnapshot(`./__fixtures__/brand-tokens/${fileName}`);
+  });
+
+  it('covers every listed format', () => {
+    expect(TOKEN_EXPORT_FORMATS.map(({ format }) => format)).toEqual(['w3c', 'css', 'tailwind', 'scss']);
+  });
+
+  it('emits letter-spacing as px dimensions with the em value kept in extensions', () => {
+    const tokens = JSON.parse(buildTokenExport('w3c', kit, 'Juniper Goods', answers).content);
+    const { heading, body, caps } = tokens.font.letterSpacing;
+    const { baseSize } = getTypographySystem(kit, answers);
+
+    for (const token of [heading, body, caps]) {
+      expect(token.$type).toBe('dimension');
+      expect(token.$value).toMatch(/^-?\d+(\.\d+)?px$/);
+      expect(parseFloat(token.$value)).toBeCloseTo(token.$extensions['brand.mosaic'].em * baseSize, 3);
+    }
+  });
+
+  // Quotes are already stripped by cleanFontFamily, so backslashes and "#{" are what is left to escape
+  it('escapes font names in CSS and SCSS strings', () => {
+    const hostile = withFonts('Evil\\ Sans #{$x}');
+
+    expect(buildTokenExport('css', hostile, 'Juniper Goods').content).toContain(
+      '--brand-font-heading: "Evil\\\\ Sans #\\{$x}", sans-serif;'
+    );
+    expect(buildTokenExport('scss', hostile, 'Juniper Goods').content).toContain(
+      '$brand-font-heading: "Evil\\\\ Sans #\\{$x}", sans-serif;'
+    );
+  });
+
+  it('escapes font names in the Tailwind config', () => {
+    const content = buildTokenExport('tailwind', withFonts('Evil\\ Sans'), 'Juniper Goods').content;
+
+    expect(content).toContain("heading: ['Evil\\\\ Sans', 'sans-serif'],");
+  });
+
+  it('quotes keyword-like family names', () => {
+    expect(buildTokenExport('css', withFonts('Inherit'), 'Juniper Goods').content).toContain(
+      '--brand-font-heading: "Inherit", sans-serif;'
+    );
+  });
+});
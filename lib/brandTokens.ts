@@ -0,0 +1,432 @@
+import type { BrandKit, BrandTypographySystem } from '../types.ts';
+import { CustomColorAnswers, getPickedCustomColors } from './colorParser.ts';
+import { SemanticColor, TonalScale, buildBrandColorSystem } from './colorScales.ts';
+import {
+  TypographyAnswers,
+  TypographyLevel,
+  buildTypographyLevels,
+  formatEm,
+  getTypographySystem,
+} from './typographySystem.ts';
+
+export type TokenExportFormat = 'w3c' | 'css' | 'tailwind' | 'scss';
+
+// Questionnaire answers the exports read: custom colors, plus what kits without a stored
+// typography system derive one from
+export type TokenAnswers = CustomColorAnswers & TypographyAnswers;
+
+export interface TokenExportFile {
+  format: TokenExportFormat;
+  fileName: string;
+  mimeType: string;
+  content: string;
+}
+
+export interface BrandColorToken {
+  /** Stable identifier used in variable names: primary, secondary, accent, support, support-2, custom-1, ... */
+  key: string;
+  role: string;
+  name: string;
+  hex: string;
+  usage: string;
+}
+
+export interface BrandFontToken {
+  key: 'heading' | 'body';
+  family: string;
+  stack: string[];
+}
+
+export interface BrandTokenSet {
+  brandName: string;
+  colors: BrandColorToken[];
+  /** 50–950 ramps for every color above, followed by the derived neutral and status ramps */
+  scales: TonalScale[];
+  semantic: SemanticColor[];
+  fonts: BrandFontToken[];
+  typography: BrandTypographySystem;
+  /** Modular scale levels from display down to caption */
+  typeScale: TypographyLevel[];
+  note: string;
+}
+
+export const PALETTE_ROLES = ['Primary', 'Secondary', 'Accent', 'Support'] as const;
+
+export const TOKEN_EXPORT_FORMATS: Array<{ format: TokenExportFormat; label: string }> = [
+  { format: 'w3c', label: 'Design Tokens JSON' },
+  { format: 'css', label: 'CSS variables' },
+  { format: 'tailwind', label: 'Tailwind config' },
+  { format: 'scss', label: 'SCSS variables' },
+];
+
+/** Palette role by position, matching how the workbook and the print export label swatches. */
+export const getPaletteRole = (index: number) => PALETTE_ROLES[index] || 'Support';
+
+export const normalizeHex = (value: string) => {
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return null;
+
+  const digits = match[1].length === 3 ? match[1].replace(/./g, '$&$&') : match[1];
+  return `#${digits.toUpperCase()}`;
+};
+
+const SERIF_HINTS = /\b(serif|garamond|playfair|baskerville|georgia|times|merriweather|lora|caslon|bodoni|didot|fraunces|crimson|spectral|cormorant|libre caslon|dm serif)\b/i;
+const MONO_HINTS = /\b(mono|code|courier|consolas)\b/i;
+const SCRIPT_HINTS = /\b(script|hand|brush|pacifico|caveat|dancing)\b/i;
+
+export const getGenericFamily = (family: string) => {
+  if (MONO_HINTS.test(family)) return 'monospace';
+  if (/\bsans\b/i.test(family)) return 'sans-serif';
+  if (SERIF_HINTS.test(family)) return 'serif';
+  if (SCRIPT_HINTS.test(family)) return 'cursive';
+  return 'sans-serif';
+};
+
+// Font suggestions sometimes arrive as "Inter (Regular)" or "Playfair Display, serif".
+export const cleanFontFamily = (value: string) => value.split(/[,(]/)[0].replace(/["']/g, '').trim();
+
+const buildFontToken = (key: BrandFontToken['key'], rawFamily: string | undefined): BrandFontToken | null => {
+  const family = cleanFontFamily(rawFamily || '');
+  if (!family) return null;
+
+  return { key, family, stack: [family, getGenericFamily(family)] };
+};
+
+const toColorKey = (index: number, supportIndex: number) =>
+  index < PALETTE_ROLES.length - 1
+    ? PALETTE_ROLES[index].toLowerCase()
+    : supportIndex === 1
+      ? 'support'
+      : `support-${supportIndex}`;
+
+const readCustomColors = (answers: CustomColorAnswers | undefined, paletteHexes: string[]) =>
+  getPickedCustomColors(answers)
+    .filter((color) => !paletteHexes.includes(color.hex))
+    .map((color) => ({ key: color.key, role: 'Custom', name: color.label, hex: color.hex, usage: '' }));
+
+/**
+ * Reads the palette, font pairing, and typography system out of a saved kit, plus the
+ * questionnaire's custom colors when answers are passed. Colors without a usable hex value are
+ * dropped rather than guessed, so the generated code never contains an invalid color.
+ */
+export const buildBrandTokenSet = (kit: BrandKit, brandName: string, answers?: TokenAnswers): BrandTokenSet => {
+  let supportIndex = 0;
+  const paletteColors = kit.colorPaletteSuggestions.flatMap((color, index) => {
+    const hex = normalizeHex(color.hex || '');
+    if (!hex) return [];
+
+    if (index >= PALETTE_ROLES.length - 1) supportIndex += 1;
+
+    return [
+      {
+        key: toColorKey(index, supportIndex),
+        role: getPaletteRole(index),
+        name: color.name || getPaletteRole(index),
+        hex,
+        usage: color.usage || '',
+      },
+    ];
+  });
+
+  const colors = [
+    ...paletteColors,
+    ...readCustomColors(answers, paletteColors.map((color) => color.hex)),
+  ];
+  const { scales, semantic } = buildBrandColorSystem(
+    colors.map((color) => ({ key: color.key, label: color.name, hex: color.hex }))
+  );
+
+  const fonts = [
+    buildFontToken('heading', kit.fontPairing?.headlineFont),
+    buildFontToken('body', kit.fontPairing?.bodyFont),
+  ].filter((font): font is BrandFontToken => Boolean(font));
+  const typography = getTypographySystem(kit, answers);
+
+  return {
+    brandName,
+    colors,
+    scales,
+    semantic,
+    fonts,
+    typography,
+    typeScale: buildTypographyLevels(typography),
+    note: kit.fontPairing?.note || '',
+  };
+};
+
+export const toFileSlug = (value: string) =>
+  value
+    .toLowerCase()
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'brand';
+
+// Named families are always quoted: unquoted names can collide with keywords like "inherit". Escaping "{"
+// keeps SCSS from reading "#{" as interpolation and is a no-op in plain CSS.
+const quoteFamily = (family: string) => `"${family.replace(/\s+/g, ' ').replace(/[\\"{]/g, '\\$&')}"`;
+
+const toJsString = (value: string) => `'${value.replace(/\s+/g, ' ').replace(/[\\']/g, '\\$&')}'`;
+
+// The last entry is the generic family keyword from getGenericFamily
+const toCssStack = (font: BrandFontToken) =>
+  font.stack.map((family, index) => (index === font.stack.length - 1 ? family : quoteFamily(family))).join(', ');
+
+const commentSafe = (value: string) => value.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim();
+
+// Font sizes are exported in rem against the browser default, not the brand base size
+const toRem = (px: number) => `${Number((px / 16).toFixed(4))}rem`;
+
+// Spacing tokens are named by their multiple of the unit: 0-5 for half a unit, 1, 1-5, 2, ...
+const toSpaceKey = (value: number, unit: number) => String(Number((value / unit).toFixed(2))).replace('.', '-');
+
+// System scales take the step their semantic role points at as the default shade
+const getScaleDefault = (tokens: BrandTokenSet, scale: TonalScale) =>
+  tokens.semantic.find((color) => color.role === scale.key)?.hex || scale.baseHex;
+
+// Design Tokens dimensions only allow px and rem, so em tracking is resolved against the base size
+const toLetterSpacingToken = (em: number, baseSize: number) => ({
+  $type: 'dimension',
+  $value: `${Number((em * baseSize).toFixed(3))}px`,
+  $extensions: { 'brand.mosaic': { em } },
+});
+
+const buildW3cTokens = (tokens: BrandTokenSet) => {
+  const color = Object.fromEntries(
+    tokens.colors.map((token) => [
+      token.key,
+      {
+        $type: 'color',
+        $value: token.hex,
+        $description: [token.name, token.usage].filter(Boolean).join(' — '),
+        $extensions: { 'brand.mosaic': { role: token.role, name: token.name } },
+      },
+    ])
+  );
+
+  const scale = Object.fromEntries(
+    tokens.scales.map((entry) => [
+      entry.key,
+      Object.fromEntries(entry.steps.map(({ step, hex }) => [String(step), { $type: 'color', $value: hex }])),
+    ])
+  );
+
+  const semantic = Object.fromEntries(
+    tokens.semantic.map((entry) => [
+      entry.role,
+      { $type: 'color', $value: `{color.scale.${entry.scaleKey}.${entry.step}}` },
+    ])
+  );
+
+  const fontFamily = Object.fromEntries(
+    tokens.fonts.map((font) => [font.key, { $type: 'fontFamily', $value: font.stack }])
+  );
+
+  const { typography } = tokens;
+  const fontSize = Object.fromEntries(
+    tokens.typeScale.map((level) => [level.id, { $type: 'dimension', $value: `${level.size}px` }])
+  );
+  const space = Object.fromEntries(
+    typography.spacingScale.map((value) => [
+      toSpaceKey(value, typography.spacingUnit),
+      { $type: 'dimension', $value: `${value}px` },
+    ])
+  );
+
+  return `${JSON.stringify(
+    {
+      $description: `${tokens.brandName} brand tokens exported from Brand Mosaic`,
+      color: { ...color, scale, semantic },
+      font: {
+        family: fontFamily,
+        size: {
+          ...fontSize,
+          $description: `${typography.scaleName} scale (${typography.scaleRatio}) on a ${typography.baseSize}px base`,
+        },
+        lineHeight: {
+          heading: { $type: 'number', $value: typography.lineHeights.heading },
+          body: { $type: 'number', $value: typography.lineHeights.body },
+        },
+        letterSpacing: {
+          $description: `px at the ${typography.baseSize}px base size; the em value in $extensions scales with the text`,
+          heading: toLetterSpacingToken(typography.letterSpacing.heading, typography.baseSize),
+          body: toLetterSpacingToken(typography.letterSpacing.body, typography.baseSize),
+          caps: toLetterSpacingToken(typography.letterSpacing.caps, typography.baseSize),
+        },
+      },
+      space,
+    },
+    null,
+    2
+  )}\n`;
+};
+
+const buildCssVariables = (tokens: BrandTokenSet) => {
+  const lines = [
+    `/* ${commentSafe(tokens.brandName)} brand tokens exported from Brand Mosaic */`,
+    ':root {',
+    ...tokens.colors.map(
+      (token) => `  --brand-color-${token.key}: ${token.hex}; /* ${commentSafe(`${token.role}: ${token.name}`)} */`
+    ),
+    ...tokens.fonts.map((font) => `  --brand-font-${font.key}: ${toCssStack(font)};`),
+    '',
+    `  /* Type scale: ${tokens.typography.scaleName} (${tokens.typography.scaleRatio}) on a ${tokens.typography.baseSize}px base */`,
+    ...tokens.typeScale.map(
+      (level) => `  --brand-font-size-${level.id}: ${toRem(level.size)}; /* ${level.size}px */`
+    ),
+    `  --brand-line-height-heading: ${tokens.typography.lineHeights.heading};`,
+    `  --brand-line-height-body: ${tokens.typography.lineHeights.body};`,
+    `  --brand-letter-spacing-heading: ${formatEm(tokens.typography.letterSpacing.heading)};`,
+    `  --brand-letter-spacing-body: ${formatEm(tokens.typography.letterSpacing.body)};`,
+    `  --brand-letter-spacing-caps: ${formatEm(tokens.typography.letterSpacing.caps)};`,
+    '',
+    '  /* Spacing */',
+    ...tokens.typography.spacingScale.map(
+      (value) => `  --brand-space-${toSpaceKey(value, tokens.typography.spacingUnit)}: ${value}px;`
+    ),
+    '',
+    '  /* Tonal scales */',
+    ...tokens.scales.flatMap((scale) =>
+      scale.steps.map(({ step, hex }) => `  --brand-color-${scale.key}-${step}: ${hex};`)
+    ),
+    '',
+    '  /* Semantic roles */',
+    ...tokens.semantic.map(
+      (entry) => `  --brand-color-${entry.role}: var(--brand-color-${entry.scaleKey}-${entry.step});`
+    ),
+    '}',
+  ];
+
+  return `${lines.join('\n')}\n`;
+};
+
+const buildTailwindConfig = (tokens: BrandTokenSet) => {
+  const colors = tokens.scales.flatMap((scale) => [
+    `          '${scale.key}': {`,
+    `            DEFAULT: '${getScaleDefault(tokens, scale)}',`,
+    ...scale.steps.map(({ step, hex }) => `            ${step}: '${hex}',`),
+    '          },',
+  ]);
+  const semantic = tokens.semantic
+    .filter((entry) => !tokens.scales.some((scale) => scale.key === entry.role))
+    .map((entry) => `          '${entry.role}': '${entry.hex}',`);
+  const fonts = tokens.fonts.map((font) => `        ${font.key}: [${font.stack.map(toJsString).join(', ')}],`);
+  const fontSizes = tokens.typeScale.map(
+    (level) =>
+      `        'brand-${level.id}': ['${toRem(level.size)}', { lineHeight: '${level.lineHeight}', letterSpacing: '${formatEm(level.letterSpacing)}' }],`
+  );
+  const spacing = tokens.typography.spacingScale.map(
+    (value) => `        'brand-${toSpaceKey(value, tokens.typography.spacingUnit)}': '${value}px',`
+  );
+
+  return `${[
+    `// ${tokens.brandName.replace(/\s+/g, ' ')} brand tokens exported from Brand Mosaic`,
+    "/** @type {import('tailwindcss').Config} */",
+    'export default {',
+    '  theme: {',
+    '    extend: {',
+    '      colors: {',
+    '        brand: {',
+    ...colors,
+    ...semantic,
+    '        },',
+    '      },',
+    '      fontFamily: {',
+    ...fonts,
+    '      },',
+    '      fontSize: {',
+    ...fontSizes,
+    '      },',
+    '      letterSpacing: {',
+    `        'brand-caps': '${formatEm(tokens.typography.letterSpacing.caps)}',`,
+    '      },',
+    '      spacing: {',
+    ...spacing,
+    '      },',
+    '    },',
+    '  },',
+    '};',
+  ].join('\n')}\n`;
+};
+
+const buildScssVariables = (tokens: BrandTokenSet) => {
+  const lines = [
+    `// ${tokens.brandName.replace(/\s+/g, ' ')} brand tokens exported from Brand Mosaic`,
+    '',
+    ...tokens.colors.map((token) => `$brand-color-${token.key}: ${token.hex}; // ${token.role}: ${token.name}`),
+    ...tokens.fonts.map((font) => `$brand-font-${font.key}: ${toCssStack(font)};`),
+    '',
+    `// Type scale: ${tokens.typography.scaleName} (${tokens.typography.scaleRatio}) on a ${tokens.typography.baseSize}px base`,
+    ...tokens.typeScale.map(
+      (level) => `$brand-font-size-${level.id}: ${toRem(level.size)}; // ${level.size}px`
+    ),
+    `$brand-line-height-heading: ${tokens.typography.lineHeights.heading};`,
+    `$brand-line-height-body: ${tokens.typography.lineHeights.body};`,
+    `$brand-letter-spacing-heading: ${formatEm(tokens.typography.letterSpacing.heading)};`,
+    `$brand-letter-spacing-body: ${formatEm(tokens.typography.letterSpacing.body)};`,
+    `$brand-letter-spacing-caps: ${formatEm(tokens.typography.letterSpacing.caps)};`,
+    '',
+    '// Spacing',
+    ...tokens.typography.spacingScale.map(
+      (value) => `$brand-space-${toSpaceKey(value, tokens.typography.spacingUnit)}: ${value}px;`
+    ),
+    '',
+    '// Tonal scales',
+    ...tokens.scales.flatMap((scale) => scale.steps.map(({ step, hex }) => `$brand-color-${scale.key}-${step}: ${hex};`)),
+    '',
+    '// Semantic roles',
+    ...tokens.semantic.map((entry) => `$brand-color-${entry.role}: $brand-color-${entry.scaleKey}-${entry.step};`),
+    '',
+    '$brand-colors: (',
+    ...tokens.colors.map((token) => `  '${token.key}': $brand-color-${token.key},`),
+    ...tokens.semantic.map((entry) => `  '${entry.role}': $brand-color-${entry.role},`),
+    ');',
+    '',
+    '$brand-color-scales: (',
+    ...tokens.scales.flatMap((scale) => [
+      `  '${scale.key}': (`,
+      ...scale.steps.map(({ step }) => `    ${step}: $brand-color-${scale.key}-${step},`),
+      '  ),',
+    ]),
+    ');',
+    '',
+    '$brand-font-sizes: (',
+    ...tokens.typeScale.map((level) => `  '${level.id}': $brand-font-size-${level.id},`),
+    ');',
+    '',
+    '$brand-spacing: (',
+    ...tokens.typography.spacingScale.map((value) => {
+      const key = toSpaceKey(value, tokens.typography.spacingUnit);
+      return `  '${key}': $brand-space-${key},`;
+    }),
+    ');',
+  ];
+
+  return `${lines.join('\n')}\n`;
+};
+
+const TOKEN_FILE_SPECS: Record<
+  TokenExportFormat,
+  { fileName: (slug: string) => string; mimeType: string; build: (tokens: BrandTokenSet) => string }
+> = {
+  w3c: { fileName: (slug) => `${slug}.tokens.json`, mimeType: 'application/json', build: buildW3cTokens },
+  css: { fileName: (slug) => `${slug}-tokens.css`, mimeType: 'text/css', build: buildCssVariables },
+  tailwind: { fileName: (slug) => `${slug}.tailwind.config.js`, mimeType: 'text/javascript', build: buildTailwindConfig },
+  scss: { fileName: (slug) => `_${slug}-tokens.scss`, mimeType: 'text/x-scss', build: buildScssVariables },
+};
+
+export const buildTokenExport = (
+  format: TokenExportFormat,
+  kit: BrandKit,
+  brandName: string,
+  answers?: TokenAnswers
+): TokenExportFile => {
+  const spec = TOKEN_FILE_SPECS[format];
+
+  return {
+    format,
+    fileName: spec.fileName(toFileSlug(brandName)),
+    mimeType: spec.mimeType,
+    content: spec.build(buildBrandTokenSet(kit, brandName, answers)),
+  };
+};
+
@@ -129,6 +129,31 @@ export const getProjectBrandName = (formData: BrandFormData) => {
   return 'New Brand Workbook';
 };
 
+/** Labeled questionnaire answers for export recaps, skipping anything left blank. */
+export const getWorkbookRecapItems = (formData: BrandFormData): Array<[string, string]> =>
+  ([
+    ['Brand name', formData.brandName],
+    ['Offering', formData.offering],
+    ['Purpose', formData.purpose],
+    ['Problem solved', formData.problem],
+    ['Audience', formData.audience.join(', ')],
+    ['Customer priorities', formData.customerCare],
+    ['Tone', formData.tone.join(', ')],
+    ['Feeling', formData.feeling],
+    ['Adjectives', formData.adjectives],
+    ['Palette', [formData.palette, formData.customPalette].filter(Boolean).join(' / ')],
+    ['Visual vibe', [...formData.vibe, formData.customVibe || ''].filter(Boolean).join(', ')],
+    ['Mood keywords', formData.moodBoardKeywords],
+    ['Typography', [formData.typography, formData.customFont].filter(Boolean).join(' / ')],
+    ['Differentiation', formData.differentiation],
+    ['Competitors', formData.competitors],
+    ['Tagline input', formData.tagline],
+    ['Logo preference', [formData.logoExists, formData.logoPreference].filter(Boolean).join(' / ')],
+    ['Fashion cue', formData.fashion],
+    ['Soundtrack cue', formData.soundtrack],
+    ['Inspiration', formData.inspiration],
+  ] as Array<[string, string]>).filter(([, value]) => value && value.trim().length > 0);
+
 export const getWorkbookProgress = (formData: BrandFormData) => {
   const answeredCount = PROJECT_PROGRESS_KEYS.reduce(
     (count, key) => count + (isMeaningfulAnswer(formData[key]) ? 1 : 0),
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import type { BrandKit } from '../types';
+import { validateBrandKit } from './brandKitSchema';
+import { normalizeBrandKit } from './brandStrategy';
+import { defaultBrandFormData } from './brandWorkbook';
+import { parseColor, repairGeneratedPalette, repairPaletteColors } from './colorParser';
+
+const formData = { ...defaultBrandFormData, palette: 'Sand + Terracotta' };
+
+describe('parseColor', () => {
+  it('canonicalizes loose codes and CSS names', () => {
+    expect(parseColor('#e5d3b3ish')).toBe('#E5D3B3');
+    expect(parseColor('rgb(229, 211, 179)')).toBe('#E5D3B3');
+    expect(parseColor('navy')).toBe('#000080');
+    expect(parseColor('navy-ish')).toBeNull();
+  });
+});
+
+describe('repairGeneratedPalette', () => {
+  const raw = {
+    colorPaletteSuggestions: [
+      { name: 'Warm Sand', hex: '', usage: 'Backgrounds' },
+      { name: 'Navy', hex: 'navy-ish', usage: 'Text' },
+      { name: 'Terracotta', hex: '#C4663F', usage: 'Accents' },
+    ],
+  };
+
+  it('repairs colors before validation so they do not count as schema failures', () => {
+    expect(validateBrandKit(raw, ['colorPaletteSuggestions'])).toHaveLength(2);
+
+    const { result } = repairGeneratedPalette(raw, formData, ['colorPaletteSuggestions']);
+    expect(validateBrandKit(result, ['colorPaletteSuggestions'])).toEqual([]);
+  });
+
+  it('saves a name-only color with a colorCorrections entry', () => {
+    const { result, corrections } = repairGeneratedPalette(raw, formData, ['colorPaletteSuggestions']);
+    const kit = normalizeBrandKit(result as Partial<BrandKit>);
+
+    expect(kit.colorPaletteSuggestions.map((color) => color.hex)).toEqual(['#E5D3B3', '#000080', '#C4663F']);
+    expect(corrections).toEqual([
+      expect.objectContaining({ name: 'Warm Sand', original: '', corrected: '#E5D3B3', method: 'fallback' }),
+      expect.objectContaining({ name: 'Navy', original: 'navy-ish', corrected: '#000080', method: 'name' }),
+    ]);
+  });
+
+  it('leaves output without a requested palette alone', () => {
+    expect(repairGeneratedPalette(raw, formData, ['fontPairing'])).toEqual({ result: raw, corrections: [] });
+  });
+});
+
+describe('repairPaletteColors', () => {
+  it('approximates from color words when the questionnaire has no colors', () => {
+    const { corrections } = repairPaletteColors([{ name: 'Sage', hex: 'TBD', usage: '' }], defaultBrandFormData);
+
+    expect(corrections[0]).toMatchObject({ method: 'approximated' });
+    expect(corrections[0].corrected).toMatch(/^#[0-9A-F]{6}$/);
+  });
+
+  it('marks colors nothing can recover as unresolved', () => {
+    const { corrections } = repairPaletteColors([{ name: 'Mystery', hex: '???', usage: '' }], defaultBrandFormData);
+
+    expect(corrections).toEqual([{ name: 'Mystery', original: '???', corrected: null, method: 'unresolved' }]);
+  });
+});
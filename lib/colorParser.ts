@@ -0,0 +1,291 @@
+/**
+ * Color Parser
+ * Turns whatever a model writes in a palette slot ("Warm Sand (#E5D3B3ish)", "rgb(229, 211, 179)",
+ * "hsl(38 48% 80%)", "navy") into canonical #RRGGBB. When nothing can be recovered, the closest
+ * color from the founder's own palette answers stands in, and every change is reported so the
+ * result page can show what was corrected.
+ */
+
+import type { BrandFormData, PaletteColorCorrection } from '../types.ts';
+import type { BrandKitFieldId } from './brandKitSchema.ts';
+import { defaultBrandFormData } from './brandWorkbook.ts';
+import { getColorDistance } from './colorScales.ts';
+
+export const MAX_PALETTE_COLORS = 4;
+
+export interface UserPaletteColor {
+  hex: string;
+  source: string;
+}
+
+export interface PickedCustomColor {
+  key: string;
+  label: string;
+  hex: string;
+}
+
+export type CustomColorAnswers = Pick<BrandFormData, 'customColor1' | 'customColor2'>;
+
+interface RawPaletteColor {
+  name: string;
+  hex: string;
+  usage: string;
+}
+
+// CSS Color Module Level 4 named colors
+const CSS_NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#F0F8FF', antiquewhite: '#FAEBD7', aqua: '#00FFFF', aquamarine: '#7FFFD4', azure: '#F0FFFF',
+  beige: '#F5F5DC', bisque: '#FFE4C4', black: '#000000', blanchedalmond: '#FFEBCD', blue: '#0000FF',
+  blueviolet: '#8A2BE2', brown: '#A52A2A', burlywood: '#DEB887', cadetblue: '#5F9EA0', chartreuse: '#7FFF00',
+  chocolate: '#D2691E', coral: '#FF7F50', cornflowerblue: '#6495ED', cornsilk: '#FFF8DC', crimson: '#DC143C',
+  cyan: '#00FFFF', darkblue: '#00008B', darkcyan: '#008B8B', darkgoldenrod: '#B8860B', darkgray: '#A9A9A9',
+  darkgreen: '#006400', darkgrey: '#A9A9A9', darkkhaki: '#BDB76B', darkmagenta: '#8B008B',
+  darkolivegreen: '#556B2F', darkorange: '#FF8C00', darkorchid: '#9932CC', darkred: '#8B0000',
+  darksalmon: '#E9967A', darkseagreen: '#8FBC8F', darkslateblue: '#483D8B', darkslategray: '#2F4F4F',
+  darkslategrey: '#2F4F4F', darkturquoise: '#00CED1', darkviolet: '#9400D3', deeppink: '#FF1493',
+  deepskyblue: '#00BFFF', dimgray: '#696969', dimgrey: '#696969', dodgerblue: '#1E90FF', firebrick: '#B22222',
+  floralwhite: '#FFFAF0', forestgreen: '#228B22', fuchsia: '#FF00FF', gainsboro: '#DCDCDC', ghostwhite: '#F8F8FF',
+  gold: '#FFD700', goldenrod: '#DAA520', gray: '#808080', green: '#008000', greenyellow: '#ADFF2F',
+  grey: '#808080', honeydew: '#F0FFF0', hotpink: '#FF69B4', indianred: '#CD5C5C', indigo: '#4B0082',
+  ivory: '#FFFFF0', khaki: '#F0E68C', lavender: '#E6E6FA', lavenderblush: '#FFF0F5', lawngreen: '#7CFC00',
+  lemonchiffon: '#FFFACD', lightblue: '#ADD8E6', lightcoral: '#F08080', lightcyan: '#E0FFFF',
+  lightgoldenrodyellow: '#FAFAD2', lightgray: '#D3D3D3', lightgreen: '#90EE90', lightgrey: '#D3D3D3',
+  lightpink: '#FFB6C1', lightsalmon: '#FFA07A', lightseagreen: '#20B2AA', lightskyblue: '#87CEFA',
+  lightslategray: '#778899', lightslategrey: '#778899', lightsteelblue: '#B0C4DE', lightyellow: '#FFFFE0',
+  lime: '#00FF00', limegreen: '#32CD32', linen: '#FAF0E6', magenta: '#FF00FF', maroon: '#800000',
+  mediumaquamarine: '#66CDAA', mediumblue: '#0000CD', mediumorchid: '#BA55D3', mediumpurple: '#9370DB',
+  mediumseagreen: '#3CB371', mediumslateblue: '#7B68EE', mediumspringgreen: '#00FA9A',
+  mediumturquoise: '#48D1CC', mediumvioletred: '#C71585', midnightblue: '#191970', mintcream: '#F5FFFA',
+  mistyrose: '#FFE4E1', moccasin: '#FFE4B5', navajowhite: '#FFDEAD', navy: '#000080', oldlace: '#FDF5E6',
+  olive: '#808000', olivedrab: '#6B8E23', orange: '#FFA500', orangered: '#FF4500', orchid: '#DA70D6',
+  palegoldenrod: '#EEE8AA', palegreen: '#98FB98', paleturquoise: '#AFEEEE', palevioletred: '#DB7093',
+  papayawhip: '#FFEFD5', peachpuff: '#FFDAB9', peru: '#CD853F', pink: '#FFC0CB', plum: '#DDA0DD',
+  powderblue: '#B0E0E6', purple: '#800080', rebeccapurple: '#663399', red: '#FF0000', rosybrown: '#BC8F8F',
+  royalblue: '#4169E1', saddlebrown: '#8B4513', salmon: '#FA8072', sandybrown: '#F4A460', seagreen: '#2E8B57',
+  seashell: '#FFF5EE', sienna: '#A0522D', silver: '#C0C0C0', skyblue: '#87CEEB', slateblue: '#6A5ACD',
+  slategray: '#708090', slategrey: '#708090', snow: '#FFFAFA', springgreen: '#00FF7F', steelblue: '#4682B4',
+  tan: '#D2B48C', teal: '#008080', thistle: '#D8BFD8', tomato: '#FF6347', turquoise: '#40E0D0',
+  violet: '#EE82EE', wheat: '#F5DEB3', white: '#FFFFFF', whitesmoke: '#F5F5F5', yellow: '#FFFF00',
+  yellowgreen: '#9ACD32',
+};
+
+// Palette words models use that are not CSS names; only used to rank fallbacks, never as output
+const COLOR_WORD_HINTS: Record<string, string> = {
+  blush: '#F1C6C2', bone: '#E3DAC9', charcoal: '#36454F', clay: '#B5735A', cream: '#F3E9D2',
+  ice: '#DDEEF6', ink: '#1B1F3B', milk: '#F7F3EA', mint: '#A8E6CF', moss: '#8A9A5B', mustard: '#E1AD01',
+  neon: '#39FF14', ocean: '#1D6A96', ochre: '#CC7722', rust: '#B7410E', sage: '#9CAF88', sand: '#E5D3B3',
+  slate: '#5A6270', stone: '#A8A29E', terracotta: '#C8694A',
+};
+
+// Swatches behind the palette presets offered in the questionnaire's visual section
+const PALETTE_PRESET_COLORS: Record<string, string[]> = {
+  'Milk + Charcoal': ['#F7F3EA', '#36454F'],
+  'Sand + Terracotta': ['#E5D3B3', '#C8694A'],
+  'Navy + Ice': ['#1F2F4F', '#DDEEF6'],
+  'Forest + Clay': ['#2F4A3A', '#B5735A'],
+  'Black + Neon': ['#0B0B0B', '#39FF14'],
+  Pastels: ['#F8C8DC', '#C9E4DE', '#FCE1A8', '#C6D8F0'],
+  Monochrome: ['#111111', '#F2F2F2'],
+};
+
+const BARE_HEX = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const HEX_IN_TEXT = /#([0-9a-f]{8}|[0-9a-f]{6}|[0-9a-f]{4}|[0-9a-f]{3})(?![0-9a-f])/gi;
+const RGB_IN_TEXT = /rgba?\(([^)]*)\)/gi;
+const HSL_IN_TEXT = /hsla?\(([^)]*)\)/gi;
+
+const toHex = (channels: number[]) =>
+  `#${channels
+    .map((channel) => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()}`;
+
+const fromHexDigits = (digits: string) => {
+  const expanded = digits.length <= 4 ? digits.replace(/./g, '$&$&') : digits;
+  // Alpha is dropped: palette colors are always opaque
+  return `#${expanded.slice(0, 6).toUpperCase()}`;
+};
+
+const splitArguments = (value: string) => value.split(/[\s,/]+/).filter(Boolean);
+
+const fromRgbArguments = (value: string) => {
+  const channels = splitArguments(value)
+    .slice(0, 3)
+    .map((part) => (part.endsWith('%') ? Number.parseFloat(part) * 2.55 : Number.parseFloat(part)));
+
+  return channels.length === 3 && channels.every(Number.isFinite) ? toHex(channels) : null;
+};
+
+const parseHue = (value: string) => {
+  const amount = Number.parseFloat(value);
+  if (value.endsWith('turn')) return amount * 360;
+  if (value.endsWith('rad')) return (amount * 180) / Math.PI;
+  return amount;
+};
+
+const fromHslArguments = (value: string) => {
+  const [hue, saturation, lightness] = splitArguments(value);
+  const h = ((parseHue(hue || '') % 360) + 360) % 360;
+  const s = Math.min(100, Math.max(0, Number.parseFloat(saturation || ''))) / 100;
+  const l = Math.min(100, Math.max(0, Number.parseFloat(lightness || ''))) / 100;
+  if (![h, s, l].every(Number.isFinite)) return null;
+
+  const amount = s * Math.min(l, 1 - l);
+  const channel = (offset: number) => {
+    const k = (offset + h / 30) % 12;
+    return 255 * (l - amount * Math.max(-1, Math.min(k - 3, 9 - k, 1)));
+  };
+
+  return toHex([channel(0), channel(8), channel(4)]);
+};
+
+const findFunctionalColors = (text: string) =>
+  [
+    ...Array.from(text.matchAll(HEX_IN_TEXT), (match) => ({ at: match.index || 0, hex: fromHexDigits(match[1]) })),
+    ...Array.from(text.matchAll(RGB_IN_TEXT), (match) => ({ at: match.index || 0, hex: fromRgbArguments(match[1]) })),
+    ...Array.from(text.matchAll(HSL_IN_TEXT), (match) => ({ at: match.index || 0, hex: fromHslArguments(match[1]) })),
+  ]
+    .filter((found): found is { at: number; hex: string } => Boolean(found.hex))
+    .sort((a, b) => a.at - b.at)
+    .map((found) => found.hex);
+
+const lookupName = (words: string[], dictionary: Record<string, string>) => dictionary[words.join('')] || null;
+
+// Longest run of up to three words that names a color, scanning left to right
+const findNamedColors = (text: string, dictionary: Record<string, string>) => {
+  const words = text.toLowerCase().match(/[a-z]+/g) || [];
+  const found: string[] = [];
+
+  for (let start = 0; start < words.length; start += 1) {
+    for (let length = Math.min(3, words.length - start); length > 0; length -= 1) {
+      const hex = lookupName(words.slice(start, start + length), dictionary);
+      if (hex) {
+        found.push(hex);
+        start += length - 1;
+        break;
+      }
+    }
+  }
+
+  return found;
+};
+
+/**
+ * Reads one color value: plain hex with or without '#', a hex/rgb()/hsl() code anywhere in the
+ * text, or a CSS color name that makes up the whole value. Returns #RRGGBB or null.
+ */
+export const parseColor = (value: string) => {
+  const text = value.trim();
+  const bare = text.match(BARE_HEX);
+  if (bare) return fromHexDigits(bare[1]);
+
+  const [functional] = findFunctionalColors(text);
+  if (functional) return functional;
+
+  return lookupName(text.toLowerCase().match(/[a-z]+/g) || [], CSS_NAMED_COLORS);
+};
+
+/** Every color mentioned in free text, codes first, then CSS names in reading order. */
+export const extractColors = (text: string) =>
+  Array.from(new Set([...findFunctionalColors(text), ...findNamedColors(text, CSS_NAMED_COLORS)]));
+
+/** Custom picker colors the founder actually changed; the picker starts at black and white. */
+export const getPickedCustomColors = (answers?: CustomColorAnswers): PickedCustomColor[] =>
+  (['customColor1', 'customColor2'] as const).flatMap((field, index) => {
+    const hex = parseColor(answers?.[field] || '');
+    if (!hex || hex === parseColor(defaultBrandFormData[field] || '')) return [];
+
+    return [{ key: `custom-${index + 1}`, label: `Custom color ${index + 1}`, hex }];
+  });
+
+/** Colors named in the questionnaire: the palette preset, the custom palette note, and picked colors. */
+export const getUserPaletteColors = (formData: BrandFormData): UserPaletteColor[] => {
+  const colors = [
+    ...(PALETTE_PRESET_COLORS[formData.palette] || []).map((hex) => ({ hex, source: `Palette answer: ${formData.palette}` })),
+    ...extractColors(formData.customPalette || '').map((hex) => ({ hex, source: 'Custom palette note' })),
+    ...getPickedCustomColors(formData).map((color) => ({ hex: color.hex, source: color.label })),
+  ];
+
+  return colors.filter((color, index) => colors.findIndex((entry) => entry.hex === color.hex) === index);
+};
+
+const readText = (value: unknown) => (typeof value === 'string' ? value.replace(/\s+/g, ' ').trim() : '');
+
+const pickFallback = (color: RawPaletteColor, userColors: UserPaletteColor[], usedHexes: string[]) => {
+  const unused = userColors.filter((candidate) => !usedHexes.includes(candidate.hex));
+  const candidates = unused.length > 0 ? unused : userColors;
+  const [hint] = findNamedColors(`${color.name} ${color.usage}`, { ...CSS_NAMED_COLORS, ...COLOR_WORD_HINTS });
+
+  if (candidates.length === 0) {
+    return hint ? { hex: hint, method: 'approximated' as const } : null;
+  }
+
+  const closest = hint
+    ? candidates.reduce((best, candidate) =>
+        getColorDistance(candidate.hex, hint) < getColorDistance(best.hex, hint) ? candidate : best
+      )
+    : candidates[0];
+
+  return { hex: closest.hex, method: 'fallback' as const, source: closest.source };
+};
+
+/**
+ * Canonicalizes every hex value in raw model palette output. Codes written loosely are parsed,
+ * missing ones are read from the color name, and anything left falls back to the nearest color
+ * from the questionnaire (ranked by the color words in the name). Clean hex values produce no
+ * correction entry.
+ */
+export const repairPaletteColors = (raw: unknown, formData: BrandFormData) => {
+  const colors: RawPaletteColor[] = (Array.isArray(raw) ? raw : [])
+    .map((color) => ({ name: readText(color?.name), hex: readText(color?.hex), usage: readText(color?.usage) }))
+    .filter((color) => color.name || color.hex || color.usage)
+    .slice(0, MAX_PALETTE_COLORS);
+
+  const userColors = getUserPaletteColors(formData);
+  const corrections: PaletteColorCorrection[] = [];
+  const resolved = colors.map((color) => (BARE_HEX.test(color.hex) ? parseColor(color.hex) : null));
+
+  const repaired = colors.map((color, index) => {
+    const clean = resolved[index];
+    if (clean) return { ...color, hex: clean };
+
+    const record = (correction: Omit<PaletteColorCorrection, 'name' | 'original'>) => {
+      corrections.push({ name: color.name, original: color.hex, ...correction });
+      resolved[index] = correction.corrected;
+      return { ...color, hex: correction.corrected || color.hex };
+    };
+
+    const parsed = parseColor(color.hex);
+    if (parsed) return record({ corrected: parsed, method: 'parsed' });
+
+    const fromName = parseColor(color.name);
+    if (fromName) return record({ corrected: fromName, method: 'name' });
+
+    const usedHexes = [...resolved, ...colors.map((entry) => parseColor(entry.hex))].filter(
+      (hex): hex is string => Boolean(hex)
+    );
+    const fallback = pickFallback(color, userColors, usedHexes);
+
+    return fallback
+      ? record({ corrected: fallback.hex, method: fallback.method, ...(fallback.source ? { source: fallback.source } : {}) })
+      : record({ corrected: null, method: 'unresolved' });
+  });
+
+  return { colors: repaired, corrections };
+};
+
+/**
+ * Repairs the palette in raw model output before it is validated, so colors that can be recovered
+ * never count as schema failures. Output that was not asked for a palette passes through as is.
+ */
+export const repairGeneratedPalette = (
+  result: Record<string, unknown>,
+  formData: BrandFormData,
+  fields: BrandKitFieldId[]
+) => {
+  if (!fields.includes('colorPaletteSuggestions') || result.colorPaletteSuggestions === undefined) {
+    return { result, corrections: [] as PaletteColorCorrection[] };
+  }
+
+  const { colors, corrections } = repairPaletteColors(result.colorPaletteSuggestions, formData);
+  return { result: { ...result, colorPaletteSuggestions: colors }, corrections };
+};
@@ -0,0 +1,125 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TONAL_STEPS,
+  buildBrandColorSystem,
+  buildTonalScale,
+  getColorDistance,
+  hexToOklch,
+  oklchToHex,
+} from './colorScales';
+
+// Published OKLCH values for the sRGB primaries, white, black, and mid grey
+describe('hexToOklch', () => {
+  it.each<[string, number, number, number | null]>([
+    ['#FFFFFF', 1, 0, null],
+    ['#000000', 0, 0, null],
+    ['#808080', 0.59987, 0, null],
+    ['#FF0000', 0.62796, 0.25768, 29.2339],
+    ['#00FF00', 0.86644, 0.29483, 142.4953],
+    ['#0000FF', 0.45201, 0.31321, 264.0521],
+  ])('converts %s', (hex, lightness, chroma, hue) => {
+    const color = hexToOklch(hex);
+
+    expect(color.l).toBeCloseTo(lightness, 4);
+    expect(color.c).toBeCloseTo(chroma, 4);
+    if (hue !== null) {
+      expect(color.h).toBeCloseTo(hue, 2);
+    }
+  });
+});
+
+describe('oklchToHex', () => {
+  it.each(['#FFFFFF', '#000000', '#8A9A5B', '#C4663F', '#1F3A5F', '#FF0000', '#00FF00', '#0000FF'])(
+    'round-trips %s',
+    (hex) => {
+      expect(oklchToHex(hexToOklch(hex))).toBe(hex);
+    }
+  );
+
+  it('lowers chroma, not lightness or hue, to fit out-of-gamut colors into sRGB', () => {
+    const hex = oklchToHex({ l: 0.7, c: 0.4, h: 150 });
+    const result = hexToOklch(hex);
+
+    expect(hex).toMatch(/^#[0-9A-F]{6}$/);
+    expect(result.l).toBeCloseTo(0.7, 2);
+    expect(result.h).toBeCloseTo(150, 0);
+    expect(result.c).toBeLessThan(0.4);
+  });
+});
+
+describe('getColorDistance', () => {
+  it('measures Euclidean OKLab distance', () => {
+    expect(getColorDistance('#8A9A5B', '#8A9A5B')).toBe(0);
+    expect(getColorDistance('#000000', '#FFFFFF')).toBeCloseTo(1, 4);
+    expect(getColorDistance('#FF0000', '#0000FF')).toBeCloseTo(getColorDistance('#0000FF', '#FF0000'), 10);
+  });
+});
+
+describe('buildTonalScale', () => {
+  const scale = buildTonalScale({ key: 'primary', label: 'Sage', hex: '#8A9A5B' });
+
+  it('pins the source color to the step closest to its lightness', () => {
+    // #8A9A5B sits at L ≈ 0.66, between the 500 (0.62) and 400 (0.71) targets
+    expect(hexToOklch('#8A9A5B').l).toBeCloseTo(0.6583, 3);
+    expect(scale.baseStep).toBe(500);
+    expect(scale.steps.find((entry) => entry.step === 500)?.hex).toBe('#8A9A5B');
+  });
+
+  it('puts every other step on its target lightness with the source hue', () => {
+    const targets = [0.975, 0.94, 0.88, 0.8, 0.71, null, 0.53, 0.45, 0.37, 0.29, 0.22];
+    const sourceHue = hexToOklch('#8A9A5B').h;
+
+    expect(scale.steps.map((entry) => entry.step)).toEqual([...TONAL_STEPS]);
+    scale.steps.forEach(({ hex }, index) => {
+      const color = hexToOklch(hex);
+      if (targets[index] === null) return;
+
+      // 8-bit rounding moves lightness by well under 0.005
+      expect(Math.abs(color.l - (targets[index] as number))).toBeLessThan(0.005);
+      expect(Math.abs(color.h - sourceHue)).toBeLessThan(3);
+    });
+  });
+
+  it('keeps lightness strictly decreasing from 50 to 950', () => {
+    const lightness = scale.steps.map(({ hex }) => hexToOklch(hex).l);
+
+    lightness.slice(1).forEach((value, index) => expect(value).toBeLessThan(lightness[index]));
+  });
+});
+
+describe('buildBrandColorSystem', () => {
+  it('matches the golden scales and semantic roles', async () => {
+    const system = buildBrandColorSystem([
+      { key: 'primary', label: 'Sage', hex: '#8A9A5B' },
+      { key: 'secondary', label: 'Terracotta', hex: '#C4663F' },
+    ]);
+
+    await expect(`${JSON.stringify(system, null, 2)}\n`).toMatchFileSnapshot(
+      './__fixtures__/color-scales/sage-terracotta.json'
+    );
+  });
+
+  it('tints the neutral ramp with the first brand hue and falls back to a warm grey without colors', () => {
+    const neutralHue = (sources: Parameters<typeof buildBrandColorSystem>[0]) => {
+      const neutral = buildBrandColorSystem(sources).scales.find((scale) => scale.key === 'neutral');
+      return hexToOklch(neutral?.steps.find((entry) => entry.step === 700)?.hex || '').h;
+    };
+
+    expect(neutralHue([{ key: 'primary', label: 'Ink', hex: '#1F3A5F' }])).toBeCloseTo(hexToOklch('#1F3A5F').h, -1);
+    expect(neutralHue([])).toBeCloseTo(60, -1);
+  });
+
+  it('points semantic roles at the documented steps', () => {
+    const { semantic } = buildBrandColorSystem([{ key: 'primary', label: 'Sage', hex: '#8A9A5B' }]);
+
+    expect(semantic.map(({ role, scaleKey, step }) => `${role}:${scaleKey}-${step}`)).toEqual([
+      'background:neutral-50',
+      'surface:neutral-100',
+      'text:neutral-900',
+      'border:neutral-200',
+      'success:success-600',
+      'warning:warning-500',
+      'danger:danger-600',
+    ]);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Color Scales
+ * Expands single brand colors into 50–950 tonal ramps in OKLCH, so every step of a ramp reads as
+ * evenly spaced in lightness whatever the hue, and derives semantic roles (background, surface,
+ * text, border, success, warning, danger) from those ramps.
+ */
+
+export const TONAL_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type TonalStep = (typeof TONAL_STEPS)[number];
+
+export type SemanticColorRole = 'background' | 'surface' | 'text' | 'border' | 'success' | 'warning' | 'danger';
+
+export interface ColorScaleSource {
+  key: string;
+  label: string;
+  hex: string;
+}
+
+export interface TonalScale {
+  key: string;
+  label: string;
+  /** 'system' scales (neutral and status colors) are derived rather than picked */
+  source: 'brand' | 'system';
+  baseHex: string;
+  /** The step that holds the source color unchanged */
+  baseStep: TonalStep | null;
+  steps: Array<{ step: TonalStep; hex: string }>;
+}
+
+export interface SemanticColor {
+  role: SemanticColorRole;
+  scaleKey: string;
+  step: TonalStep;
+  hex: string;
+}
+
+export interface BrandColorSystem {
+  scales: TonalScale[];
+  semantic: SemanticColor[];
+}
+
+export interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+type LinearRgb = [number, number, number];
+
+// Target OKLCH lightness per step, close to the spacing of common UI ramps
+const STEP_LIGHTNESS: Record<TonalStep, number> = {
+  50: 0.975,
+  100: 0.94,
+  200: 0.88,
+  300: 0.8,
+  400: 0.71,
+  500: 0.62,
+  600: 0.53,
+  700: 0.45,
+  800: 0.37,
+  900: 0.29,
+  950: 0.22,
+};
+
+// Chroma eases off toward the ends so pale and deep steps do not look neon
+const STEP_CHROMA: Record<TonalStep, number> = {
+  50: 0.2,
+  100: 0.35,
+  200: 0.55,
+  300: 0.75,
+  400: 0.92,
+  500: 1,
+  600: 1,
+  700: 0.92,
+  800: 0.8,
+  900: 0.65,
+  950: 0.5,
+};
+
+const NEUTRAL_CHROMA = 0.012;
+
+const STATUS_COLORS: Array<{ key: 'success' | 'warning' | 'danger'; label: string; hue: number; chroma: number }> = [
+  { key: 'success', label: 'Success', hue: 150, chroma: 0.14 },
+  { key: 'warning', label: 'Warning', hue: 75, chroma: 0.15 },
+  { key: 'danger', label: 'Danger', hue: 27, chroma: 0.19 },
+];
+
+const SEMANTIC_STEPS: Array<{ role: SemanticColorRole; scaleKey: string; step: TonalStep }> = [
+  { role: 'background', scaleKey: 'neutral', step: 50 },
+  { role: 'surface', scaleKey: 'neutral', step: 100 },
+  { role: 'text', scaleKey: 'neutral', step: 900 },
+  { role: 'border', scaleKey: 'neutral', step: 200 },
+  { role: 'success', scaleKey: 'success', step: 600 },
+  { role: 'warning', scaleKey: 'warning', step: 500 },
+  { role: 'danger', scaleKey: 'danger', step: 600 },
+];
+
+const toLinear = (channel: number) => {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (value: number) => {
+  const clamped = Math.min(1, Math.max(0, value));
+  return 255 * (clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * clamped ** (1 / 2.4) - 0.055);
+};
+
+// OKLab conversion matrices from Björn Ottosson's reference implementation
+const linearRgbToOklch = ([r, g, b]: LinearRgb): Oklch => {
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  const lightness = 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s;
+  const a = 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s;
+  const bAxis = 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s;
+  const hue = (Math.atan2(bAxis, a) * 180) / Math.PI;
+
+  return { l: lightness, c: Math.hypot(a, bAxis), h: hue < 0 ? hue + 360 : hue };
+};
+
+const oklchToLinearRgb = ({ l: lightness, c, h }: Oklch): LinearRgb => {
+  const a = c * Math.cos((h * Math.PI) / 180);
+  const b = c * Math.sin((h * Math.PI) / 180);
+
+  const l = (lightness + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (lightness - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (lightness - 0.0894841775 * a - 1.291485548 * b) ** 3;
+
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s,
+  ];
+};
+
+/** #RRGGBB to OKLCH, with lightness 0–1, chroma unbounded, and hue in degrees 0–360. */
+export const hexToOklch = (hex: string) =>
+  linearRgbToOklch([1, 3, 5].map((offset) => toLinear(Number.parseInt(hex.slice(offset, offset + 2), 16))) as LinearRgb);
+
+/** Euclidean distance in OKLab, where roughly 0.02 is the smallest difference most people notice. */
+export const getColorDistance = (first: string, second: string) => {
+  const [from, to] = [hexToOklch(first), hexToOklch(second)].map(({ l, c, h }) => [
+    l,
+    c * Math.cos((h * Math.PI) / 180),
+    c * Math.sin((h * Math.PI) / 180),
+  ]);
+
+  return Math.hypot(from[0] - to[0], from[1] - to[1], from[2] - to[2]);
+};
+
+const isInGamut = (rgb: LinearRgb) => rgb.every((channel) => channel >= -0.0001 && channel <= 1.0001);
+
+/** Converts to hex, lowering chroma (never lightness or hue) until the color fits in sRGB. */
+export const oklchToHex = (color: Oklch) => {
+  let rgb = oklchToLinearRgb(color);
+
+  if (!isInGamut(rgb)) {
+    let low = 0;
+    let high = color.c;
+    for (let step = 0; step < 20; step += 1) {
+      const middle = (low + high) / 2;
+      if (isInGamut(oklchToLinearRgb({ ...color, c: middle }))) {
+        low = middle;
+      } else {
+        high = middle;
+      }
+    }
+    rgb = oklchToLinearRgb({ ...color, c: low });
+  }
+
+  return `#${rgb
+    .map((channel) => Math.round(fromLinear(channel)).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()}`;
+};
+
+const getClosestStep = (lightness: number) =>
+  TONAL_STEPS.reduce((closest, step) =>
+    Math.abs(STEP_LIGHTNESS[step] - lightness) < Math.abs(STEP_LIGHTNESS[closest] - lightness) ? step : closest
+  );
+
+const buildSteps = (base: Oklch, pinned?: { step: TonalStep; hex: string }) =>
+  TONAL_STEPS.map((step) => ({
+    step,
+    hex:
+      pinned && pinned.step === step
+        ? pinned.hex
+        : oklchToHex({ l: STEP_LIGHTNESS[step], c: base.c * STEP_CHROMA[step], h: base.h }),
+  }));
+
+/**
+ * Builds a 50–950 ramp around a #RRGGBB color. The color itself lands unchanged on the step
+ * closest to its lightness; the other steps keep its hue and scale its chroma.
+ */
+export const buildTonalScale = (source: ColorScaleSource): TonalScale => {
+  const base = hexToOklch(source.hex);
+  const baseStep = getClosestStep(base.l);
+
+  return {
+    key: source.key,
+    label: source.label,
+    source: 'brand',
+    baseHex: source.hex,
+    baseStep,
+    steps: buildSteps(base, { step: baseStep, hex: source.hex }),
+  };
+};
+
+const buildSystemScale = (key: string, label: string, base: Oklch): TonalScale => {
+  const steps = buildSteps(base);
+
+  return {
+    key,
+    label,
+    source: 'system',
+    baseHex: steps.find((entry) => entry.step === 500)?.hex || steps[5].hex,
+    baseStep: null,
+    steps,
+  };
+};
+
+const getScaleHex = (scale: TonalScale, step: TonalStep) =>
+  scale.steps.find((entry) => entry.step === step)?.hex || scale.baseHex;
+
+/**
+ * Ramps for each brand color plus a neutral tinted with the first brand hue and fixed-hue status
+ * colors. Semantic roles point at steps in those ramps.
+ */
+export const buildBrandColorSystem = (sources: ColorScaleSource[]): BrandColorSystem => {
+  const brandScales = sources.map(buildTonalScale);
+  const leadHue = sources[0] ? hexToOklch(sources[0].hex).h : 60;
+
+  const scales = [
+    ...brandScales,
+    buildSystemScale('neutral', 'Neutral', { l: 0.62, c: NEUTRAL_CHROMA, h: leadHue }),
+    ...STATUS_COLORS.map((status) => buildSystemScale(status.key, status.label, { l: 0.62, c: status.chroma, h: status.hue })),
+  ];
+
+  const semantic = SEMANTIC_STEPS.map(({ role, scaleKey, step }) => {
+    const scale = scales.find((entry) => entry.key === scaleKey) as TonalScale;
+    return { role, scaleKey, step, hex: getScaleHex(scale, step) };
+  });
+
+  return { scales, semantic };
+};
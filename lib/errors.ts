@@ -25,7 +25,7 @@ export const ERROR_MESSAGES: Record<string, string> = {
   'api/generation-failed': '✗ Brand generation stopped before a result was saved. Your workbook draft is still intact.',
   'api/logo-generation-failed': '✗ Logo generation stumbled. Give it another shot.',
   'api/logo-invalid-prompt': '✗ The logo prompt needs tweaking. Try different words.',
-  'api/key-not-found': '✗ No brand generation API key is configured. Add an OpenAI or Gemini key to continue.',
+  'api/key-not-found': '✗ No brand generation provider is configured. Add an OpenAI, Gemini, or Anthropic key, or set LOCAL_AI_BASE_URL for a local model.',
   
   // Payment Errors
   'payment/failed': '✗ Payment didn\'t go through. Try again or contact support.',
@@ -43,12 +43,34 @@ export const ERROR_MESSAGES: Record<string, string> = {
   'validation/required': '✗ This field can\'t be empty.',
   'validation/invalid-api-key': '✗ That doesn\'t look like a valid API key.',
   
+  // Workbook Import Errors
+  'workbook/invalid-json': '✗ That file isn\'t valid JSON. Pick the .workbook.json file you exported.',
+  'workbook/unsupported-format': '✗ That file isn\'t a Brand Mosaic workbook export.',
+  'workbook/unsupported-version': '✗ That workbook was exported by a newer version of Brand Mosaic. Update and try again.',
+  'workbook/invalid-bundle': '✗ That workbook file is incomplete or damaged.',
+
+  // PDF Export Errors
+  'export/not-authenticated': '✗ Sign in again to export this workbook as a PDF.',
+  'export/invalid-request': '✗ That PDF export request was incomplete. Reload the result and try again.',
+  'export/not-found': '✗ That saved version could not be found for export.',
+  'export/render-failed': '✗ The PDF could not be rendered. Opening the printable version instead.',
+  'export/storage-failed': '✗ The PDF was rendered but could not be saved. Opening the printable version instead.',
+
   // Photo Studio Errors
   'scene/generation-failed': '✗ Scene generation hit a snag. Let\'s try that again.',
   'scene/scrape-failed': '✗ Couldn\'t fetch product info from that URL. Try uploading an image instead.',
   'scene/invalid-url': '✗ That URL doesn\'t look right. Check it and try again.',
+  'scene/blocked-url': '✗ That address isn\'t a public web page. Paste the product\'s public link instead.',
+  'scene/unsupported-content': '✗ That link didn\'t return a web page or image we can read.',
+  'scene/page-too-large': '✗ That page is too large to import. Try uploading the product image instead.',
+  'scene/fetch-timeout': '✗ That site took too long to respond. Try again or upload the image instead.',
+  'scene/no-product-image': '✗ No product image found on that page. Try uploading one instead.',
+  'scene/rate-limited': '✗ Too many imports in a row. Take a breather and try again in a few minutes.',
+  'scene/not-authenticated': '✗ Sign in to import products from a URL.',
   'scene/image-too-large': '✗ Image is too large. Please use an image under 10MB.',
   'scene/invalid-image': '✗ Couldn\'t read that image. Try JPG, PNG, or WEBP format.',
+  'scene/invalid-request': '✗ That scene request was incomplete. Try generating it again.',
+  'scene/provider-not-configured': '✗ That image service isn\'t set up on this server. Trying the next one.',
   'scene/no-scenes-selected': '✗ Select at least one scene type to generate.',
   'scene/all-apis-failed': '✗ All image generation services are unavailable. Try again later.',
 
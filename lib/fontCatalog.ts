@@ -0,0 +1,173 @@
+/**
+ * Font Catalog
+ * A bundled subset of Google Fonts metadata (family, category, style tags, loadable weights,
+ * license) covering the families brand suggestions name most often, plus commercial families
+ * models like to suggest and their closest free stand-ins. Kept static so matching works offline
+ * and in edge functions.
+ */
+
+export type FontCategory = 'sans-serif' | 'serif' | 'monospace' | 'handwriting' | 'display';
+
+export type FontLicense = 'OFL' | 'Apache-2.0' | 'UFL';
+
+export interface CatalogFont {
+  family: string;
+  category: FontCategory;
+  /** Loose style classification: geometric, humanist, didone, slab, ... */
+  tags: string[];
+  /** Weights requested from the Google Fonts CSS API */
+  weights: number[];
+  license: FontLicense;
+}
+
+const font = (
+  family: string,
+  category: FontCategory,
+  tags: string[],
+  weights: number[] = [400, 700],
+  license: FontLicense = 'OFL'
+): CatalogFont => ({ family, category, tags, weights, license });
+
+// Roughly in order of popularity, which breaks ties when ranking alternatives
+export const FONT_CATALOG: CatalogFont[] = [
+  font('Inter', 'sans-serif', ['neo-grotesque', 'ui']),
+  font('Inter Tight', 'sans-serif', ['neo-grotesque', 'ui']),
+  font('Roboto', 'sans-serif', ['neo-grotesque', 'ui'], [400, 700], 'Apache-2.0'),
+  font('Open Sans', 'sans-serif', ['humanist', 'ui']),
+  font('Lato', 'sans-serif', ['humanist']),
+  font('Montserrat', 'sans-serif', ['geometric']),
+  font('Poppins', 'sans-serif', ['geometric']),
+  font('Raleway', 'sans-serif', ['geometric', 'elegant']),
+  font('Nunito', 'sans-serif', ['rounded', 'friendly']),
+  font('Nunito Sans', 'sans-serif', ['humanist', 'geometric']),
+  font('Work Sans', 'sans-serif', ['grotesque']),
+  font('DM Sans', 'sans-serif', ['geometric', 'ui']),
+  font('Manrope', 'sans-serif', ['geometric', 'ui']),
+  font('Jost', 'sans-serif', ['geometric']),
+  font('Outfit', 'sans-serif', ['geometric']),
+  font('Plus Jakarta Sans', 'sans-serif', ['geometric', 'ui']),
+  font('Space Grotesk', 'sans-serif', ['grotesque', 'technical']),
+  font('IBM Plex Sans', 'sans-serif', ['grotesque', 'technical']),
+  font('Source Sans 3', 'sans-serif', ['humanist', 'ui']),
+  font('Noto Sans', 'sans-serif', ['humanist', 'ui']),
+  font('Fira Sans', 'sans-serif', ['humanist']),
+  font('Karla', 'sans-serif', ['grotesque']),
+  font('Rubik', 'sans-serif', ['rounded', 'friendly']),
+  font('Barlow', 'sans-serif', ['grotesque', 'technical']),
+  font('Archivo', 'sans-serif', ['grotesque']),
+  font('Libre Franklin', 'sans-serif', ['grotesque']),
+  font('Public Sans', 'sans-serif', ['neo-grotesque', 'ui']),
+  font('Arimo', 'sans-serif', ['neo-grotesque'], [400, 700], 'Apache-2.0'),
+  font('Mulish', 'sans-serif', ['geometric', 'minimal']),
+  font('Josefin Sans', 'sans-serif', ['geometric', 'vintage']),
+  font('Figtree', 'sans-serif', ['geometric', 'friendly']),
+  font('Urbanist', 'sans-serif', ['geometric']),
+  font('Sora', 'sans-serif', ['geometric', 'technical']),
+  font('Lexend', 'sans-serif', ['geometric', 'readable']),
+  font('Hanken Grotesk', 'sans-serif', ['grotesque']),
+  font('Red Hat Display', 'sans-serif', ['geometric']),
+  font('Albert Sans', 'sans-serif', ['geometric']),
+  font('Instrument Sans', 'sans-serif', ['grotesque']),
+  font('Cabin', 'sans-serif', ['humanist']),
+  font('PT Sans', 'sans-serif', ['humanist']),
+  font('Quicksand', 'sans-serif', ['rounded', 'friendly']),
+  font('Ubuntu', 'sans-serif', ['humanist'], [400, 700], 'UFL'),
+  font('Oswald', 'sans-serif', ['condensed', 'grotesque']),
+  font('Bebas Neue', 'display', ['condensed', 'poster'], [400]),
+  font('Syne', 'display', ['geometric', 'expressive']),
+  font('Playfair Display', 'serif', ['didone', 'high-contrast', 'elegant']),
+  font('Merriweather', 'serif', ['transitional', 'readable']),
+  font('Lora', 'serif', ['calligraphic', 'readable']),
+  font('Libre Baskerville', 'serif', ['transitional', 'classic']),
+  font('EB Garamond', 'serif', ['old-style', 'classic']),
+  font('Cormorant Garamond', 'serif', ['old-style', 'high-contrast', 'elegant']),
+  font('Cormorant', 'serif', ['old-style', 'high-contrast', 'elegant']),
+  font('Crimson Pro', 'serif', ['old-style', 'readable']),
+  font('Source Serif 4', 'serif', ['transitional', 'readable']),
+  font('PT Serif', 'serif', ['transitional']),
+  font('Noto Serif', 'serif', ['transitional', 'readable']),
+  font('Fraunces', 'serif', ['old-style', 'soft', 'expressive']),
+  font('DM Serif Display', 'serif', ['didone', 'high-contrast'], [400]),
+  font('DM Serif Text', 'serif', ['didone'], [400]),
+  font('Spectral', 'serif', ['transitional', 'readable']),
+  font('Bodoni Moda', 'serif', ['didone', 'high-contrast', 'elegant']),
+  font('Libre Caslon Text', 'serif', ['old-style', 'classic']),
+  font('Cardo', 'serif', ['old-style', 'classic']),
+  font('Gelasio', 'serif', ['transitional']),
+  font('Newsreader', 'serif', ['transitional', 'editorial']),
+  font('Literata', 'serif', ['transitional', 'readable']),
+  font('Instrument Serif', 'serif', ['didone', 'editorial'], [400]),
+  font('Abril Fatface', 'display', ['didone', 'poster'], [400]),
+  font('Prata', 'serif', ['didone', 'elegant'], [400]),
+  font('Marcellus', 'serif', ['inscriptional', 'elegant'], [400]),
+  font('Cinzel', 'serif', ['inscriptional', 'classic']),
+  font('Alegreya', 'serif', ['calligraphic', 'old-style']),
+  font('Tinos', 'serif', ['transitional'], [400, 700], 'Apache-2.0'),
+  font('Roboto Slab', 'serif', ['slab'], [400, 700], 'Apache-2.0'),
+  font('Zilla Slab', 'serif', ['slab', 'editorial']),
+  font('Arvo', 'serif', ['slab', 'geometric']),
+  font('Bitter', 'serif', ['slab', 'readable']),
+  font('Alfa Slab One', 'display', ['slab', 'poster'], [400]),
+  font('Courier Prime', 'monospace', ['typewriter']),
+  font('JetBrains Mono', 'monospace', ['code']),
+  font('IBM Plex Mono', 'monospace', ['code', 'technical']),
+  font('Space Mono', 'monospace', ['geometric', 'technical']),
+  font('Fira Code', 'monospace', ['code']),
+  font('Roboto Mono', 'monospace', ['code'], [400, 700], 'Apache-2.0'),
+  font('DM Mono', 'monospace', ['code'], [400, 500]),
+  font('Source Code Pro', 'monospace', ['code']),
+  font('Caveat', 'handwriting', ['casual', 'marker']),
+  font('Dancing Script', 'handwriting', ['script', 'casual']),
+  font('Pacifico', 'handwriting', ['script', 'retro'], [400]),
+  font('Great Vibes', 'handwriting', ['script', 'formal'], [400]),
+  font('Satisfy', 'handwriting', ['script', 'casual'], [400]),
+  font('Sacramento', 'handwriting', ['script', 'formal'], [400]),
+  font('Homemade Apple', 'handwriting', ['casual'], [400]),
+  font('Kalam', 'handwriting', ['casual', 'marker']),
+  font('Lobster', 'display', ['script', 'retro'], [400]),
+  font('Righteous', 'display', ['geometric', 'retro'], [400]),
+];
+
+/**
+ * Commercial families that need a paid license, keyed by a lowercase alphanumeric prefix, with
+ * the catalog families closest in construction listed first.
+ */
+export const COMMERCIAL_FONT_ALTERNATIVES: Record<string, string[]> = {
+  helvetica: ['Inter', 'Arimo', 'Public Sans'],
+  neuehaas: ['Inter', 'Arimo', 'Public Sans'],
+  arial: ['Arimo', 'Inter', 'Roboto'],
+  akzidenz: ['Inter', 'Work Sans', 'Archivo'],
+  univers: ['Roboto', 'Public Sans', 'Inter'],
+  futura: ['Jost', 'Outfit', 'Nunito Sans'],
+  avenir: ['Nunito Sans', 'Mulish', 'Figtree'],
+  gotham: ['Montserrat', 'Outfit', 'Red Hat Display'],
+  proximanova: ['Montserrat', 'Figtree', 'Plus Jakarta Sans'],
+  circular: ['DM Sans', 'Plus Jakarta Sans', 'Figtree'],
+  graphik: ['Inter', 'Hanken Grotesk', 'Work Sans'],
+  gtamerica: ['Work Sans', 'Archivo', 'Libre Franklin'],
+  gtwalsheim: ['Plus Jakarta Sans', 'DM Sans', 'Figtree'],
+  sfpro: ['Inter', 'Roboto', 'Public Sans'],
+  brandongrotesque: ['Josefin Sans', 'Raleway', 'Jost'],
+  gillsans: ['Lato', 'Cabin', 'PT Sans'],
+  franklingothic: ['Libre Franklin', 'Archivo', 'Work Sans'],
+  din: ['Barlow', 'Roboto', 'IBM Plex Sans'],
+  aktivgrotesk: ['Inter', 'Hanken Grotesk', 'Public Sans'],
+  garamond: ['EB Garamond', 'Cormorant Garamond', 'Crimson Pro'],
+  baskerville: ['Libre Baskerville', 'Source Serif 4', 'Spectral'],
+  caslon: ['Libre Caslon Text', 'EB Garamond', 'Cardo'],
+  didot: ['Playfair Display', 'Bodoni Moda', 'Prata'],
+  bodoni: ['Bodoni Moda', 'Playfair Display', 'Prata'],
+  timesnewroman: ['Tinos', 'Libre Baskerville', 'PT Serif'],
+  times: ['Tinos', 'Libre Baskerville', 'PT Serif'],
+  georgia: ['Gelasio', 'Merriweather', 'PT Serif'],
+  canela: ['Cormorant', 'Fraunces', 'Instrument Serif'],
+  tiempos: ['Source Serif 4', 'Newsreader', 'Literata'],
+  freight: ['Source Serif 4', 'Crimson Pro', 'Lora'],
+  miller: ['Libre Baskerville', 'Newsreader', 'PT Serif'],
+  minion: ['Crimson Pro', 'EB Garamond', 'Source Serif 4'],
+  trajan: ['Cinzel', 'Marcellus', 'Cormorant'],
+  optima: ['Marcellus', 'Raleway', 'Lato'],
+  rockwell: ['Arvo', 'Roboto Slab', 'Zilla Slab'],
+  courier: ['Courier Prime', 'IBM Plex Mono', 'Space Mono'],
+  sfmono: ['JetBrains Mono', 'Roboto Mono', 'Source Code Pro'],
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { resolveFont } from './fontResolver';
+
+describe('resolveFont', () => {
+  it('matches catalog names exactly, ignoring weight words', () => {
+    expect(resolveFont('Playfair Display Bold, serif')).toMatchObject({ status: 'available', font: { family: 'Playfair Display' } });
+    expect(resolveFont('Inter Tight')).toMatchObject({ status: 'available', font: { family: 'Inter Tight' } });
+  });
+
+  it('marks shortened names of one multi-word family as approximate', () => {
+    expect(resolveFont('Playfair')).toMatchObject({ status: 'approximate', font: { family: 'Playfair Display' } });
+    expect(resolveFont('Plex Sans')).toMatchObject({ status: 'approximate', font: { family: 'IBM Plex Sans' } });
+  });
+
+  it.each(['Sans', 'Mono', 'Space', 'Serif Display'])('does not guess a family from "%s"', (name) => {
+    const resolution = resolveFont(name);
+
+    expect(resolution.status).toBe('unknown');
+    expect(resolution.font).toBeNull();
+    expect(resolution.alternatives.length).toBeGreaterThan(0);
+  });
+
+  it('points commercial families at free alternatives', () => {
+    expect(resolveFont('Helvetica Neue')).toMatchObject({ status: 'commercial', font: null });
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Font Resolver
+ * Matches suggested font names against the bundled catalog so the result page can load and show
+ * the real family. Commercial families and names the catalog does not know get the closest free
+ * alternatives instead.
+ */
+
+import { COMMERCIAL_FONT_ALTERNATIVES, CatalogFont, FONT_CATALOG, FontCategory } from './fontCatalog.ts';
+import { cleanFontFamily, getGenericFamily } from './brandTokens.ts';
+
+/** 'approximate' means a shortened name was matched to a longer catalog family shown as a substitute */
+export type FontResolutionStatus = 'available' | 'approximate' | 'commercial' | 'unknown' | 'missing';
+
+export interface FontResolution {
+  /** The suggestion as cleaned for display, e.g. "Playfair Display" from "Playfair Display, serif" */
+  requested: string;
+  status: FontResolutionStatus;
+  /** The catalog family that matches the suggestion, when there is one */
+  font: CatalogFont | null;
+  /** Closest free families for commercial or unknown suggestions */
+  alternatives: CatalogFont[];
+}
+
+const MAX_ALTERNATIVES = 3;
+
+// Style and weight words that name a cut rather than a family
+const STYLE_WORDS =
+  /\b(thin|hairline|extra ?light|ultra ?light|light|book|regular|normal|roman|medium|semi ?bold|demi ?bold|bold|extra ?bold|heavy|black|italic|oblique|variable|vf|std|lt)\b/gi;
+
+// Words that describe a cut or a classification and say nothing about which family is meant
+const GENERIC_WORDS = new Set([
+  'sans',
+  'serif',
+  'mono',
+  'code',
+  'slab',
+  'display',
+  'text',
+  'script',
+  'grotesk',
+  'pro',
+  'one',
+  'neue',
+]);
+
+const toKey = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const toWords = (value: string) => value.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+const CATALOG_BY_KEY = new Map(FONT_CATALOG.map((entry) => [toKey(entry.family), entry]));
+
+const GENERIC_TO_CATEGORY: Record<string, FontCategory> = {
+  'sans-serif': 'sans-serif',
+  serif: 'serif',
+  monospace: 'monospace',
+  cursive: 'handwriting',
+};
+
+const findCatalogFont = (family: string) => CATALOG_BY_KEY.get(toKey(family)) || null;
+
+const bigrams = (value: string) => {
+  const key = toKey(value);
+  return Array.from({ length: Math.max(0, key.length - 1) }, (_, index) => key.slice(index, index + 2));
+};
+
+// Sørensen–Dice coefficient over character bigrams, 0 (nothing shared) to 1 (identical)
+const nameSimilarity = (first: string, second: string) => {
+  const left = bigrams(first);
+  const right = bigrams(second);
+  if (left.length === 0 || right.length === 0) return 0;
+
+  const remaining = [...right];
+  const shared = left.filter((pair) => {
+    const index = remaining.indexOf(pair);
+    if (index === -1) return false;
+    remaining.splice(index, 1);
+    return true;
+  }).length;
+
+  return (2 * shared) / (left.length + right.length);
+};
+
+const containsWordRun = (words: string[], run: string[]) =>
+  words.some((_, start) => run.every((word, offset) => words[start + offset] === word));
+
+/**
+ * A multi-word catalog family that contains every word of a shortened name in order ("Playfair",
+ * "Plex Sans"). Names made only of generic words, or that fit several families, do not match.
+ */
+const findPartialCatalogFont = (family: string) => {
+  const words = toWords(family);
+  if (words.length === 0 || words.every((word) => GENERIC_WORDS.has(word))) return null;
+
+  const matches = FONT_CATALOG.filter((entry) => {
+    const familyWords = toWords(entry.family);
+    return familyWords.length > words.length && containsWordRun(familyWords, words);
+  });
+
+  return matches.length === 1 ? matches[0] : null;
+};
+
+const rankAlternatives = (family: string, category: FontCategory) =>
+  FONT_CATALOG.map((entry, order) => ({
+    entry,
+    order,
+    score: nameSimilarity(family, entry.family) + (entry.category === category ? 1 : 0),
+  }))
+    .sort((a, b) => b.score - a.score || a.order - b.order)
+    .slice(0, MAX_ALTERNATIVES)
+    .map(({ entry }) => entry);
+
+/**
+ * Resolves one suggested family. Exact catalog names win (ignoring case, spacing, and weight
+ * words like "Bold"), then known commercial families, then the one catalog family whose name
+ * contains the suggestion as whole words. Anything else is unknown and ranked by name and category.
+ */
+export const resolveFont = (suggestion: string | undefined): FontResolution => {
+  const requested = cleanFontFamily(suggestion || '');
+  if (!requested) {
+    return { requested, status: 'missing', font: null, alternatives: [] };
+  }
+
+  const family = requested.replace(STYLE_WORDS, ' ').replace(/\s+/g, ' ').trim() || requested;
+  const exact = findCatalogFont(requested) || findCatalogFont(family);
+  if (exact) {
+    return { requested, status: 'available', font: exact, alternatives: [] };
+  }
+
+  const key = toKey(family);
+  const commercialKey = Object.keys(COMMERCIAL_FONT_ALTERNATIVES)
+    .filter((name) => key.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (commercialKey) {
+    return {
+      requested,
+      status: 'commercial',
+      font: null,
+      alternatives: COMMERCIAL_FONT_ALTERNATIVES[commercialKey]
+        .map(findCatalogFont)
+        .filter((entry): entry is CatalogFont => Boolean(entry)),
+    };
+  }
+
+  const partial = findPartialCatalogFont(family);
+
+  if (partial) {
+    return { requested, status: 'approximate', font: partial, alternatives: [] };
+  }
+
+  return {
+    requested,
+    status: 'unknown',
+    font: null,
+    alternatives: rankAlternatives(family, GENERIC_TO_CATEGORY[getGenericFamily(family)] || 'sans-serif'),
+  };
+};
+
+/** CSS font-family value for a catalog family with a generic fallback. */
+export const toFontStack = (entry: CatalogFont) => {
+  const generic = entry.category === 'handwriting' ? 'cursive' : entry.category === 'display' ? 'sans-serif' : entry.category;
+  return `"${entry.family}", ${generic}`;
+};
+
+/** One Google Fonts CSS API v2 request for all given families, or null when there is nothing to load. */
+export const buildGoogleFontsUrl = (fonts: CatalogFont[]) => {
+  const unique = fonts.filter((entry, index) => fonts.findIndex((other) => other.family === entry.family) === index);
+  if (unique.length === 0) return null;
+
+  const families = unique
+    .map((entry) => `family=${encodeURIComponent(entry.family).replace(/%20/g, '+')}:wght@${entry.weights.join(';')}`)
+    .join('&');
+
+  return `https://fonts.googleapis.com/css2?${families}&display=swap`;
+};
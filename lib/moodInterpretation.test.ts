@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import type { MoodInterpretation, SceneType } from '../types';
+import { applySceneRules, interpretMood, sanitizeMoodText } from './moodInterpretation';
+import { buildSceneGenerationRequest, buildScenePrompt } from './sceneStrategy';
+
+const product = { imageBase64: 'iVBORw0KGgo=', productName: 'Stoneware Mug', sourceType: 'upload' as const };
+
+describe('sanitizeMoodText', () => {
+  it('drops URLs, hype words, and stray punctuation', () => {
+    expect(sanitizeMoodText('Stunning 8k golden linen!! https://example.com/ref')).toBe('golden linen');
+  });
+});
+
+describe('interpretMood', () => {
+  it.each<[string, Partial<MoodInterpretation>]>([
+    ['warm sunlit linen', { temperature: 'warm', materialBias: 'natural linen and woven textiles' }],
+    ['icy chrome and glass', { temperature: 'cool', materialBias: 'brushed metal, clear glass and soft reflections' }],
+    ['calm sunday morning', { energy: 'calm', lightQuality: 'soft morning window light' }],
+    ['bold neon party', { energy: 'vibrant', lightQuality: 'colored neon accents against darker surroundings' }],
+    ['', { temperature: 'neutral', energy: 'moderate', lightQuality: 'clean natural daylight' }],
+  ])('reads "%s"', (mood, expected) => {
+    expect(interpretMood(mood)).toMatchObject({ ...expected, wasOverridden: false, overrideNotes: [] });
+  });
+
+  it('gives the same result for the same input', () => {
+    expect(interpretMood('warm moody walnut')).toEqual(interpretMood('warm moody walnut'));
+  });
+
+  it('marks the interpretation as overridden when the fallback mood fills gaps', () => {
+    const interpretation = interpretMood('linen', { fallbackMood: 'calm golden afternoon' });
+
+    expect(interpretation).toMatchObject({
+      energy: 'calm',
+      lightQuality: 'warm golden-hour sunlight with long soft shadows',
+      wasOverridden: true,
+      overrideNotes: ['Filled the gaps in your mood with the brand imagery direction.'],
+    });
+  });
+
+  it('says when only the fallback mood was used', () => {
+    expect(interpretMood('  ', { fallbackMood: 'cool marble' }).overrideNotes).toEqual([
+      'No mood entered, so the brand imagery direction was used.',
+    ]);
+  });
+});
+
+describe('applySceneRules', () => {
+  it.each<[string, SceneType, Partial<MoodInterpretation>, number]>([
+    ['warm golden sunlit', 'studio', { temperature: 'neutral', lightQuality: 'even soft studio light' }, 2],
+    ['bold neon', 'studio', { energy: 'calm', lightQuality: 'even soft studio light' }, 2],
+    ['moody dark', 'studio', { lightQuality: 'even soft studio light' }, 1],
+    ['clean minimal', 'studio', { temperature: 'neutral', lightQuality: 'even soft studio light' }, 0],
+    ['warm golden sunlit', 'lifestyle', { lightQuality: 'warm golden-hour sunlight with long soft shadows' }, 0],
+    ['calm', 'editorial', { lightQuality: 'directional hard light with sculpted shadows' }, 0],
+    ['moody dark', 'editorial', { lightQuality: 'low-key light with deep shadows' }, 0],
+  ])('maps "%s" in a %s scene', (mood, sceneType, expected, noteCount) => {
+    const result = applySceneRules(interpretMood(mood), sceneType);
+
+    expect(result).toMatchObject(expected);
+    expect(result.overrideNotes).toHaveLength(noteCount);
+    expect(result.wasOverridden).toBe(noteCount > 0);
+  });
+
+  it('records the golden-hour conflict in studio scenes', () => {
+    expect(applySceneRules(interpretMood('sunlit'), 'studio').overrideNotes).toContain(
+      'Studio uses even softbox lighting, so the warm golden-hour sunlight with long soft shadows was replaced.'
+    );
+  });
+
+  it('changes nothing further when applied twice', () => {
+    const once = applySceneRules(interpretMood('warm bold golden'), 'studio');
+
+    expect(applySceneRules(once, 'studio')).toEqual(once);
+  });
+});
+
+describe('buildSceneGenerationRequest', () => {
+  it('stores each scene interpretation and merges their override notes', () => {
+    const request = buildSceneGenerationRequest({
+      product,
+      scenes: ['studio', 'lifestyle'],
+      moodText: 'warm golden linen',
+    });
+
+    expect(request.sceneInterpretations.studio).toMatchObject({
+      temperature: 'neutral',
+      lightQuality: 'even soft studio light',
+    });
+    expect(request.sceneInterpretations.lifestyle).toMatchObject({
+      temperature: 'warm',
+      lightQuality: 'warm golden-hour sunlight with long soft shadows',
+    });
+    expect(request.interpretation.temperature).toBe('warm');
+    expect(request.interpretation.wasOverridden).toBe(true);
+    expect(request.interpretation.overrideNotes).toEqual(request.sceneInterpretations.studio?.overrideNotes);
+  });
+
+  it('builds each prompt from its scene interpretation', () => {
+    const request = buildSceneGenerationRequest({ product, scenes: ['studio', 'lifestyle'], moodText: 'sunlit' });
+
+    expect(buildScenePrompt(request, 'studio').prompt).toContain('Light quality: even soft studio light.');
+    expect(buildScenePrompt(request, 'lifestyle').prompt).toContain(
+      'Light quality: warm golden-hour sunlight with long soft shadows.'
+    );
+  });
+});
@@ -0,0 +1,235 @@
+import type { MoodInterpretation, SceneType } from '../types.ts';
+
+type Temperature = MoodInterpretation['temperature'];
+type Energy = MoodInterpretation['energy'];
+
+const MAX_MOOD_LENGTH = 200;
+
+// Words that carry no visual information and tend to push image models toward generic output.
+const HYPE_WORDS = new Set([
+  'amazing',
+  'awesome',
+  'beautiful',
+  'best',
+  'epic',
+  'gorgeous',
+  'hyperrealistic',
+  'incredible',
+  'masterpiece',
+  'perfect',
+  'stunning',
+  'trending',
+  'ultra',
+  'ultrarealistic',
+  '4k',
+  '8k',
+]);
+
+const TEMPERATURE_WORDS: Record<Temperature, string[]> = {
+  warm: ['warm', 'warmth', 'sunlit', 'sunny', 'sun', 'golden', 'amber', 'honey', 'cozy', 'cosy', 'terracotta', 'autumn', 'candle', 'candlelit', 'sunset', 'earthy', 'rust', 'caramel', 'summer', 'desert'],
+  cool: ['cool', 'cold', 'icy', 'ice', 'winter', 'blue', 'steel', 'mint', 'frost', 'frosty', 'nordic', 'marine', 'ocean', 'moonlit', 'moon', 'chrome', 'silver', 'arctic'],
+  neutral: ['neutral', 'minimal', 'minimalist', 'clean', 'grey', 'gray', 'white', 'balanced', 'stone', 'beige'],
+};
+
+const ENERGY_WORDS: Record<Energy, string[]> = {
+  calm: ['calm', 'slow', 'quiet', 'serene', 'soft', 'gentle', 'sunday', 'still', 'peaceful', 'relaxed', 'dreamy', 'muted', 'lazy', 'tranquil', 'hushed', 'meditative'],
+  vibrant: ['bold', 'vibrant', 'energetic', 'bright', 'punchy', 'loud', 'electric', 'neon', 'playful', 'dynamic', 'pop', 'festival', 'party', 'saturated', 'vivid'],
+  moderate: ['fresh', 'everyday', 'lively', 'casual', 'easy', 'confident'],
+};
+
+// Ordered by specificity: the first two matches become the material bias.
+const MATERIAL_WORDS: Array<[string[], string]> = [
+  [['linen', 'cotton', 'woven', 'textile', 'textiles'], 'natural linen and woven textiles'],
+  [['wood', 'wooden', 'oak', 'walnut', 'timber'], 'warm natural wood'],
+  [['marble'], 'polished marble'],
+  [['concrete', 'brutalist'], 'raw concrete'],
+  [['stone', 'travertine', 'slate'], 'natural stone'],
+  [['ceramic', 'clay', 'terracotta', 'pottery'], 'matte ceramic and clay'],
+  [['metal', 'chrome', 'steel', 'brass', 'aluminium', 'aluminum'], 'brushed metal'],
+  [['glass', 'crystal', 'acrylic'], 'clear glass and soft reflections'],
+  [['velvet', 'plush'], 'soft velvet'],
+  [['silk', 'satin'], 'fluid silk and satin'],
+  [['leather', 'suede'], 'supple leather'],
+  [['paper', 'cardboard', 'kraft'], 'textured paper'],
+  [['sand', 'beach', 'dune', 'desert'], 'sand and sun-bleached surfaces'],
+  [['moss', 'botanical', 'plant', 'plants', 'leaf', 'leaves', 'garden', 'greenery'], 'fresh greenery and botanical textures'],
+];
+
+const LIGHT_WORDS: Array<[string[], string]> = [
+  [['sunlit', 'golden', 'sunset', 'sunny', 'sun'], 'warm golden-hour sunlight with long soft shadows'],
+  [['window', 'morning', 'dawn'], 'soft morning window light'],
+  [['moody', 'dark', 'noir', 'shadow', 'shadows', 'dramatic'], 'low-key light with deep shadows'],
+  [['candle', 'candlelit', 'fireplace'], 'warm candlelit glow'],
+  [['neon'], 'colored neon accents against darker surroundings'],
+  [['overcast', 'diffused', 'cloudy', 'hazy', 'misty'], 'soft diffused overcast light'],
+  [['moon', 'moonlit', 'night'], 'cool moonlit ambient light'],
+  [['crisp', 'bright', 'airy'], 'crisp bright daylight'],
+];
+
+const DEFAULT_MATERIAL: Record<Temperature, string> = {
+  warm: 'natural wood and soft textiles',
+  neutral: 'clean matte surfaces',
+  cool: 'glass, stone, and brushed metal',
+};
+
+const DEFAULT_LIGHT: Record<Energy, string> = {
+  calm: 'soft diffused light',
+  moderate: 'clean natural daylight',
+  vibrant: 'bright high-contrast light',
+};
+
+const STUDIO_LIGHT = 'even soft studio light';
+const EDITORIAL_LIGHT = 'directional hard light with sculpted shadows';
+const LOW_KEY_LIGHT = 'low-key light with deep shadows';
+
+interface MoodSignals {
+  temperature: Temperature | null;
+  energy: Energy | null;
+  materials: string[];
+  light: string | null;
+}
+
+/**
+ * Removes URLs, hype words, and punctuation an image model would misread, keeping the words
+ * and separators that describe the mood.
+ */
+export const sanitizeMoodText = (value: string) =>
+  value
+    .replace(/https?:\/\/\S+|www\.\S+/gi, ' ')
+    .replace(/[^\p{L}\p{N}\s,'-]/gu, ' ')
+    .split(/\s+/)
+    .filter((word) => word && !HYPE_WORDS.has(word.toLowerCase().replace(/[,'-]/g, '')))
+    .join(' ')
+    .replace(/\s+,/g, ',')
+    .trim()
+    .slice(0, MAX_MOOD_LENGTH);
+
+const tokenize = (value: string) =>
+  value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+const pickStrongest = <T extends string>(tokens: string[], dictionary: Record<T, string[]>): T | null => {
+  let best: T | null = null;
+  let bestScore = 0;
+  let tied = false;
+
+  for (const key of Object.keys(dictionary) as T[]) {
+    const score = tokens.filter((token) => dictionary[key].includes(token)).length;
+    if (score > bestScore) {
+      best = key;
+      bestScore = score;
+      tied = false;
+    } else if (score > 0 && score === bestScore) {
+      tied = true;
+    }
+  }
+
+  return tied ? null : best;
+};
+
+const readSignals = (text: string): MoodSignals => {
+  const tokens = tokenize(text);
+  const materials = MATERIAL_WORDS.filter(([words]) => words.some((word) => tokens.includes(word)))
+    .map(([, material]) => material)
+    .slice(0, 2);
+  const light = LIGHT_WORDS.find(([words]) => words.some((word) => tokens.includes(word)));
+
+  return {
+    temperature: pickStrongest(tokens, TEMPERATURE_WORDS),
+    energy: pickStrongest(tokens, ENERGY_WORDS),
+    materials,
+    light: light ? light[1] : null,
+  };
+};
+
+/**
+ * Adjusts an interpretation to what a scene type allows. Studio keeps a neutral, calm backdrop
+ * and even softbox light; editorial falls back to directional light when the mood did not ask for
+ * any. Applying the same scene twice changes nothing further.
+ */
+export const applySceneRules = (
+  interpretation: MoodInterpretation,
+  sceneType: SceneType
+): MoodInterpretation => {
+  const next: MoodInterpretation = { ...interpretation, overrideNotes: [...interpretation.overrideNotes] };
+  const addNote = (note: string) => {
+    if (!next.overrideNotes.includes(note)) {
+      next.overrideNotes.push(note);
+    }
+    next.wasOverridden = true;
+  };
+
+  if (sceneType === 'studio') {
+    if (next.temperature !== 'neutral') {
+      addNote(`Studio forces a neutral background, so the ${next.temperature} tone only shows in small styling details.`);
+      next.temperature = 'neutral';
+    }
+    if (next.energy === 'vibrant') {
+      addNote('Studio keeps a calm, catalog-style frame, so the vibrant energy was toned down.');
+      next.energy = 'calm';
+    }
+    if (next.lightQuality === LOW_KEY_LIGHT || next.lightQuality.includes('neon')) {
+      addNote('Studio uses even softbox lighting, so the dramatic light direction was replaced.');
+    } else if (next.lightQuality !== STUDIO_LIGHT && !Object.values(DEFAULT_LIGHT).includes(next.lightQuality)) {
+      addNote(`Studio uses even softbox lighting, so the ${next.lightQuality} was replaced.`);
+    }
+    // Default lights were never asked for, so swapping them is not a conflict worth a note.
+    next.lightQuality = STUDIO_LIGHT;
+  }
+
+  if (sceneType === 'editorial' && Object.values(DEFAULT_LIGHT).includes(next.lightQuality)) {
+    next.lightQuality = EDITORIAL_LIGHT;
+  }
+
+  return next;
+};
+
+/**
+ * Turns free-form mood text into a MoodInterpretation with keyword dictionaries, so the same
+ * input always produces the same result. Anything the text leaves open is read from the
+ * fallback mood (usually the brand kit's imageryDirection.mood) before falling back to defaults.
+ */
+export const interpretMood = (
+  rawInput: string,
+  options?: {
+    sceneType?: SceneType;
+    fallbackMood?: string;
+  }
+): MoodInterpretation => {
+  const userSignals = readSignals(sanitizeMoodText(rawInput));
+  const fallbackSignals = readSignals(sanitizeMoodText(options?.fallbackMood || ''));
+  const notes: string[] = [];
+
+  const temperature = userSignals.temperature || fallbackSignals.temperature || 'neutral';
+  const energy = userSignals.energy || fallbackSignals.energy || 'moderate';
+  const materials = userSignals.materials.length ? userSignals.materials : fallbackSignals.materials;
+  const light = userSignals.light || fallbackSignals.light;
+
+  const usedFallback =
+    (!userSignals.temperature && fallbackSignals.temperature) ||
+    (!userSignals.energy && fallbackSignals.energy) ||
+    (!userSignals.materials.length && fallbackSignals.materials.length) ||
+    (!userSignals.light && fallbackSignals.light);
+
+  if (usedFallback) {
+    notes.push(
+      rawInput.trim()
+        ? 'Filled the gaps in your mood with the brand imagery direction.'
+        : 'No mood entered, so the brand imagery direction was used.'
+    );
+  }
+
+  const interpretation: MoodInterpretation = {
+    temperature,
+    energy,
+    materialBias: materials.length ? materials.join(', ') : DEFAULT_MATERIAL[temperature],
+    lightQuality: light || DEFAULT_LIGHT[energy],
+    rawInput,
+    wasOverridden: notes.length > 0,
+    overrideNotes: notes,
+  };
+
+  return options?.sceneType ? applySceneRules(interpretation, options.sceneType) : interpretation;
+};
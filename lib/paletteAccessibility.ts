@@ -0,0 +1,220 @@
+/**
+ * Palette Accessibility
+ * WCAG 2.x contrast checks for every pairing in a saved palette, the nearest tint or shade that
+ * would pass, and color vision deficiency previews. Shared by the result page and the PDF export.
+ */
+
+import type { BrandKit } from '../types.ts';
+import { getPaletteRole, normalizeHex } from './brandTokens.ts';
+
+export type ContrastLevel = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+export type ColorVisionType = 'protanopia' | 'deuteranopia' | 'tritanopia';
+
+export interface AuditColor {
+  role: string;
+  name: string;
+  hex: string;
+}
+
+export interface ContrastSuggestion {
+  hex: string;
+  ratio: number;
+  direction: 'tint' | 'shade';
+}
+
+export interface ContrastCheck {
+  foreground: AuditColor;
+  background: AuditColor;
+  /** Rounded to two decimals, the precision WCAG tools report */
+  ratio: number;
+  level: ContrastLevel;
+  passesAA: boolean;
+  passesAAA: boolean;
+  /** Closest foreground adjustment that reaches AA for body text, when the pair falls short */
+  suggestion: ContrastSuggestion | null;
+}
+
+export interface PaletteAccessibilityAudit {
+  colors: AuditColor[];
+  /** matrix[row][column]: row color as text on the column color; null on the diagonal */
+  matrix: Array<Array<ContrastCheck | null>>;
+  failingPairs: ContrastCheck[];
+  simulations: Record<ColorVisionType, string[]>;
+}
+
+// WCAG 2.x success criteria 1.4.3 and 1.4.6
+export const WCAG_AA_TEXT = 4.5;
+export const WCAG_AA_LARGE_TEXT = 3;
+export const WCAG_AAA_TEXT = 7;
+
+export const COLOR_VISION_TYPES: Array<{ type: ColorVisionType; label: string }> = [
+  { type: 'protanopia', label: 'Protanopia (no red cones)' },
+  { type: 'deuteranopia', label: 'Deuteranopia (no green cones)' },
+  { type: 'tritanopia', label: 'Tritanopia (no blue cones)' },
+];
+
+type Rgb = [number, number, number];
+
+const hexToRgb = (hex: string): Rgb =>
+  [1, 3, 5].map((offset) => Number.parseInt(hex.slice(offset, offset + 2), 16)) as Rgb;
+
+const rgbToHex = (rgb: Rgb) =>
+  `#${rgb
+    .map((channel) => Math.round(Math.min(255, Math.max(0, channel))).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()}`;
+
+const toLinear = (channel: number) => {
+  const value = channel / 255;
+  return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (value: number) => {
+  const clamped = Math.min(1, Math.max(0, value));
+  return 255 * (clamped <= 0.0031308 ? clamped * 12.92 : 1.055 * clamped ** (1 / 2.4) - 0.055);
+};
+
+export const relativeLuminance = (hex: string) => {
+  const [r, g, b] = hexToRgb(hex).map(toLinear);
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+};
+
+export const getContrastRatio = (first: string, second: string) => {
+  const [lighter, darker] = [relativeLuminance(first), relativeLuminance(second)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+};
+
+export const getContrastLevel = (ratio: number): ContrastLevel => {
+  if (ratio >= WCAG_AAA_TEXT) return 'AAA';
+  if (ratio >= WCAG_AA_TEXT) return 'AA';
+  if (ratio >= WCAG_AA_LARGE_TEXT) return 'AA Large';
+  return 'Fail';
+};
+
+const roundRatio = (ratio: number) => Math.floor(ratio * 100) / 100;
+
+const mix = (from: Rgb, to: Rgb, amount: number): Rgb =>
+  from.map((channel, index) => channel + (to[index] - channel) * amount) as Rgb;
+
+const WHITE: Rgb = [255, 255, 255];
+const BLACK: Rgb = [0, 0, 0];
+
+// Smallest mix toward white (tint) or black (shade) that clears the target, found by bisection
+const findPassingMix = (foreground: string, background: string, toward: Rgb, target: number) => {
+  const base = hexToRgb(foreground);
+  if (getContrastRatio(rgbToHex(mix(base, toward, 1)), background) < target) return null;
+
+  let low = 0;
+  let high = 1;
+  for (let step = 0; step < 16; step += 1) {
+    const middle = (low + high) / 2;
+    if (getContrastRatio(rgbToHex(mix(base, toward, middle)), background) >= target) {
+      high = middle;
+    } else {
+      low = middle;
+    }
+  }
+
+  // Rounding to hex can land a hair under the target, so nudge until the final value passes
+  let amount = high;
+  let hex = rgbToHex(mix(base, toward, amount));
+  while (getContrastRatio(hex, background) < target && amount < 1) {
+    amount = Math.min(1, amount + 0.005);
+    hex = rgbToHex(mix(base, toward, amount));
+  }
+
+  return { amount, hex };
+};
+
+/** Nearest tint or shade of the foreground that reaches the target ratio on the background. */
+export const suggestPassingColor = (
+  foreground: string,
+  background: string,
+  target = WCAG_AA_TEXT
+): ContrastSuggestion | null => {
+  const candidates = [
+    { direction: 'tint' as const, mix: findPassingMix(foreground, background, WHITE, target) },
+    { direction: 'shade' as const, mix: findPassingMix(foreground, background, BLACK, target) },
+  ].flatMap(({ direction, mix: found }) => (found ? [{ direction, ...found }] : []));
+
+  const best = candidates.sort((a, b) => a.amount - b.amount)[0];
+  if (!best) return null;
+
+  return {
+    hex: best.hex,
+    ratio: roundRatio(getContrastRatio(best.hex, background)),
+    direction: best.direction,
+  };
+};
+
+/*
+ * Full-severity dichromacy matrices from Machado, Oliveira & Fernandes (2009), applied in linear
+ * RGB. They give a practical preview of how the palette reads, not a clinical simulation.
+ */
+const COLOR_VISION_MATRICES: Record<ColorVisionType, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+};
+
+export const simulateColorVision = (hex: string, type: ColorVisionType) => {
+  const linear = hexToRgb(hex).map(toLinear);
+  const simulated = COLOR_VISION_MATRICES[type].map((row) =>
+    fromLinear(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2])
+  ) as Rgb;
+
+  return rgbToHex(simulated);
+};
+
+const checkContrast = (foreground: AuditColor, background: AuditColor): ContrastCheck => {
+  const ratio = roundRatio(getContrastRatio(foreground.hex, background.hex));
+
+  return {
+    foreground,
+    background,
+    ratio,
+    level: getContrastLevel(ratio),
+    passesAA: ratio >= WCAG_AA_TEXT,
+    passesAAA: ratio >= WCAG_AAA_TEXT,
+    suggestion: ratio >= WCAG_AA_TEXT ? null : suggestPassingColor(foreground.hex, background.hex),
+  };
+};
+
+/**
+ * Audits every ordered pair in the palette. Colors without a usable hex value are skipped, the
+ * same as in the token exports.
+ */
+export const buildPaletteAccessibilityAudit = (kit: BrandKit): PaletteAccessibilityAudit => {
+  const colors = (kit.colorPaletteSuggestions || []).flatMap((color, index) => {
+    const hex = normalizeHex(color.hex || '');
+    return hex ? [{ role: getPaletteRole(index), name: color.name || getPaletteRole(index), hex }] : [];
+  });
+
+  const matrix = colors.map((foreground, row) =>
+    colors.map((background, column) => (row === column ? null : checkContrast(foreground, background)))
+  );
+
+  // Contrast is symmetric, so each failing combination is listed once
+  const failingPairs = matrix.flatMap((cells, row) =>
+    cells.filter((cell, column): cell is ContrastCheck => Boolean(cell) && column > row && !cell?.passesAA)
+  );
+
+  const simulations = Object.fromEntries(
+    COLOR_VISION_TYPES.map(({ type }) => [type, colors.map((color) => simulateColorVision(color.hex, type))])
+  ) as Record<ColorVisionType, string[]>;
+
+  return { colors, matrix, failingPairs, simulations };
+};
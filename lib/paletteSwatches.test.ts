@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest';
+import type { BrandKit } from '../types';
+import { normalizeBrandKit } from './brandStrategy';
+import { PALETTE_SWATCH_FORMATS, buildPaletteSwatchFile } from './paletteSwatches';
+
+const kit = normalizeBrandKit({
+  colorPaletteSuggestions: [
+    { name: 'Sage', hex: '#8a9a5b', usage: 'Labels' },
+    { name: 'Terracotta', hex: '#C4663F', usage: 'Accents' },
+    { name: 'Oat', hex: 'E5D3B3', usage: 'Backgrounds' },
+    { name: 'Ink', hex: '#1F3A5F', usage: 'Text' },
+    { name: 'Unknown', hex: 'TBD', usage: '' },
+  ],
+} as Partial<BrandKit>);
+
+const singleColorKit = normalizeBrandKit({
+  colorPaletteSuggestions: [{ name: 'Sage', hex: '#8A9A5B', usage: '' }],
+} as Partial<BrandKit>);
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+
+const readAseString = (view: DataView, offset: number) => {
+  const length = view.getUint16(offset);
+  const units = Array.from({ length: length - 1 }, (_, index) => view.getUint16(offset + 2 + index * 2));
+  return { value: String.fromCharCode(...units), end: offset + 2 + length * 2 };
+};
+
+// Walks the blocks the way Adobe apps read them, so the test does not share code with the writer
+const readAse = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blocks: Array<{ type: number; name?: string; model?: string; rgb?: number[]; colorType?: number }> = [];
+  let offset = 12;
+
+  for (let index = 0; index < view.getUint32(8); index += 1) {
+    const type = view.getUint16(offset);
+    const length = view.getUint32(offset + 2);
+    const body = offset + 6;
+
+    if (type === 0xc002) {
+      blocks.push({ type });
+    } else {
+      const { value, end } = readAseString(view, body);
+      if (type === 0x0001) {
+        blocks.push({
+          type,
+          name: value,
+          model: new TextDecoder().decode(bytes.subarray(end, end + 4)),
+          rgb: [0, 1, 2].map((channel) => Math.round(view.getFloat32(end + 4 + channel * 4) * 255)),
+          colorType: view.getUint16(end + 16),
+        });
+      } else {
+        blocks.push({ type, name: value });
+      }
+    }
+
+    offset = body + length;
+  }
+
+  return { signature: new TextDecoder().decode(bytes.subarray(0, 4)), version: view.getUint32(4), blocks, offset };
+};
+
+describe('buildPaletteSwatchFile', () => {
+  it('matches the golden ASE bytes for a one-color palette', () => {
+    const { content } = buildPaletteSwatchFile('ase', singleColorKit, 'Juniper');
+
+    expect(toHex(content as Uint8Array)).toBe(
+      [
+        // "ASEF", version 1.0, three blocks
+        '41 53 45 46 00 01 00 00 00 00 00 03',
+        // Group start named "Juniper" in UTF-16BE with a null terminator
+        'c0 01 00 00 00 12 00 08 00 4a 00 75 00 6e 00 69 00 70 00 65 00 72 00 00',
+        // Color entry "Primary - Sage", RGB floats 138/255, 154/255, 91/255, normal swatch
+        '00 01 00 00 00 32 00 0f 00 50 00 72 00 69 00 6d 00 61 00 72 00 79 00 20 00 2d 00 20',
+        '00 53 00 61 00 67 00 65 00 00 52 47 42 20 3f 0a 8a 8b 3f 1a 9a 9b 3e b6 b6 b7 00 02',
+        // Group end
+        'c0 02 00 00 00 00',
+      ].join(' ')
+    );
+  });
+
+  it('writes one ASE color block per usable palette color inside a named group', () => {
+    const bytes = buildPaletteSwatchFile('ase', kit, 'Juniper Goods').content as Uint8Array;
+    const ase = readAse(bytes);
+
+    expect(ase.signature).toBe('ASEF');
+    expect(ase.version).toBe(0x00010000);
+    expect(ase.offset).toBe(bytes.length);
+    expect(ase.blocks).toEqual([
+      { type: 0xc001, name: 'Juniper Goods' },
+      { type: 0x0001, name: 'Primary - Sage', model: 'RGB ', rgb: [138, 154, 91], colorType: 2 },
+      { type: 0x0001, name: 'Secondary - Terracotta', model: 'RGB ', rgb: [196, 102, 63], colorType: 2 },
+      { type: 0x0001, name: 'Accent - Oat', model: 'RGB ', rgb: [229, 211, 179], colorType: 2 },
+      { type: 0x0001, name: 'Support - Ink', model: 'RGB ', rgb: [31, 58, 95], colorType: 2 },
+      { type: 0xc002 },
+    ]);
+  });
+
+  it('matches the golden GPL palette', async () => {
+    const file = buildPaletteSwatchFile('gpl', kit, 'Juniper Goods');
+
+    expect(file).toMatchObject({ fileName: 'juniper-goods.gpl', mimeType: 'text/plain' });
+    await expect(file.content).toMatchFileSnapshot('./__fixtures__/palette-swatches/juniper-goods.gpl');
+  });
+
+  it('matches the golden hex list', async () => {
+    await expect(buildPaletteSwatchFile('hex', kit, 'Juniper Goods').content).toMatchFileSnapshot(
+      './__fixtures__/palette-swatches/juniper-goods-hex.txt'
+    );
+  });
+
+  it('keeps line breaks in names from starting new palette entries', () => {
+    const broken = normalizeBrandKit({
+      colorPaletteSuggestions: [{ name: 'Sage\n255 0 0\tInjected', hex: '#8A9A5B', usage: '' }],
+    } as Partial<BrandKit>);
+
+    expect(buildPaletteSwatchFile('gpl', broken, 'Juniper\nGoods').content).toBe(
+      'GIMP Palette\nName: Juniper Goods\nColumns: 1\n#\n138 154  91\tPrimary - Sage 255 0 0 Injected\n'
+    );
+  });
+
+  it('names each format after the brand', () => {
+    const fileNames = PALETTE_SWATCH_FORMATS.map((format) => buildPaletteSwatchFile(format, kit, 'Juniper Goods').fileName);
+
+    expect(fileNames).toEqual(['juniper-goods.ase', 'juniper-goods.gpl', 'juniper-goods-hex.txt']);
+  });
+});
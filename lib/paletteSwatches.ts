@@ -0,0 +1,140 @@
+/**
+ * Palette Swatch Files
+ * Writes the saved palette in the swatch formats design tools import directly: Adobe Swatch
+ * Exchange for Adobe apps, GIMP palettes for GIMP and Inkscape, and a plain hex list.
+ */
+
+import type { BrandKit } from '../types.ts';
+import { BrandColorToken, buildBrandTokenSet, toFileSlug } from './brandTokens.ts';
+
+export type PaletteSwatchFormat = 'ase' | 'gpl' | 'hex';
+
+export interface PaletteSwatchFile {
+  format: PaletteSwatchFormat;
+  fileName: string;
+  mimeType: string;
+  content: string | Uint8Array;
+}
+
+const hexToChannels = (hex: string) => [1, 3, 5].map((offset) => Number.parseInt(hex.slice(offset, offset + 2), 16));
+
+// GPL and the hex list are line-based, so a line break in a color name would start a bogus entry
+const getSwatchName = (color: BrandColorToken) => `${color.role} - ${color.name}`.replace(/\s+/g, ' ').trim();
+
+// ASE strings are UTF-16BE with a length prefix (in code units) that counts the null terminator.
+const encodeAseString = (value: string) => {
+  const bytes = new Uint8Array(2 + (value.length + 1) * 2);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(0, value.length + 1);
+  for (let index = 0; index < value.length; index += 1) {
+    view.setUint16(2 + index * 2, value.charCodeAt(index));
+  }
+  return bytes;
+};
+
+const aseBlock = (type: number, body: Uint8Array) => {
+  const block = new Uint8Array(6 + body.length);
+  const view = new DataView(block.buffer);
+  view.setUint16(0, type);
+  view.setUint32(2, body.length);
+  block.set(body, 6);
+  return block;
+};
+
+const aseColorBody = (color: BrandColorToken) => {
+  const name = encodeAseString(getSwatchName(color));
+  const body = new Uint8Array(name.length + 4 + 12 + 2);
+  const view = new DataView(body.buffer);
+  body.set(name, 0);
+  body.set(new TextEncoder().encode('RGB '), name.length);
+  hexToChannels(color.hex).forEach((channel, index) => {
+    view.setFloat32(name.length + 4 + index * 4, channel / 255);
+  });
+  // Color type 2 is a normal (non-global, non-spot) swatch
+  view.setUint16(name.length + 16, 2);
+  return body;
+};
+
+const ASE_GROUP_START = 0xc001;
+const ASE_GROUP_END = 0xc002;
+const ASE_COLOR_ENTRY = 0x0001;
+
+const buildAse = (brandName: string, colors: BrandColorToken[]) => {
+  const blocks = [
+    aseBlock(ASE_GROUP_START, encodeAseString(brandName)),
+    ...colors.map((color) => aseBlock(ASE_COLOR_ENTRY, aseColorBody(color))),
+    aseBlock(ASE_GROUP_END, new Uint8Array()),
+  ];
+
+  const header = new Uint8Array(12);
+  const view = new DataView(header.buffer);
+  header.set(new TextEncoder().encode('ASEF'), 0);
+  view.setUint16(4, 1);
+  view.setUint16(6, 0);
+  view.setUint32(8, blocks.length);
+
+  const file = new Uint8Array(header.length + blocks.reduce((total, block) => total + block.length, 0));
+  file.set(header, 0);
+  let offset = header.length;
+  blocks.forEach((block) => {
+    file.set(block, offset);
+    offset += block.length;
+  });
+
+  return file;
+};
+
+const buildGpl = (brandName: string, colors: BrandColorToken[]) => {
+  const lines = [
+    'GIMP Palette',
+    `Name: ${brandName.replace(/\s+/g, ' ').trim()}`,
+    `Columns: ${Math.min(Math.max(colors.length, 1), 8)}`,
+    '#',
+    ...colors.map((color) => {
+      const channels = hexToChannels(color.hex).map((channel) => String(channel).padStart(3, ' '));
+      return `${channels.join(' ')}\t${getSwatchName(color)}`;
+    }),
+  ];
+
+  return `${lines.join('\n')}\n`;
+};
+
+const buildHexList = (brandName: string, colors: BrandColorToken[]) => {
+  const lines = [
+    `# ${brandName.replace(/\s+/g, ' ').trim()} palette`,
+    ...colors.map((color) => `${color.hex}  ${getSwatchName(color)}`),
+  ];
+
+  return `${lines.join('\n')}\n`;
+};
+
+const SWATCH_FILE_SPECS: Record<
+  PaletteSwatchFormat,
+  {
+    fileName: (slug: string) => string;
+    mimeType: string;
+    build: (brandName: string, colors: BrandColorToken[]) => string | Uint8Array;
+  }
+> = {
+  ase: { fileName: (slug) => `${slug}.ase`, mimeType: 'application/octet-stream', build: buildAse },
+  gpl: { fileName: (slug) => `${slug}.gpl`, mimeType: 'text/plain', build: buildGpl },
+  hex: { fileName: (slug) => `${slug}-hex.txt`, mimeType: 'text/plain', build: buildHexList },
+};
+
+export const PALETTE_SWATCH_FORMATS = Object.keys(SWATCH_FILE_SPECS) as PaletteSwatchFormat[];
+
+/** Colors without a usable hex value are left out, the same as in the token exports. */
+export const buildPaletteSwatchFile = (
+  format: PaletteSwatchFormat,
+  kit: BrandKit,
+  brandName: string
+): PaletteSwatchFile => {
+  const spec = SWATCH_FILE_SPECS[format];
+
+  return {
+    format,
+    fileName: spec.fileName(toFileSlug(brandName)),
+    mimeType: spec.mimeType,
+    content: spec.build(brandName, buildBrandTokenSet(kit, brandName).colors),
+  };
+};
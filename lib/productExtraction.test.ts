@@ -0,0 +1,84 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractProduct, getShopifyProductJsonUrl } from './productExtraction';
+
+const readFixture = (name: string) =>
+  readFileSync(new URL(`./__fixtures__/product-pages/${name}`, import.meta.url), 'utf8');
+
+describe('extractProduct', () => {
+  it('reads schema.org JSON-LD inside @graph', () => {
+    const product = extractProduct(readFixture('json-ld-product.html'), 'https://hearthandloom.example/shop/linen-throw');
+
+    expect(product).toMatchObject({
+      productName: 'Linen Throw Blanket',
+      price: '129.00',
+      currency: 'EUR',
+      sku: 'HL-THROW-OAT',
+      brand: 'Hearth & Loom',
+    });
+    expect(product.imageUrls).toEqual([
+      'https://hearthandloom.example/images/linen-throw-front.jpg',
+      'https://cdn.hearthandloom.example/images/linen-throw-detail.jpg',
+      'https://cdn.hearthandloom.example/og/linen-throw-share.jpg',
+    ]);
+    expect(product.sources).toEqual(['json-ld', 'meta']);
+  });
+
+  it('prefers Shopify product JSON and collapses resized copies of the same image', () => {
+    const pageUrl = 'https://slowmorning.example/products/ceramic-pour-over-set';
+    const product = extractProduct(
+      readFixture('shopify-product.html'),
+      pageUrl,
+      JSON.parse(readFixture('shopify-product.json'))
+    );
+
+    expect(getShopifyProductJsonUrl(pageUrl)).toBe('https://slowmorning.example/products/ceramic-pour-over-set.json');
+    expect(product).toMatchObject({
+      productName: 'Ceramic Pour-Over Set',
+      price: '64.00',
+      currency: 'USD',
+      sku: 'SMG-POUR-WHT',
+      brand: 'Slow Morning Goods',
+    });
+    expect(product.imageUrls).toEqual([
+      'https://slowmorning.example/cdn/shop/products/pour-over-set.jpg?v=1712345678',
+      'https://slowmorning.example/cdn/shop/products/pour-over-carafe.jpg?v=1712345678',
+      'https://slowmorning.example/cdn/shop/products/pour-over-dripper.jpg?v=1712345678',
+    ]);
+  });
+
+  it('falls back to OpenGraph tags and gallery images on a Shopify page without its JSON', () => {
+    const product = extractProduct(
+      readFixture('shopify-product.html'),
+      'https://slowmorning.example/products/ceramic-pour-over-set'
+    );
+
+    expect(product).toMatchObject({
+      productName: 'Ceramic Pour-Over Set',
+      price: '64.00',
+      currency: 'USD',
+    });
+    expect(product.imageUrls).toEqual([
+      'http://slowmorning.example/cdn/shop/products/pour-over-set_1200x1200.jpg?v=1712345678',
+      'https://slowmorning.example/cdn/shop/products/pour-over-carafe_800x.jpg?v=1712345678',
+    ]);
+    expect(product.sources).toEqual(['meta', 'gallery']);
+  });
+
+  it('collects gallery images from lazy-load and zoom attributes, skipping logos and badges', () => {
+    const product = extractProduct(readFixture('gallery-product.html'), 'https://fieldnote.example/goods/tote');
+
+    expect(product).toMatchObject({
+      productName: 'Waxed Canvas Tote – Fieldnote Supply',
+      price: '88.00',
+      currency: 'GBP',
+    });
+    expect(product.imageUrls).toEqual([
+      'https://fieldnote.example/media/tote-front-1600.jpg',
+      'https://images.fieldnote.example/tote-side-2000.jpg',
+      'https://images.fieldnote.example/tote-inside.jpg',
+      'https://fieldnote.example/media/tote-side-thumb.jpg?v=2',
+    ]);
+    expect(product.sources).toEqual(['meta', 'gallery']);
+  });
+});
@@ -0,0 +1,325 @@
+// Pure product-page extractors shared by the scrape-product function.
+// Everything here works on strings and parsed JSON only, so saved HTML or .json fixtures can be
+// fed straight in without network access.
+
+export type ProductSource = 'shopify' | 'json-ld' | 'meta' | 'gallery';
+
+export interface ExtractedProduct {
+  productName: string;
+  description: string;
+  price: string;
+  currency: string;
+  sku: string;
+  brand: string;
+  /** Absolute image URLs, best candidate first, without duplicates. */
+  imageUrls: string[];
+  sources: ProductSource[];
+}
+
+const MAX_IMAGES = 8;
+
+const GALLERY_HINT = /product|gallery|carousel|slide|pdp|zoom|hero|main-image|featured|media/i;
+const JUNK_IMAGE =
+  /(^|[/_.-])(logos?|icons?|favicon|sprites?|badges?|rating|stars?|payments?|pixel|spacer|placeholder|avatars?|flags?)([/_.-]|$)|\.svg(\?|$)/i;
+const IMAGE_URL_ATTRIBUTES = [
+  'data-zoom-image',
+  'data-large_image',
+  'data-large-image',
+  'data-full',
+  'data-src',
+  'data-original',
+  'src',
+];
+
+const emptyProduct = (): ExtractedProduct => ({
+  productName: '',
+  description: '',
+  price: '',
+  currency: '',
+  sku: '',
+  brand: '',
+  imageUrls: [],
+  sources: [],
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const asArray = <T>(value: T | T[] | null | undefined): T[] =>
+  value === null || value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const asText = (value: unknown) =>
+  typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+
+const decodeEntities = (value: string) =>
+  value
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ');
+
+export const stripHtml = (value: string) =>
+  decodeEntities(value.replace(/<[^>]*>/g, ' ')).replace(/\s+/g, ' ').trim();
+
+export const resolveUrl = (value: string, baseUrl: string): string | null => {
+  const trimmed = decodeEntities(value.trim());
+  if (!trimmed || trimmed.startsWith('data:')) return null;
+
+  try {
+    const resolved = new URL(trimmed.startsWith('//') ? `https:${trimmed}` : trimmed, baseUrl);
+    return resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Collapses the same image served at different sizes. Query strings are dropped and Shopify-style
+ * size suffixes (`_800x`, `_1024x1024`) are removed before comparing.
+ */
+export const normalizeImageKey = (url: string) =>
+  url
+    .split(/[?#]/)[0]
+    .replace(/_(\d+x\d*|\d*x\d+|pico|icon|thumb|small|compact|medium|large|grande|original|master)(?=\.[a-z]+$)/i, '')
+    .replace(/^https?:/, '')
+    .toLowerCase();
+
+export const dedupeImageUrls = (urls: string[]) => {
+  const seen = new Set<string>();
+
+  return urls.filter((url) => {
+    const key = normalizeImageKey(url);
+    if (seen.has(key) || JUNK_IMAGE.test(url)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+const mergeProduct = (base: ExtractedProduct, next: ExtractedProduct): ExtractedProduct => ({
+  productName: base.productName || next.productName,
+  description: base.description || next.description,
+  price: base.price || next.price,
+  currency: base.currency || next.currency,
+  sku: base.sku || next.sku,
+  brand: base.brand || next.brand,
+  imageUrls: dedupeImageUrls([...base.imageUrls, ...next.imageUrls]).slice(0, MAX_IMAGES),
+  sources: next.imageUrls.length || next.productName ? [...base.sources, ...next.sources] : base.sources,
+});
+
+// ── Meta tags ─────────────────────────────────────────
+
+const META_TAG = /<meta\b[^>]*>/gi;
+
+const readAttribute = (tag: string, name: string): string | null => {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i'));
+  return match ? (match[1] ?? match[2] ?? match[3] ?? null) : null;
+};
+
+export const extractMetaValues = (html: string, property: string): string[] =>
+  (html.match(META_TAG) || [])
+    .filter((tag) => {
+      const key = readAttribute(tag, 'property') || readAttribute(tag, 'name') || readAttribute(tag, 'itemprop');
+      return key?.toLowerCase() === property.toLowerCase();
+    })
+    .map((tag) => decodeEntities(readAttribute(tag, 'content') || '').trim())
+    .filter(Boolean);
+
+const extractMeta = (html: string, ...properties: string[]) => {
+  for (const property of properties) {
+    const [value] = extractMetaValues(html, property);
+    if (value) return value;
+  }
+  return '';
+};
+
+export const extractTitle = (html: string) => {
+  const match = html.match(/<title[^>]*>([^<]+)<\/title>/i);
+  return match?.[1] ? stripHtml(match[1]) : '';
+};
+
+export const extractFromMeta = (html: string, pageUrl: string): ExtractedProduct => ({
+  productName: extractMeta(html, 'og:title', 'twitter:title') || extractTitle(html),
+  description: extractMeta(html, 'og:description', 'twitter:description', 'description'),
+  price: extractMeta(html, 'product:price:amount', 'og:price:amount'),
+  currency: extractMeta(html, 'product:price:currency', 'og:price:currency'),
+  sku: extractMeta(html, 'product:retailer_item_id'),
+  brand: extractMeta(html, 'product:brand', 'og:brand'),
+  imageUrls: [
+    ...extractMetaValues(html, 'og:image'),
+    ...extractMetaValues(html, 'og:image:secure_url'),
+    ...extractMetaValues(html, 'twitter:image'),
+    ...extractMetaValues(html, 'twitter:image:src'),
+  ]
+    .map((url) => resolveUrl(url, pageUrl))
+    .filter((url): url is string => Boolean(url)),
+  sources: ['meta'],
+});
+
+// ── schema.org JSON-LD ────────────────────────────────
+
+export const parseJsonLdBlocks = (html: string): unknown[] => {
+  const blocks = html.match(/<script[^>]+type=["']application\/ld\+json["'][^>]*>[\s\S]*?<\/script>/gi) || [];
+
+  return blocks.flatMap((block) => {
+    try {
+      return [JSON.parse(block.replace(/^<script[^>]*>|<\/script>$/gi, '').trim())];
+    } catch {
+      return [];
+    }
+  });
+};
+
+const hasType = (node: Record<string, unknown>, type: string) =>
+  asArray(node['@type'] as string | string[]).some((value) => value === type);
+
+/** Walks arrays and `@graph` containers and returns every Product or ProductGroup node. */
+export const findProductNodes = (value: unknown): Record<string, unknown>[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap(findProductNodes);
+  }
+
+  if (!isRecord(value)) return [];
+
+  const nested = findProductNodes(value['@graph']);
+  return hasType(value, 'Product') || hasType(value, 'ProductGroup') ? [value, ...nested] : nested;
+};
+
+const readJsonLdImages = (value: unknown): string[] =>
+  asArray(value as unknown[]).flatMap((image) => {
+    if (typeof image === 'string') return [image];
+    if (isRecord(image)) return [asText(image.url) || asText(image.contentUrl)].filter(Boolean);
+    return [];
+  });
+
+const readOffer = (offers: unknown) => {
+  const offer = asArray(offers as unknown[]).find(isRecord);
+  if (!offer) return { price: '', currency: '' };
+
+  const priceSpecification = asArray(offer.priceSpecification as unknown[]).find(isRecord);
+
+  return {
+    price:
+      asText(offer.price) ||
+      asText(offer.lowPrice) ||
+      asText(priceSpecification?.price),
+    currency: asText(offer.priceCurrency) || asText(priceSpecification?.priceCurrency),
+  };
+};
+
+const readBrand = (value: unknown) => {
+  const brand = asArray(value as unknown[])[0];
+  return isRecord(brand) ? asText(brand.name) : asText(brand);
+};
+
+export const extractFromJsonLd = (html: string, pageUrl: string): ExtractedProduct => {
+  const [product, ...others] = parseJsonLdBlocks(html).flatMap(findProductNodes);
+  if (!product) return emptyProduct();
+
+  // ProductGroup pages list their variants separately; use the first one for price and sku.
+  const variant = asArray(product.hasVariant as unknown[]).find(isRecord);
+  const offer = readOffer(product.offers ?? variant?.offers);
+
+  return {
+    productName: stripHtml(asText(product.name)),
+    description: stripHtml(asText(product.description)),
+    price: offer.price,
+    currency: offer.currency,
+    sku: asText(product.sku) || asText(variant?.sku),
+    brand: readBrand(product.brand) || readBrand(product.manufacturer),
+    imageUrls: [product, variant, ...others]
+      .filter(isRecord)
+      .flatMap((node) => readJsonLdImages(node.image))
+      .map((url) => resolveUrl(url, pageUrl))
+      .filter((url): url is string => Boolean(url)),
+    sources: ['json-ld'],
+  };
+};
+
+// ── Gallery images ────────────────────────────────────
+
+const pickLargestFromSrcset = (srcset: string) =>
+  srcset
+    .split(',')
+    .map((candidate) => {
+      const [url, descriptor = ''] = candidate.trim().split(/\s+/);
+      return { url, size: parseFloat(descriptor) || 0 };
+    })
+    .sort((a, b) => b.size - a.size)[0]?.url || '';
+
+/**
+ * Finds product gallery images: `<img>` tags whose own class, id, alt, or itemprop points at a
+ * product gallery, preferring zoom or lazy-load attributes over the rendered thumbnail.
+ */
+export const extractGalleryImages = (html: string, pageUrl: string): string[] =>
+  (html.match(/<img\b[^>]*>/gi) || [])
+    .filter((tag) => {
+      const context = [readAttribute(tag, 'class'), readAttribute(tag, 'id'), readAttribute(tag, 'alt')]
+        .filter(Boolean)
+        .join(' ');
+      return readAttribute(tag, 'itemprop') === 'image' || GALLERY_HINT.test(context);
+    })
+    .map((tag) => {
+      const direct = IMAGE_URL_ATTRIBUTES.map((name) => readAttribute(tag, name)).find(
+        (value) => value && !value.startsWith('data:')
+      );
+      const srcset = readAttribute(tag, 'data-srcset') || readAttribute(tag, 'srcset');
+      return (srcset && pickLargestFromSrcset(srcset)) || direct || '';
+    })
+    .map((url) => resolveUrl(url, pageUrl))
+    .filter((url): url is string => Boolean(url));
+
+// ── Shopify ───────────────────────────────────────────
+
+/** Returns the `.json` endpoint for a Shopify product URL, or null when the path is not a product. */
+export const getShopifyProductJsonUrl = (pageUrl: string): string | null => {
+  try {
+    const url = new URL(pageUrl);
+    const match = url.pathname.match(/^(.*\/products\/[^/?#]+?)(?:\.json|\.js)?\/?$/);
+    return match ? `${url.origin}${match[1]}.json` : null;
+  } catch {
+    return null;
+  }
+};
+
+export const extractFromShopifyJson = (payload: unknown, pageUrl: string): ExtractedProduct => {
+  const product = isRecord(payload) && isRecord(payload.product) ? payload.product : null;
+  if (!product) return emptyProduct();
+
+  const variants = asArray(product.variants as unknown[]).filter(isRecord);
+  const images = asArray(product.images as unknown[])
+    .map((image) => (isRecord(image) ? asText(image.src) : asText(image)))
+    .filter(Boolean);
+
+  return {
+    productName: asText(product.title),
+    description: stripHtml(asText(product.body_html)),
+    price: asText(variants[0]?.price),
+    currency: asText(variants[0]?.price_currency),
+    sku: asText(variants[0]?.sku),
+    brand: asText(product.vendor),
+    imageUrls: images
+      .map((url) => resolveUrl(url, pageUrl))
+      .filter((url): url is string => Boolean(url)),
+    sources: ['shopify'],
+  };
+};
+
+// ── Combined ──────────────────────────────────────────
+
+/**
+ * Combines every extractor in priority order: Shopify JSON (when provided), JSON-LD, meta tags,
+ * then gallery images. Earlier sources win for text fields; images are merged and de-duplicated.
+ */
+export const extractProduct = (
+  html: string,
+  pageUrl: string,
+  shopifyPayload?: unknown
+): ExtractedProduct =>
+  [
+    shopifyPayload ? extractFromShopifyJson(shopifyPayload, pageUrl) : emptyProduct(),
+    extractFromJsonLd(html, pageUrl),
+    extractFromMeta(html, pageUrl),
+    { ...emptyProduct(), imageUrls: extractGalleryImages(html, pageUrl), sources: ['gallery' as const] },
+  ].reduce(mergeProduct, emptyProduct());
@@ -0,0 +1,153 @@
+/**
+ * Product Import
+ * Fetches a product page through the scrape-product edge function and turns the result into
+ * ProductInputData for the Photo Studio, gallery shots included as additionalImages.
+ *
+ * Library only for now: the Photo Studio components (ProductInput's URL field) are not part of
+ * this repository, so nothing in the app calls importProductFromUrl yet.
+ */
+
+import { ProductInputData } from '../types';
+import { supabase } from './supabase';
+
+export type ProductImportErrorCode =
+  | 'scene/invalid-url'
+  | 'scene/blocked-url'
+  | 'scene/unsupported-content'
+  | 'scene/page-too-large'
+  | 'scene/image-too-large'
+  | 'scene/fetch-timeout'
+  | 'scene/no-product-image'
+  | 'scene/rate-limited'
+  | 'scene/not-authenticated'
+  | 'scene/scrape-failed';
+
+const PRODUCT_IMPORT_ERROR_CODES: ProductImportErrorCode[] = [
+  'scene/invalid-url',
+  'scene/blocked-url',
+  'scene/unsupported-content',
+  'scene/page-too-large',
+  'scene/image-too-large',
+  'scene/fetch-timeout',
+  'scene/no-product-image',
+  'scene/rate-limited',
+  'scene/not-authenticated',
+  'scene/scrape-failed',
+];
+
+export class ProductImportError extends Error {
+  code: ProductImportErrorCode;
+
+  constructor(code: ProductImportErrorCode, message?: string) {
+    super(message || 'Product import failed.');
+
+    this.name = 'ProductImportError';
+    this.code = code;
+  }
+}
+
+interface ScrapeProductResponse {
+  productName?: string;
+  imageUrl?: string | null;
+  imageUrls?: string[];
+  imageBase64?: string | null;
+  additionalImages?: string[];
+  metadata?: {
+    description?: string;
+    price?: string;
+    currency?: string;
+    sku?: string;
+    brand?: string;
+    sourceUrl?: string;
+  };
+}
+
+interface ScrapeProductErrorBody {
+  error?: {
+    code?: string;
+    message?: string;
+  };
+}
+
+/**
+ * Accepts what people paste into a URL field, including addresses without a scheme, and returns
+ * an absolute http(s) URL or null.
+ */
+export const normalizeProductUrl = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  try {
+    const url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const toImportErrorCode = (code?: string): ProductImportErrorCode =>
+  PRODUCT_IMPORT_ERROR_CODES.find((known) => known === code) || 'scene/scrape-failed';
+
+/** Reads the structured `{ error: { code, message } }` body scrape-product returns on failure. */
+const toProductImportError = async (error: unknown): Promise<ProductImportError> => {
+  const message = error instanceof Error ? error.message : undefined;
+  // FunctionsHttpError carries the function's Response as `context`
+  const response = error && typeof error === 'object' && 'context' in error ? (error.context as Response) : undefined;
+
+  if (!response || typeof response.json !== 'function') {
+    return new ProductImportError('scene/scrape-failed', message);
+  }
+
+  try {
+    const body = (await response.json()) as ScrapeProductErrorBody;
+    return new ProductImportError(toImportErrorCode(body.error?.code), body.error?.message || message);
+  } catch {
+    return new ProductImportError('scene/scrape-failed', message);
+  }
+};
+
+const compactMetadata = (metadata: NonNullable<ScrapeProductResponse['metadata']>) => {
+  const entries = (['description', 'price', 'currency', 'sku', 'brand'] as const)
+    .filter((key) => Boolean(metadata[key]))
+    .map((key) => [key, metadata[key]]);
+
+  return entries.length > 0 ? (Object.fromEntries(entries) as ProductInputData['metadata']) : undefined;
+};
+
+/**
+ * Imports a product from its page URL. The first downloaded image becomes the reference photo and
+ * the remaining gallery images are passed along as extra angles.
+ */
+export const importProductFromUrl = async (rawUrl: string): Promise<ProductInputData> => {
+  const url = normalizeProductUrl(rawUrl);
+  if (!url) {
+    throw new ProductImportError('scene/invalid-url');
+  }
+
+  if (!supabase) {
+    throw new ProductImportError('scene/scrape-failed', 'Supabase not configured');
+  }
+
+  const { data, error } = await supabase.functions.invoke<ScrapeProductResponse>('scrape-product', {
+    body: { url },
+  });
+
+  if (error) {
+    throw await toProductImportError(error);
+  }
+
+  if (!data?.imageBase64) {
+    throw new ProductImportError('scene/no-product-image');
+  }
+
+  const metadata = data.metadata ? compactMetadata(data.metadata) : undefined;
+
+  return {
+    imageBase64: data.imageBase64,
+    additionalImages: data.additionalImages?.length ? data.additionalImages : undefined,
+    productName: data.productName?.trim() || new URL(url).hostname,
+    sourceType: 'url',
+    sourceUrl: data.metadata?.sourceUrl || url,
+    ...(metadata ? { metadata } : {}),
+  };
+};
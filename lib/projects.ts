@@ -5,6 +5,7 @@ import {
   ProjectRecord,
   ProjectStatusRecord,
   QuestionnaireAnswerRecord,
+  ShareLinkRecord,
 } from './supabase';
 import {
   BrandFormData,
@@ -12,7 +13,10 @@ import {
   BrandKitLocks,
   BrandProject,
   BrandProjectWorkspace,
+  BrandResultMetadata,
   SavedBrandResult,
+  ShareLink,
+  SharedBrandResult,
 } from '../types';
 import {
   answersToFormData,
@@ -36,6 +40,7 @@ const mapResult = (record: BrandResultRecord): SavedBrandResult => ({
   logoImageUrl: record.generated_logo_url,
   logoGeneratedAt: record.generated_logo_at,
   sourceModel: record.source_model,
+  metadata: (record.metadata as BrandResultMetadata) || {},
   createdAt: record.created_at,
   updatedAt: record.updated_at,
 });
@@ -343,7 +348,12 @@ export const updateProjectKitLocks = async (
 export const saveBrandResult = async (
   projectId: string,
   result: BrandKit,
-  sourceModel?: string
+  sourceModel?: string,
+  options?: {
+    metadata?: BrandResultMetadata;
+    logoImageUrl?: string | null;
+    logoGeneratedAt?: string | null;
+  }
 ): Promise<SavedBrandResult> => {
   const client = requireSupabase();
   const { data, error } = await client
@@ -352,6 +362,9 @@ export const saveBrandResult = async (
       project_id: projectId,
       result_json: result,
       source_model: sourceModel || null,
+      metadata: options?.metadata || {},
+      generated_logo_url: options?.logoImageUrl || null,
+      generated_logo_at: options?.logoGeneratedAt || null,
     })
     .select('*')
     .single();
@@ -363,6 +376,27 @@ export const saveBrandResult = async (
   return mapResult(data as BrandResultRecord);
 };
 
+/**
+ * Makes an older version current again by copying it as the newest row. The newest row is what
+ * listProjects, regeneration, and locks treat as the active result, so nothing else has to change.
+ */
+export const promoteBrandResult = async (
+  projectId: string,
+  result: SavedBrandResult
+): Promise<SavedBrandResult> =>
+  saveBrandResult(projectId, result.result, result.sourceModel || undefined, {
+    metadata: {
+      qualityReport: result.metadata.qualityReport,
+      colorCorrections: result.metadata.colorCorrections,
+      restoredFrom: {
+        resultId: result.id,
+        createdAt: result.createdAt,
+      },
+    },
+    logoImageUrl: result.logoImageUrl,
+    logoGeneratedAt: result.logoGeneratedAt,
+  });
+
 export const updateBrandResult = async (
   resultId: string,
   result: BrandKit
@@ -456,3 +490,139 @@ export const recordExport = async (params: {
     throw error;
   }
 };
+
+const mapShareLink = (record: ShareLinkRecord): ShareLink => ({
+  id: record.id,
+  projectId: record.project_id,
+  brandResultId: record.brand_result_id,
+  token: record.token,
+  label: record.label,
+  includeAnswers: record.include_answers,
+  expiresAt: record.expires_at,
+  revokedAt: record.revoked_at,
+  viewCount: record.view_count,
+  lastViewedAt: record.last_viewed_at,
+  createdAt: record.created_at,
+});
+
+export const getShareLinkUrl = (token: string) => `${window.location.origin}/share/${token}`;
+
+export const listShareLinks = async (projectId: string): Promise<ShareLink[]> => {
+  const client = requireSupabase();
+  const { data, error } = await client
+    .from('share_links')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw error;
+  }
+
+  return ((data || []) as ShareLinkRecord[]).map(mapShareLink);
+};
+
+/**
+ * Creates a public link to one saved result and logs it as a 'link' export. The token is
+ * generated by the database; leaving expiresInDays empty keeps the link open until revoked.
+ * Viewers only see the full questionnaire when includeAnswers is set.
+ */
+export const createShareLink = async (params: {
+  projectId: string;
+  brandResultId: string;
+  label?: string;
+  expiresInDays?: number | null;
+  includeAnswers?: boolean;
+}): Promise<ShareLink> => {
+  const client = requireSupabase();
+  const expiresAt = params.expiresInDays
+    ? new Date(Date.now() + params.expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+    : null;
+
+  const { data, error } = await client
+    .from('share_links')
+    .insert({
+      project_id: params.projectId,
+      brand_result_id: params.brandResultId,
+      label: params.label?.trim() || null,
+      include_answers: Boolean(params.includeAnswers),
+      expires_at: expiresAt,
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  const shareLink = mapShareLink(data as ShareLinkRecord);
+
+  try {
+    await recordExport({
+      projectId: params.projectId,
+      brandResultId: params.brandResultId,
+      exportType: 'link',
+      exportUrl: getShareLinkUrl(shareLink.token),
+      metadata: {
+        versionId: params.brandResultId,
+        shareLinkId: shareLink.id,
+        expiresAt,
+        includeAnswers: shareLink.includeAnswers,
+      },
+    });
+  } catch (exportError) {
+    console.error('Failed to record share link export:', exportError);
+  }
+
+  return shareLink;
+};
+
+export const revokeShareLink = async (shareLinkId: string): Promise<ShareLink> => {
+  const client = requireSupabase();
+  const { data, error } = await client
+    .from('share_links')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareLinkId)
+    .select('*')
+    .single();
+
+  if (error) {
+    throw error;
+  }
+
+  return mapShareLink(data as ShareLinkRecord);
+};
+
+/** Resolves a public share token without requiring a session. Returns null for dead links. */
+export const loadSharedBrandResult = async (token: string): Promise<SharedBrandResult | null> => {
+  const client = requireSupabase();
+  const { data, error } = await client.rpc('get_shared_brand_result', { p_token: token });
+
+  if (error) {
+    throw error;
+  }
+
+  if (!data) {
+    return null;
+  }
+
+  const payload = data as {
+    brandName: string;
+    expiresAt: string | null;
+    includesAnswers: boolean;
+    result: Omit<SavedBrandResult, 'projectId' | 'metadata'>;
+    answers: Array<{ question_key: string; answer: unknown }>;
+  };
+
+  return {
+    brandName: payload.brandName,
+    expiresAt: payload.expiresAt,
+    includesAnswers: Boolean(payload.includesAnswers),
+    formData: { ...answersToFormData(payload.answers || []), brandName: payload.brandName },
+    result: {
+      ...payload.result,
+      projectId: '',
+      metadata: {},
+    },
+  };
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { SceneGenerationRequest, SceneProvider } from '../types';
+import {
+  createMockSceneProvider,
+  generateScenes,
+  getDefaultSceneProviders,
+  SceneGenerationError,
+  SceneImageProvider,
+} from './sceneGeneration';
+
+const request: SceneGenerationRequest = {
+  product: { imageBase64: 'iVBORw0KGgo=', productName: 'Stoneware Mug', sourceType: 'upload' },
+  scenes: ['studio', 'lifestyle'],
+  moodText: 'calm morning',
+  interpretation: {
+    temperature: 'warm',
+    energy: 'calm',
+    materialBias: 'natural textures',
+    lightQuality: 'soft diffused light',
+    rawInput: 'calm morning',
+    wasOverridden: false,
+    overrideNotes: [],
+  },
+  sceneInterpretations: {},
+};
+
+const failingProvider = (id: SceneProvider, error: unknown): SceneImageProvider => ({
+  id,
+  isAvailable: () => true,
+  generate: vi.fn(async () => {
+    throw error;
+  }),
+});
+
+describe('generateScenes', () => {
+  it('falls back to the next provider when one fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const gemini = failingProvider('gemini', new Error('quota exceeded'));
+
+    const scenes = await generateScenes(request, { providers: [gemini, createMockSceneProvider()] });
+
+    expect(scenes.map((scene) => [scene.sceneType, scene.provider])).toEqual([
+      ['studio', 'mock'],
+      ['lifestyle', 'mock'],
+    ]);
+    expect(gemini.generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('skips providers that are not available', async () => {
+    const offline: SceneImageProvider = { ...createMockSceneProvider(), id: 'gemini', isAvailable: () => false };
+    const generate = vi.spyOn(offline, 'generate');
+
+    const [scene] = await generateScenes(
+      { ...request, scenes: ['studio'] },
+      { providers: [offline, createMockSceneProvider()] }
+    );
+
+    expect(scene.provider).toBe('mock');
+    expect(generate).not.toHaveBeenCalled();
+  });
+
+  it('reports every attempt when a scene fails on all providers', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const error = await generateScenes(request, {
+      providers: [failingProvider('gemini', new Error('invalid key')), failingProvider('replicate', 'offline')],
+    }).catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(SceneGenerationError);
+    expect(error).toMatchObject({
+      code: 'scene/all-apis-failed',
+      attempts: [
+        { provider: 'gemini', sceneType: 'studio', message: 'invalid key' },
+        { provider: 'replicate', sceneType: 'studio', message: 'Unknown error' },
+      ],
+    });
+  });
+
+  it('rejects a request without scenes', async () => {
+    await expect(generateScenes({ ...request, scenes: [] })).rejects.toMatchObject({ code: 'scene/no-scenes-selected' });
+  });
+});
+
+describe('getDefaultSceneProviders', () => {
+  it('uses the founder keys directly and the hosted function otherwise', () => {
+    const local = getDefaultSceneProviders({ geminiApiKey: 'own-key' });
+
+    expect(local.map((provider) => provider.id)).toEqual(['gemini', 'replicate', 'pollinations']);
+    expect(local[0].isAvailable()).toBe(true);
+  });
+
+  it('leaves only Pollinations available without keys or a cloud backend', () => {
+    const available = getDefaultSceneProviders().filter((provider) => provider.isAvailable());
+
+    expect(available.map((provider) => provider.id)).toEqual(['pollinations']);
+  });
+});
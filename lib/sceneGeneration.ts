@@ -0,0 +1,342 @@
+/**
+ * Scene Generation Service
+ * Turns a SceneGenerationRequest into product photographs, trying Gemini, Replicate, and
+ * Pollinations in order until one returns an image for each scene. In cloud mode the keyed
+ * providers run in the generate-scene function so their keys stay server-side; local mode calls
+ * them directly with the founder's own keys.
+ */
+
+import { GoogleGenAI, Modality } from '@google/genai';
+import { GeneratedScene, ProductInputData, SceneGenerationRequest, SceneProvider, SceneType } from '../types';
+import { buildScenePrompt, getSceneConfig } from './sceneStrategy';
+import { supabase, supabaseAnonKey, supabaseUrl } from './supabase';
+
+export interface SceneProviderInput {
+  sceneType: SceneType;
+  prompt: string;
+  negativePrompt: string;
+  product: ProductInputData;
+}
+
+export interface SceneImageProvider {
+  id: SceneProvider;
+  isAvailable: () => boolean;
+  /** Resolves with the generated image as raw base64 (no data URL prefix). */
+  generate: (input: SceneProviderInput) => Promise<string>;
+}
+
+export interface SceneAttemptFailure {
+  provider: SceneProvider;
+  sceneType: SceneType;
+  message: string;
+}
+
+export type SceneGenerationErrorCode = 'scene/no-scenes-selected' | 'scene/all-apis-failed';
+
+export class SceneGenerationError extends Error {
+  code: SceneGenerationErrorCode;
+  attempts: SceneAttemptFailure[];
+
+  constructor(code: SceneGenerationErrorCode, attempts: SceneAttemptFailure[] = []) {
+    super(
+      attempts.length > 0
+        ? attempts.map((attempt) => `${attempt.provider} (${attempt.sceneType}): ${attempt.message}`).join(' | ')
+        : 'Scene generation failed.'
+    );
+
+    this.name = 'SceneGenerationError';
+    this.code = code;
+    this.attempts = attempts;
+  }
+}
+
+/** Keys the founder supplied in local mode. Without them the hosted providers are used. */
+export interface SceneProviderKeys {
+  geminiApiKey?: string;
+  replicateApiKey?: string;
+}
+
+const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+const REPLICATE_SDXL_VERSION = '7762fd07cf82c948538e41f63f77d685e02b063e37e496e96eefd46c929f9bdc';
+const REPLICATE_PROMPT_STRENGTH = 0.65;
+const REPLICATE_POLL_LIMIT = 60;
+
+const DATA_URL_PATTERN = /^data:([^;]+);base64,(.*)$/;
+
+const toInlineImage = (value: string) => {
+  const match = value.match(DATA_URL_PATTERN);
+  return match ? { mimeType: match[1], data: match[2] } : { mimeType: 'image/png', data: value };
+};
+
+const toDataUrl = (value: string) => {
+  const image = toInlineImage(value);
+  return `data:${image.mimeType};base64,${image.data}`;
+};
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer) => {
+  const bytes = new Uint8Array(buffer);
+  let binary = '';
+
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+
+  return btoa(binary);
+};
+
+const fetchImageAsBase64 = async (url: string) => {
+  const response = await fetch(url);
+
+  if (!response.ok) {
+    throw new Error(`Image download failed: ${response.status} ${response.statusText}`);
+  }
+
+  return arrayBufferToBase64(await response.arrayBuffer());
+};
+
+const hashString = (value: string) =>
+  Array.from(value).reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) >>> 0, 7);
+
+export const createGeminiSceneProvider = (apiKey?: string): SceneImageProvider => ({
+  id: 'gemini',
+  isAvailable: () => Boolean(apiKey),
+  generate: async ({ prompt, negativePrompt, product }) => {
+    const ai = new GoogleGenAI({ apiKey: apiKey as string });
+    const images = [product.imageBase64, ...(product.additionalImages || [])].map(toInlineImage);
+
+    const response = await ai.models.generateContent({
+      model: DEFAULT_GEMINI_IMAGE_MODEL,
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: `${prompt}\n\nAvoid: ${negativePrompt}.` },
+            ...images.map((image) => ({ inlineData: image })),
+          ],
+        },
+      ],
+      config: {
+        responseModalities: [Modality.IMAGE, Modality.TEXT],
+      },
+    });
+
+    const imagePart = response.candidates?.[0]?.content?.parts?.find((part) => part.inlineData?.data);
+
+    if (!imagePart?.inlineData?.data) {
+      throw new Error('Gemini returned no image for this scene.');
+    }
+
+    return imagePart.inlineData.data;
+  },
+});
+
+export const createReplicateSceneProvider = (apiKey?: string): SceneImageProvider => ({
+  id: 'replicate',
+  isAvailable: () => Boolean(apiKey),
+  generate: async ({ prompt, negativePrompt, product }) => {
+    const response = await fetch('https://api.replicate.com/v1/predictions', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Token ${apiKey}`,
+      },
+      body: JSON.stringify({
+        version: REPLICATE_SDXL_VERSION,
+        input: {
+          prompt,
+          negative_prompt: negativePrompt,
+          image: toDataUrl(product.imageBase64),
+          prompt_strength: REPLICATE_PROMPT_STRENGTH,
+          num_outputs: 1,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Replicate API error: ${response.status} ${response.statusText}`);
+    }
+
+    let prediction = await response.json();
+    let polls = 0;
+
+    while (prediction.status === 'starting' || prediction.status === 'processing') {
+      if (polls >= REPLICATE_POLL_LIMIT) {
+        throw new Error('Replicate prediction timed out.');
+      }
+
+      polls += 1;
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+      const statusResponse = await fetch(`https://api.replicate.com/v1/predictions/${prediction.id}`, {
+        headers: {
+          Authorization: `Token ${apiKey}`,
+        },
+      });
+      prediction = await statusResponse.json();
+    }
+
+    if (prediction.status !== 'succeeded' || !prediction.output?.[0]) {
+      throw new Error(prediction.error || 'Replicate prediction failed.');
+    }
+
+    return fetchImageAsBase64(prediction.output[0]);
+  },
+});
+
+const requireSupabase = () => {
+  if (!supabase || !supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase not configured');
+  }
+
+  return supabase;
+};
+
+/**
+ * Runs Gemini or Replicate through the generate-scene function with the signed-in session. It is
+ * only available in cloud mode; the function answers with an error when its key is not set.
+ */
+export const createHostedSceneProvider = (id: 'gemini' | 'replicate'): SceneImageProvider => ({
+  id,
+  isAvailable: () => Boolean(supabase && supabaseUrl && supabaseAnonKey),
+  generate: async ({ prompt, negativePrompt, product }) => {
+    const {
+      data: { session },
+    } = await requireSupabase().auth.getSession();
+
+    if (!session?.access_token) {
+      throw new Error('Sign in to generate scenes.');
+    }
+
+    const response = await fetch(`${supabaseUrl}/functions/v1/generate-scene`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${session.access_token}`,
+        apikey: supabaseAnonKey,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        provider: id,
+        prompt,
+        negativePrompt,
+        images: [product.imageBase64, ...(product.additionalImages || [])],
+      }),
+    });
+
+    const payload: { imageBase64?: unknown; error?: { code?: string; message?: string } } = await response
+      .json()
+      .catch(() => ({}));
+
+    if (!response.ok || typeof payload.imageBase64 !== 'string') {
+      throw new Error(payload.error?.message || `Scene function error: ${response.status}`);
+    }
+
+    return payload.imageBase64;
+  },
+});
+
+/**
+ * Pollinations needs no key but cannot take a reference image, so the product is described in
+ * the prompt only. It sits last in the chain for that reason.
+ */
+export const createPollinationsSceneProvider = (): SceneImageProvider => ({
+  id: 'pollinations',
+  isAvailable: () => true,
+  generate: async ({ prompt, negativePrompt }) => {
+    const params = new URLSearchParams({
+      width: '1024',
+      height: '1024',
+      nologo: 'true',
+      seed: String(hashString(prompt)),
+      negative: negativePrompt,
+    });
+
+    return fetchImageAsBase64(
+      `https://image.pollinations.ai/prompt/${encodeURIComponent(prompt)}?${params.toString()}`
+    );
+  },
+});
+
+/**
+ * Renders a labeled SVG placeholder (base64 of image/svg+xml) instead of calling a service. Output
+ * is deterministic for a given prompt, which keeps UI work and tests independent of image APIs.
+ */
+export const createMockSceneProvider = (): SceneImageProvider => ({
+  id: 'mock',
+  isAvailable: () => true,
+  generate: async ({ sceneType, prompt, product }) => {
+    const hue = hashString(prompt) % 360;
+    const label = `${getSceneConfig(sceneType).label} · ${product.productName}`.replace(/[<>&"]/g, '');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1024" height="1024" viewBox="0 0 1024 1024"><rect width="1024" height="1024" fill="hsl(${hue}, 24%, 88%)"/><rect x="312" y="312" width="400" height="400" fill="hsl(${hue}, 30%, 62%)"/><text x="512" y="820" font-family="monospace" font-size="32" text-anchor="middle" fill="#222">${label}</text></svg>`;
+
+    return btoa(unescape(encodeURIComponent(svg)));
+  },
+});
+
+export const getDefaultSceneProviders = (keys: SceneProviderKeys = {}): SceneImageProvider[] => [
+  keys.geminiApiKey ? createGeminiSceneProvider(keys.geminiApiKey) : createHostedSceneProvider('gemini'),
+  keys.replicateApiKey ? createReplicateSceneProvider(keys.replicateApiKey) : createHostedSceneProvider('replicate'),
+  createPollinationsSceneProvider(),
+];
+
+/**
+ * Generates every requested scene in order. Each scene walks the provider chain until one
+ * succeeds; if a scene fails on every provider the whole request fails with the collected attempts.
+ */
+export const generateScenes = async (
+  request: SceneGenerationRequest,
+  options?: {
+    providers?: SceneImageProvider[];
+    keys?: SceneProviderKeys;
+    onScene?: (scene: GeneratedScene) => void;
+  }
+): Promise<GeneratedScene[]> => {
+  if (request.scenes.length === 0) {
+    throw new SceneGenerationError('scene/no-scenes-selected');
+  }
+
+  const providers = (options?.providers || getDefaultSceneProviders(options?.keys)).filter((provider) =>
+    provider.isAvailable()
+  );
+  const scenes: GeneratedScene[] = [];
+
+  for (const sceneType of request.scenes) {
+    const { prompt, negativePrompt } = buildScenePrompt(request, sceneType);
+    const attempts: SceneAttemptFailure[] = [];
+    let scene: GeneratedScene | null = null;
+
+    for (const provider of providers) {
+      try {
+        const imageBase64 = await provider.generate({
+          sceneType,
+          prompt,
+          negativePrompt,
+          product: request.product,
+        });
+
+        scene = {
+          sceneType,
+          imageBase64,
+          promptUsed: prompt,
+          generatedAt: Date.now(),
+          provider: provider.id,
+        };
+        break;
+      } catch (error) {
+        console.warn(`Scene generation with ${provider.id} failed:`, error);
+        attempts.push({
+          provider: provider.id,
+          sceneType,
+          message: error instanceof Error && error.message ? error.message : 'Unknown error',
+        });
+      }
+    }
+
+    if (!scene) {
+      throw new SceneGenerationError('scene/all-apis-failed', attempts);
+    }
+
+    scenes.push(scene);
+    options?.onScene?.(scene);
+  }
+
+  return scenes;
+};
@@ -0,0 +1,233 @@
+import type {
+  BrandFormData,
+  BrandKit,
+  BusinessContextData,
+  ProductInputData,
+  SceneConfig,
+  SceneGenerationRequest,
+  SceneType,
+} from '../types.ts';
+import { applySceneRules, interpretMood } from './moodInterpretation.ts';
+
+export const SCENE_TYPES: SceneType[] = ['studio', 'lifestyle', 'editorial'];
+
+export const SCENE_CATALOG: Record<SceneType, SceneConfig> = {
+  studio: {
+    type: 'studio',
+    label: 'Studio',
+    description: 'The product alone on a seamless backdrop, lit like a catalog shot.',
+    useCase: 'Product pages, marketplaces, and anywhere the product has to read instantly.',
+    rules: {
+      backgroundStyle: 'seamless white or soft light-grey sweep with no visible horizon line',
+      lightingStyle: 'even softbox lighting from both sides with a gentle contact shadow under the product',
+      compositionStyle: 'product centered and filling roughly two thirds of the frame, straight-on or slight three-quarter angle',
+      propsPolicy: 'none',
+      negativePromptAdditions: ['props', 'busy background', 'colored backdrop', 'hard shadows', 'people'],
+    },
+  },
+  lifestyle: {
+    type: 'lifestyle',
+    label: 'Lifestyle',
+    description: 'The product in a believable real-world setting where the customer would use it.',
+    useCase: 'Social posts, homepage banners, and ads that show the product in context.',
+    rules: {
+      backgroundStyle: 'a real, lived-in environment that fits the product purpose, softly out of focus behind the product',
+      lightingStyle: 'natural window or ambient daylight with soft falloff',
+      compositionStyle: 'product as the clear hero in the foreground, environment framing it, rule-of-thirds placement',
+      propsPolicy: 'minimal-contextual',
+      negativePromptAdditions: ['cluttered scene', 'competing products', 'visible logos of other brands', 'distorted hands'],
+    },
+  },
+  editorial: {
+    type: 'editorial',
+    label: 'Editorial',
+    description: 'A styled, magazine-grade composition with strong light and graphic shapes.',
+    useCase: 'Campaign imagery, lookbooks, press kits, and launch visuals.',
+    rules: {
+      backgroundStyle: 'sculptural set built from planes, plinths, or architectural forms in a restrained color story',
+      lightingStyle: 'directional hard light with defined shadows and deliberate highlights',
+      compositionStyle: 'bold, asymmetric framing with negative space and a confident camera angle',
+      propsPolicy: 'architectural-only',
+      negativePromptAdditions: ['flat lighting', 'stock photo look', 'everyday clutter', 'text overlays'],
+    },
+  },
+};
+
+const PROPS_POLICY_COPY: Record<SceneConfig['rules']['propsPolicy'], string> = {
+  none: 'No props. Nothing else in the frame but the product and its shadow.',
+  'minimal-contextual': 'At most two or three contextual props that explain how the product is used. Props must never cover the product.',
+  'architectural-only': 'Only abstract set pieces such as blocks, arches, plinths, or panels. No everyday objects.',
+};
+
+const BASE_NEGATIVE_PROMPT = [
+  'altered product design',
+  'changed label or packaging text',
+  'extra copies of the product',
+  'watermark',
+  'text',
+  'blurry',
+  'low resolution',
+  'cartoon',
+  'illustration',
+];
+
+export const getSceneConfig = (sceneType: SceneType) => SCENE_CATALOG[sceneType];
+
+export const buildSceneBusinessContext = (data: BrandFormData): BusinessContextData => ({
+  businessName: data.brandName,
+  businessDescription: data.offering,
+  targetAudience: data.audience.join(', '),
+  productPurpose: data.purpose,
+  brandTone: data.tone.join(', '),
+});
+
+export const buildSceneBrandContext = (
+  kit: BrandKit,
+  brandName?: string
+): NonNullable<SceneGenerationRequest['brandContext']> => ({
+  brandName,
+  colorPalette: kit.colorPaletteSuggestions.map((color) => color.hex).filter(Boolean),
+  visualDirection: kit.visualDirection,
+});
+
+/**
+ * Assembles a request from the Photo Studio inputs. When a brand kit is available its palette,
+ * visual direction, and imagery mood keep the scenes on-brand. Each selected scene gets its own
+ * interpretation, and the notes from every scene override are merged into the shared one.
+ */
+export const buildSceneGenerationRequest = (params: {
+  product: ProductInputData;
+  scenes: SceneType[];
+  moodText: string;
+  businessContext?: BusinessContextData;
+  formData?: BrandFormData;
+  kit?: BrandKit;
+}): SceneGenerationRequest => {
+  const interpretation = interpretMood(params.moodText, {
+    fallbackMood: params.kit?.imageryDirection?.mood,
+  });
+  const sceneInterpretations: SceneGenerationRequest['sceneInterpretations'] = {};
+  const overrideNotes = [...interpretation.overrideNotes];
+
+  for (const sceneType of params.scenes) {
+    const sceneInterpretation = applySceneRules(interpretation, sceneType);
+    sceneInterpretations[sceneType] = sceneInterpretation;
+    overrideNotes.push(...sceneInterpretation.overrideNotes.filter((note) => !overrideNotes.includes(note)));
+  }
+
+  return {
+    product: params.product,
+    scenes: params.scenes,
+    moodText: params.moodText,
+    interpretation: {
+      ...interpretation,
+      wasOverridden: overrideNotes.length > 0,
+      overrideNotes,
+    },
+    sceneInterpretations,
+    businessContext:
+      params.businessContext || (params.formData ? buildSceneBusinessContext(params.formData) : undefined),
+    brandContext: params.kit ? buildSceneBrandContext(params.kit, params.formData?.brandName) : undefined,
+  };
+};
+
+const buildProductBlock = (request: SceneGenerationRequest) => {
+  const { product } = request;
+  const lines = [`Product: ${product.productName}${product.metadata?.brand ? ` by ${product.metadata.brand}` : ''}.`];
+
+  if (product.metadata?.description) {
+    lines.push(`Product notes: ${product.metadata.description}`);
+  }
+
+  lines.push(
+    product.additionalImages?.length
+      ? 'The attached photos show the same product from several angles. Treat them as the exact reference.'
+      : 'The attached photo is the exact product reference.'
+  );
+  lines.push('Do not redesign, relabel, recolor, or reshape the product.');
+
+  return lines.join('\n');
+};
+
+const buildMoodBlock = (request: SceneGenerationRequest, sceneType: SceneType) => {
+  const interpretation =
+    request.sceneInterpretations[sceneType] || applySceneRules(request.interpretation, sceneType);
+
+  return [
+    `Mood: ${interpretation.temperature} color temperature, ${interpretation.energy} energy.`,
+    `Materials and surfaces: ${interpretation.materialBias}.`,
+    `Light quality: ${interpretation.lightQuality}.`,
+  ].join('\n');
+};
+
+const buildBusinessBlock = (context?: BusinessContextData) => {
+  if (!context) return '';
+
+  const lines = [
+    context.businessName && context.businessDescription
+      ? `Made for ${context.businessName}: ${context.businessDescription}`
+      : context.businessName
+        ? `Made for ${context.businessName}.`
+        : '',
+    context.targetAudience ? `Audience: ${context.targetAudience}.` : '',
+    context.productPurpose ? `What the product is for: ${context.productPurpose}.` : '',
+    context.brandTone ? `Brand tone: ${context.brandTone}.` : '',
+  ].filter(Boolean);
+
+  return lines.length > 0 ? `Business context:\n${lines.join('\n')}` : '';
+};
+
+const buildBrandBlock = (brandContext?: SceneGenerationRequest['brandContext']) => {
+  if (!brandContext) return '';
+
+  const lines = [
+    brandContext.colorPalette?.length
+      ? `Let set surfaces, backdrops, and props echo the brand palette ${brandContext.colorPalette
+          .slice(0, 5)
+          .join(', ')} without recoloring the product.`
+      : '',
+    brandContext.visualDirection ? `Brand visual direction: ${brandContext.visualDirection}` : '',
+  ].filter(Boolean);
+
+  return lines.length > 0 ? `Brand system:\n${lines.join('\n')}` : '';
+};
+
+/**
+ * Builds the image prompt for one scene. Scene rules come first so that mood, business, and brand
+ * context can only color the scene, never override its background, lighting, or props policy.
+ */
+export const buildScenePrompt = (
+  request: SceneGenerationRequest,
+  sceneType: SceneType
+): { prompt: string; negativePrompt: string } => {
+  const config = getSceneConfig(sceneType);
+  const sceneIndex = request.scenes.indexOf(sceneType);
+  const consistency =
+    request.scenes.length > 1
+      ? `This is scene ${sceneIndex + 1} of ${request.scenes.length} in one product set. The product must look identical in every scene: same shape, proportions, colors, and label.`
+      : '';
+
+  const prompt = [
+    `Photorealistic commercial product photograph. ${config.label} scene: ${config.description}`,
+    consistency,
+    buildProductBlock(request),
+    [
+      'Scene rules:',
+      `- Background: ${config.rules.backgroundStyle}.`,
+      `- Lighting: ${config.rules.lightingStyle}.`,
+      `- Composition: ${config.rules.compositionStyle}.`,
+      `- Props: ${PROPS_POLICY_COPY[config.rules.propsPolicy]}`,
+    ].join('\n'),
+    buildMoodBlock(request, sceneType),
+    buildBusinessBlock(request.businessContext),
+    buildBrandBlock(request.brandContext),
+    'High resolution, sharp focus on the product, accurate materials and reflections, no text or watermarks.',
+  ]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return {
+    prompt,
+    negativePrompt: [...BASE_NEGATIVE_PROMPT, ...config.rules.negativePromptAdditions].join(', '),
+  };
+};
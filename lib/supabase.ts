@@ -55,6 +55,7 @@ export interface BrandResultRecord {
   source_model: string | null;
   generated_logo_url: string | null;
   generated_logo_at: string | null;
+  metadata: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
 }
@@ -63,13 +64,27 @@ export interface ExportRecord {
   id: string;
   project_id: string;
   brand_result_id: string | null;
-  export_type: 'pdf' | 'link' | 'json';
+  export_type: 'pdf' | 'link' | 'json' | 'tokens' | 'package' | 'markdown';
   file_name: string | null;
   export_url: string | null;
   metadata: Record<string, unknown>;
   created_at: string;
 }
 
+export interface ShareLinkRecord {
+  id: string;
+  project_id: string;
+  brand_result_id: string;
+  token: string;
+  label: string | null;
+  include_answers: boolean;
+  expires_at: string | null;
+  revoked_at: string | null;
+  view_count: number;
+  last_viewed_at: string | null;
+  created_at: string;
+}
+
 // Legacy billing tables kept for compatibility with older flows.
 export interface UserProfile {
   id: string;
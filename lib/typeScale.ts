@@ -0,0 +1,31 @@
+/**
+ * Type Scale
+ * Modular type scales: every level is the base size multiplied by the ratio raised to the
+ * level's step, rounded to whole pixels.
+ */
+
+export type TypeScaleLevelId = 'caption' | 'body' | 'lead' | 'h4' | 'h3' | 'h2' | 'h1' | 'display';
+
+export interface TypeScaleLevel {
+  id: TypeScaleLevelId;
+  label: string;
+  step: number;
+  size: number;
+  /** Whether the level is set in the heading family */
+  heading: boolean;
+}
+
+const TYPE_SCALE_LEVELS: Array<Omit<TypeScaleLevel, 'size'>> = [
+  { id: 'display', label: 'Display', step: 6, heading: true },
+  { id: 'h1', label: 'Heading 1', step: 5, heading: true },
+  { id: 'h2', label: 'Heading 2', step: 4, heading: true },
+  { id: 'h3', label: 'Heading 3', step: 3, heading: true },
+  { id: 'h4', label: 'Heading 4', step: 2, heading: true },
+  { id: 'lead', label: 'Lead', step: 1, heading: false },
+  { id: 'body', label: 'Body', step: 0, heading: false },
+  { id: 'caption', label: 'Caption', step: -1, heading: false },
+];
+
+/** Levels from largest to smallest. */
+export const buildModularScale = (baseSize: number, ratio: number): TypeScaleLevel[] =>
+  TYPE_SCALE_LEVELS.map((level) => ({ ...level, size: Math.round(baseSize * ratio ** level.step) }));
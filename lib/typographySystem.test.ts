@@ -0,0 +1,182 @@
+import { describe, expect, it } from 'vitest';
+import type { BrandKit } from '../types';
+import { buildModularScale } from './typeScale';
+import {
+  TypographyAnswers,
+  buildTypographyLevels,
+  buildTypographySystem,
+  formatEm,
+  getTypographySystem,
+  normalizeTypographySystem,
+} from './typographySystem';
+
+describe('buildModularScale', () => {
+  it.each<[number, number, number[]]>([
+    [16, 1.125, [32, 29, 26, 23, 20, 18, 16, 14]],
+    [15, 1.2, [45, 37, 31, 26, 22, 18, 15, 13]],
+    [16, 1.25, [61, 49, 39, 31, 25, 20, 16, 13]],
+    [17, 1.333, [95, 72, 54, 40, 30, 23, 17, 13]],
+    [17, 1.414, [136, 96, 68, 48, 34, 24, 17, 12]],
+  ])('rounds %ipx × %f to whole pixels from display to caption', (baseSize, ratio, sizes) => {
+    const scale = buildModularScale(baseSize, ratio);
+
+    expect(scale.map((level) => level.id)).toEqual(['display', 'h1', 'h2', 'h3', 'h4', 'lead', 'body', 'caption']);
+    expect(scale.map((level) => level.size)).toEqual(sizes);
+  });
+});
+
+describe('buildTypographySystem', () => {
+  it.each<[string, TypographyAnswers, Record<string, unknown>]>([
+    ['no answers', {}, { baseSize: 16, scaleName: 'Major Third', spacingUnit: 8 }],
+    [
+      'a mono pick',
+      { typography: 'Typewriter / Mono (e.g., Courier)' },
+      { baseSize: 15, scaleName: 'Minor Third', lineHeights: { heading: 1.25, body: 1.65 }, spacingUnit: 8 },
+    ],
+    [
+      'a classic serif pick',
+      { typography: 'Classic Serif (e.g., Garamond, Caslon, Times)' },
+      {
+        baseSize: 17,
+        scaleRatio: 1.333,
+        scaleName: 'Perfect Fourth',
+        letterSpacing: { heading: 0, body: 0, caps: 0.1 },
+      },
+    ],
+    [
+      'an editorial pick',
+      { typography: 'Display / Editorial (e.g., Value Serif, Ogg)' },
+      { baseSize: 17, scaleName: 'Augmented Fourth', lineHeights: { heading: 1.05, body: 1.6 } },
+    ],
+    ['an unknown option', { typography: 'classic serif' }, { baseSize: 16, scaleName: 'Major Third' }],
+    ['a custom mono font', { customFont: 'Space Mono' }, { baseSize: 15, scaleName: 'Minor Third' }],
+    ['a catalog serif by name', { customFont: 'Lora' }, { baseSize: 17, scaleName: 'Perfect Fourth' }],
+  ])('derives the style from %s', (_, answers, expected) => {
+    expect(buildTypographySystem(answers)).toMatchObject(expected);
+  });
+
+  it('caps ratio nudges at one step however many answers ask for it', () => {
+    const system = buildTypographySystem({
+      typography: 'Clean Sans Serif (e.g., Helvetica, Inter, Roboto)',
+      vibe: ['Playful Pop', 'Soft Luxury'],
+      tone: ['Bold', 'Playful'],
+    });
+
+    expect(system.scaleName).toBe('Perfect Fourth');
+  });
+
+  it('never steps past the ends of the ratio list', () => {
+    expect(buildTypographySystem({ typography: 'Display / Editorial', tone: ['Bold'] }).scaleName).toBe(
+      'Augmented Fourth'
+    );
+    expect(buildTypographySystem({ typography: 'Typewriter / Mono', tone: ['Serious', 'Corporate'] }).scaleName).toBe(
+      'Major Second'
+    );
+  });
+
+  it.each<[string, TypographyAnswers, number, number[]]>([
+    ['tightens', { tone: ['Street'] }, 6, [3, 6, 9, 12, 18, 24, 36, 48, 72, 96]],
+    ['keeps', {}, 8, [4, 8, 12, 16, 24, 32, 48, 64, 96, 128]],
+    ['opens', { tone: ['Calm', 'Minimal', 'Luxury'] }, 10, [5, 10, 15, 20, 30, 40, 60, 80, 120, 160]],
+  ])('%s the spacing scale by one density step', (_, answers, unit, scale) => {
+    const system = buildTypographySystem(answers);
+
+    expect(system.spacingUnit).toBe(unit);
+    expect(system.spacingScale).toEqual(scale);
+  });
+
+  it('clamps leading and caps tracking', () => {
+    const loose = buildTypographySystem({
+      typography: 'Playful / Rounded',
+      vibe: ['Soft Luxury', 'Rustic / Handmade'],
+      tone: ['Calm', 'Friendly', 'Warm'],
+    });
+    const tight = buildTypographySystem({ typography: 'Bold / Impact', vibe: ['Streetwear Grit'], tone: ['Street'] });
+    const wide = buildTypographySystem({
+      typography: 'Modern Serif',
+      vibe: ['Soft Luxury', 'Vintage Retro'],
+      tone: ['Elegant', 'Luxury'],
+    });
+
+    expect(loose.lineHeights.body).toBe(1.8);
+    expect(tight.lineHeights.heading).toBe(1);
+    expect(wide.letterSpacing.caps).toBe(0.16);
+  });
+
+  it('borrows tone adjustments for words in a custom vibe without counting a picked tone twice', () => {
+    const fromVibe = buildTypographySystem({ vibe: ['Custom'], customVibe: 'calm, bookish luxury' });
+    const withTone = buildTypographySystem({ vibe: ['Custom'], customVibe: 'calm', tone: ['Calm'] });
+
+    expect(fromVibe.rationale).toEqual(
+      expect.arrayContaining([
+        'A calm tone gets looser body leading.',
+        'A luxury tone adds generous spacing and open caps.',
+      ])
+    );
+    expect(withTone.lineHeights.body).toBe(1.65);
+  });
+
+  it('matches the golden system and levels for a full set of answers', async () => {
+    const system = buildTypographySystem({
+      typography: 'Classic Serif (e.g., Garamond, Caslon, Times)',
+      vibe: ['Soft Luxury'],
+      tone: ['Calm', 'Elegant'],
+    });
+
+    await expect(
+      `${JSON.stringify({ system, levels: buildTypographyLevels(system) }, null, 2)}\n`
+    ).toMatchFileSnapshot('./__fixtures__/typography-system/classic-serif-soft-luxury.json');
+  });
+});
+
+describe('buildTypographyLevels', () => {
+  it('gives heading levels heading leading and tracking and the rest body values', () => {
+    const levels = buildTypographyLevels(buildTypographySystem({ typography: 'Geometric Sans' }));
+
+    expect(levels.map(({ id, lineHeight, letterSpacing }) => [id, lineHeight, letterSpacing])).toEqual([
+      ['display', 1.15, -0.02],
+      ['h1', 1.15, -0.02],
+      ['h2', 1.15, -0.02],
+      ['h3', 1.15, -0.02],
+      ['h4', 1.15, -0.02],
+      ['lead', 1.6, 0],
+      ['body', 1.6, 0],
+      ['caption', 1.6, 0],
+    ]);
+  });
+});
+
+describe('normalizeTypographySystem', () => {
+  const valid = buildTypographySystem({});
+
+  it('keeps a usable stored system', () => {
+    expect(normalizeTypographySystem(JSON.parse(JSON.stringify(valid)))).toEqual(valid);
+  });
+
+  it.each<[string, unknown]>([
+    ['a missing system', undefined],
+    ['a tiny base size', { ...valid, baseSize: 4 }],
+    ['a string ratio', { ...valid, scaleRatio: '1.25' }],
+    ['NaN leading', { ...valid, lineHeights: { heading: Number.NaN, body: 1.6 } }],
+    ['an empty spacing scale', { ...valid, spacingScale: [] }],
+  ])('drops %s so it is re-derived', (_, raw) => {
+    expect(normalizeTypographySystem(raw)).toBeUndefined();
+  });
+
+  it('falls back to the answers for kits saved without a system', () => {
+    const kit = { fontPairing: { headlineFont: 'Lora', bodyFont: 'Inter', note: '' } } as BrandKit;
+
+    expect(getTypographySystem(kit, { typography: 'Classic Serif' }).baseSize).toBe(17);
+    expect(getTypographySystem({ ...kit, fontPairing: { ...kit.fontPairing, system: valid } }).baseSize).toBe(16);
+  });
+});
+
+describe('formatEm', () => {
+  it.each<[number, string]>([
+    [0, '0'],
+    [-0.02, '-0.02em'],
+    [0.08, '0.08em'],
+  ])('formats %f as %s', (value, expected) => {
+    expect(formatEm(value)).toBe(expected);
+  });
+});
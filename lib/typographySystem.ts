@@ -0,0 +1,368 @@
+/**
+ * Typography System
+ * Turns the typography, vibe, and tone answers into a base size, a named modular scale ratio,
+ * heading and body leading, letter-spacing, and a spacing scale on the same rhythm. The result is
+ * deterministic, so the edge function and the browser derive the same system from the same answers.
+ */
+
+import type { BrandFormData, BrandKit, BrandTypographySystem } from '../types.ts';
+import { FONT_CATALOG, FontCategory } from './fontCatalog.ts';
+import { TypeScaleLevel, buildModularScale } from './typeScale.ts';
+
+export type TypographyAnswers = Partial<Pick<BrandFormData, 'typography' | 'customFont' | 'vibe' | 'customVibe' | 'tone'>>;
+
+export interface TypographyLevel extends TypeScaleLevel {
+  lineHeight: number;
+  /** em */
+  letterSpacing: number;
+}
+
+interface TypographyStyle {
+  baseSize: number;
+  ratioName: string;
+  headingLeading: number;
+  bodyLeading: number;
+  headingTracking: number;
+  bodyTracking: number;
+  capsTracking: number;
+  reason: string;
+}
+
+interface TypographyAdjustment {
+  /** Moves the ratio one interval up or down */
+  ratioShift?: number;
+  /** Positive opens the spacing scale, negative tightens it */
+  density?: number;
+  headingLeading?: number;
+  bodyLeading?: number;
+  capsTracking?: number;
+  reason: string;
+}
+
+// Named intervals from gentlest to steepest. An Augmented Fourth already puts 17px display text
+// at 136px; a Perfect Fifth would push it toward 190px, more than any result page needs.
+const TYPE_SCALE_RATIOS: Array<{ name: string; ratio: number }> = [
+  { name: 'Major Second', ratio: 1.125 },
+  { name: 'Minor Third', ratio: 1.2 },
+  { name: 'Major Third', ratio: 1.25 },
+  { name: 'Perfect Fourth', ratio: 1.333 },
+  { name: 'Augmented Fourth', ratio: 1.414 },
+];
+
+const DEFAULT_STYLE: TypographyStyle = {
+  baseSize: 16,
+  ratioName: 'Major Third',
+  headingLeading: 1.2,
+  bodyLeading: 1.6,
+  headingTracking: -0.01,
+  bodyTracking: 0,
+  capsTracking: 0.08,
+  reason: 'A moderate scale on a 16px base keeps headings distinct without oversizing them on small screens.',
+};
+
+// Keyed by the questionnaire option label without its examples, e.g. "Classic Serif"
+const TYPOGRAPHY_STYLES: Record<string, TypographyStyle> = {
+  'Typewriter / Mono': {
+    baseSize: 15,
+    ratioName: 'Minor Third',
+    headingLeading: 1.25,
+    bodyLeading: 1.65,
+    headingTracking: 0,
+    bodyTracking: 0,
+    capsTracking: 0.06,
+    reason: 'Monospaced faces run wide, so a 15px base and a gentle scale keep lines from sprawling.',
+  },
+  'Clean Sans Serif': {
+    ...DEFAULT_STYLE,
+    headingTracking: -0.015,
+    reason: 'Clean sans serifs read well at 16px on a moderate scale, with headings tightened slightly.',
+  },
+  'Geometric Sans': {
+    baseSize: 16,
+    ratioName: 'Major Third',
+    headingLeading: 1.15,
+    bodyLeading: 1.6,
+    headingTracking: -0.02,
+    bodyTracking: 0,
+    capsTracking: 0.1,
+    reason: 'Geometric letters have open counters, so headings can sit tighter while caps labels open up.',
+  },
+  'Classic Serif': {
+    baseSize: 17,
+    ratioName: 'Perfect Fourth',
+    headingLeading: 1.2,
+    bodyLeading: 1.65,
+    headingTracking: 0,
+    bodyTracking: 0,
+    capsTracking: 0.1,
+    reason: 'Classic serifs want a slightly larger 17px body and a wider step between sizes for bookish contrast.',
+  },
+  'Modern Serif': {
+    baseSize: 17,
+    ratioName: 'Perfect Fourth',
+    headingLeading: 1.1,
+    bodyLeading: 1.6,
+    headingTracking: -0.01,
+    bodyTracking: 0,
+    capsTracking: 0.12,
+    reason: 'High-contrast serifs shine at large sizes, so a wider scale gives headings room to show it.',
+  },
+  'Display / Editorial': {
+    baseSize: 17,
+    ratioName: 'Augmented Fourth',
+    headingLeading: 1.05,
+    bodyLeading: 1.6,
+    headingTracking: -0.025,
+    bodyTracking: 0,
+    capsTracking: 0.1,
+    reason: 'Editorial layouts lean on dramatic size jumps, so headings step up steeply and set tight.',
+  },
+  'Playful / Rounded': {
+    baseSize: 17,
+    ratioName: 'Major Third',
+    headingLeading: 1.2,
+    bodyLeading: 1.65,
+    headingTracking: 0,
+    bodyTracking: 0.01,
+    capsTracking: 0.06,
+    reason: 'Rounded faces feel friendlier with a roomy 17px body and relaxed leading.',
+  },
+  'Bold / Impact': {
+    baseSize: 16,
+    ratioName: 'Perfect Fourth',
+    headingLeading: 1,
+    bodyLeading: 1.5,
+    headingTracking: -0.01,
+    bodyTracking: 0,
+    capsTracking: 0.04,
+    reason: 'Heavy condensed headlines stack best with solid leading and a wide scale.',
+  },
+  'Handwritten / Script': {
+    baseSize: 16,
+    ratioName: 'Minor Third',
+    headingLeading: 1.25,
+    bodyLeading: 1.6,
+    headingTracking: 0,
+    bodyTracking: 0,
+    capsTracking: 0.08,
+    reason: 'Script headings need extra leading for their swashes and should never be letter-spaced.',
+  },
+};
+
+// Custom font answers are matched by keyword first, then by the catalog category of a named family
+const CUSTOM_STYLE_HINTS: Array<[RegExp, string]> = [
+  [/\b(mono|typewriter|code|courier)\b/i, 'Typewriter / Mono'],
+  [/\b(script|hand ?written|signature|brush|calligraph\w*)\b/i, 'Handwritten / Script'],
+  [/\b(rounded|playful|bubbly)\b/i, 'Playful / Rounded'],
+  [/\b(condensed|impact|heavy|bold)\b/i, 'Bold / Impact'],
+  [/\b(editorial|display|magazine)\b/i, 'Display / Editorial'],
+  [/\b(didone|didot|bodoni|high.contrast)\b/i, 'Modern Serif'],
+  [/\bgeometric\b/i, 'Geometric Sans'],
+  [/\bsans\b/i, 'Clean Sans Serif'],
+  [/\bserif\b/i, 'Classic Serif'],
+];
+
+const CATEGORY_STYLES: Record<FontCategory, string> = {
+  'sans-serif': 'Clean Sans Serif',
+  serif: 'Classic Serif',
+  monospace: 'Typewriter / Mono',
+  handwriting: 'Handwritten / Script',
+  display: 'Display / Editorial',
+};
+
+const VIBE_ADJUSTMENTS: Record<string, TypographyAdjustment> = {
+  'Minimal Modern': { density: 1, reason: 'Minimal Modern opens up the spacing scale so layouts breathe.' },
+  'Vintage Retro': { capsTracking: 0.02, reason: 'Vintage Retro spaces all-caps labels a little wider, like old print.' },
+  'Soft Luxury': {
+    ratioShift: 1,
+    density: 1,
+    bodyLeading: 0.05,
+    capsTracking: 0.04,
+    reason: 'Soft Luxury steps the scale up and adds air: wider caps, looser leading, more generous spacing.',
+  },
+  'Streetwear Grit': {
+    ratioShift: 1,
+    density: -1,
+    headingLeading: -0.05,
+    reason: 'Streetwear Grit pushes headings bigger and tighter with a compact spacing scale.',
+  },
+  'Playful Pop': { ratioShift: 1, reason: 'Playful Pop exaggerates the jump between heading sizes.' },
+  'Corporate Clean': { ratioShift: -1, reason: 'Corporate Clean keeps the scale restrained for dense, practical pages.' },
+  'Futuristic / Tech': {
+    density: -1,
+    capsTracking: 0.02,
+    reason: 'Futuristic / Tech tightens spacing into a compact, interface-like grid.',
+  },
+  'Rustic / Handmade': { density: 1, bodyLeading: 0.05, reason: 'Rustic / Handmade loosens leading and spacing for an unhurried read.' },
+};
+
+const TONE_ADJUSTMENTS: Record<string, TypographyAdjustment> = {
+  Calm: { density: 1, bodyLeading: 0.05, reason: 'A calm tone gets looser body leading.' },
+  Bold: { ratioShift: 1, reason: 'A bold tone earns a steeper heading scale.' },
+  Elegant: { capsTracking: 0.02, reason: 'An elegant tone spaces small caps and labels a touch wider.' },
+  Playful: { ratioShift: 1, reason: 'A playful tone favors bigger heading jumps.' },
+  Minimal: { density: 1, reason: 'A minimal tone leaves more space between elements.' },
+  Street: { density: -1, headingLeading: -0.05, reason: 'A street tone stacks headlines tighter.' },
+  Luxury: { density: 1, capsTracking: 0.02, reason: 'A luxury tone adds generous spacing and open caps.' },
+  Corporate: { ratioShift: -1, reason: 'A corporate tone keeps heading sizes measured.' },
+  Friendly: { bodyLeading: 0.05, reason: 'A friendly tone relaxes body leading.' },
+  Serious: { ratioShift: -1, reason: 'A serious tone keeps the hierarchy understated.' },
+  Warm: { bodyLeading: 0.03, reason: 'A warm tone softens body text with a little more leading.' },
+};
+
+const SPACING_MULTIPLIERS = [0.5, 1, 1.5, 2, 3, 4, 6, 8, 12, 16];
+
+const LEADING_LIMITS = { heading: [1, 1.4], body: [1.4, 1.8] } as const;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const round = (value: number, digits: number) => Number(value.toFixed(digits));
+
+const toOptionKey = (value: string) => value.split(' (')[0].trim();
+
+const resolveStyleKey = (answers: TypographyAnswers) => {
+  const option = toOptionKey(answers.typography || '');
+  if (TYPOGRAPHY_STYLES[option]) return option;
+
+  const custom = (answers.customFont || '').trim();
+  if (!custom) return null;
+
+  const hinted = CUSTOM_STYLE_HINTS.find(([pattern]) => pattern.test(custom));
+  if (hinted) return hinted[1];
+
+  const lowered = custom.toLowerCase();
+  const named = FONT_CATALOG.find((entry) => lowered.includes(entry.family.toLowerCase()));
+  return named ? CATEGORY_STYLES[named.category] : null;
+};
+
+const collectAdjustments = (answers: TypographyAnswers) => {
+  const vibes = (answers.vibe || []).map(toOptionKey);
+  const customWords = `${answers.customVibe || ''}`.toLowerCase();
+
+  return [
+    ...vibes.map((vibe) => VIBE_ADJUSTMENTS[vibe]),
+    ...(answers.tone || []).map((tone) => TONE_ADJUSTMENTS[tone]),
+    // A custom vibe like "calm, bookish luxury" borrows the adjustments of tone words it mentions
+    ...(vibes.includes('Custom')
+      ? Object.keys(TONE_ADJUSTMENTS)
+          .filter((tone) => new RegExp(`\\b${tone.toLowerCase()}\\b`).test(customWords))
+          .filter((tone) => !(answers.tone || []).includes(tone))
+          .map((tone) => TONE_ADJUSTMENTS[tone])
+      : []),
+  ].filter((adjustment): adjustment is TypographyAdjustment => Boolean(adjustment));
+};
+
+const sum = (adjustments: TypographyAdjustment[], field: Exclude<keyof TypographyAdjustment, 'reason'>) =>
+  adjustments.reduce((total, adjustment) => total + (adjustment[field] || 0), 0);
+
+/**
+ * Starts from the typography style (or the default when it is missing or unrecognized), then lets
+ * vibe and tone answers nudge it. Ratio and density nudges are capped at one step either way so
+ * several matching answers cannot push the system to an extreme.
+ */
+export const buildTypographySystem = (answers: TypographyAnswers): BrandTypographySystem => {
+  const styleKey = resolveStyleKey(answers);
+  const style = styleKey ? TYPOGRAPHY_STYLES[styleKey] : DEFAULT_STYLE;
+  const adjustments = collectAdjustments(answers);
+
+  const baseRatioIndex = TYPE_SCALE_RATIOS.findIndex((entry) => entry.name === style.ratioName);
+  const ratioIndex = clamp(
+    baseRatioIndex + clamp(sum(adjustments, 'ratioShift'), -1, 1),
+    0,
+    TYPE_SCALE_RATIOS.length - 1
+  );
+  const ratio = TYPE_SCALE_RATIOS[ratioIndex];
+
+  const density = Math.sign(sum(adjustments, 'density'));
+  const spacingUnit = Math.round((style.baseSize * (1 + density * 0.25)) / 4) * 2;
+
+  return {
+    baseSize: style.baseSize,
+    scaleRatio: ratio.ratio,
+    scaleName: ratio.name,
+    lineHeights: {
+      heading: round(clamp(style.headingLeading + sum(adjustments, 'headingLeading'), ...LEADING_LIMITS.heading), 2),
+      body: round(clamp(style.bodyLeading + sum(adjustments, 'bodyLeading'), ...LEADING_LIMITS.body), 2),
+    },
+    letterSpacing: {
+      heading: style.headingTracking,
+      body: style.bodyTracking,
+      caps: round(Math.min(0.16, style.capsTracking + sum(adjustments, 'capsTracking')), 3),
+    },
+    spacingUnit,
+    spacingScale: SPACING_MULTIPLIERS.map((multiplier) => Math.round(spacingUnit * multiplier)),
+    rationale: [style.reason, ...adjustments.map((adjustment) => adjustment.reason)].filter(
+      (reason, index, reasons) => reasons.indexOf(reason) === index
+    ),
+  };
+};
+
+const isNumberIn = (value: unknown, min: number, max: number): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+/** Keeps a stored system only when every value is usable; anything else is re-derived on read. */
+export const normalizeTypographySystem = (raw: unknown): BrandTypographySystem | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+
+  const system = raw as Partial<BrandTypographySystem>;
+  const { baseSize, scaleRatio, scaleName, lineHeights, letterSpacing, spacingUnit, spacingScale } = system;
+
+  if (
+    !isNumberIn(baseSize, 10, 32) ||
+    !isNumberIn(scaleRatio, 1, 2) ||
+    typeof scaleName !== 'string' ||
+    !isNumberIn(lineHeights?.heading, 0.8, 2) ||
+    !isNumberIn(lineHeights?.body, 1, 2.5) ||
+    !isNumberIn(letterSpacing?.heading, -0.2, 0.5) ||
+    !isNumberIn(letterSpacing?.body, -0.2, 0.5) ||
+    !isNumberIn(letterSpacing?.caps, -0.2, 0.5) ||
+    !isNumberIn(spacingUnit, 1, 64) ||
+    !Array.isArray(spacingScale) ||
+    spacingScale.length === 0 ||
+    !spacingScale.every((value) => isNumberIn(value, 0, 1024))
+  ) {
+    return undefined;
+  }
+
+  return {
+    baseSize,
+    scaleRatio,
+    scaleName,
+    lineHeights: { heading: lineHeights.heading, body: lineHeights.body },
+    letterSpacing: { heading: letterSpacing.heading, body: letterSpacing.body, caps: letterSpacing.caps },
+    spacingUnit,
+    spacingScale: [...spacingScale],
+    rationale: Array.isArray(system.rationale)
+      ? system.rationale.filter((reason): reason is string => typeof reason === 'string' && Boolean(reason.trim()))
+      : [],
+  };
+};
+
+/** The stored system, or one derived from the answers for kits saved before systems existed. */
+export const getTypographySystem = (kit: BrandKit, answers?: TypographyAnswers) =>
+  kit.fontPairing?.system || buildTypographySystem(answers || {});
+
+/** Scale levels from largest to smallest with the leading and tracking each one should use. */
+export const buildTypographyLevels = (system: BrandTypographySystem): TypographyLevel[] =>
+  buildModularScale(system.baseSize, system.scaleRatio).map((level) => ({
+    ...level,
+    lineHeight: level.heading ? system.lineHeights.heading : system.lineHeights.body,
+    letterSpacing: level.heading ? system.letterSpacing.heading : system.letterSpacing.body,
+  }));
+
+/** Letter-spacing as a CSS value: "0", "-0.02em", "0.08em". */
+export const formatEm = (value: number) => (value === 0 ? '0' : `${value}em`);
+
+/** One sentence of letter-spacing guidance for the specimen and the PDF. */
+export const describeLetterSpacing = (system: BrandTypographySystem) => {
+  const { heading, body, caps } = system.letterSpacing;
+  const headingAdvice =
+    heading < 0
+      ? `Tighten headings to ${formatEm(heading)}`
+      : heading > 0
+        ? `Open headings to ${formatEm(heading)}`
+        : 'Leave headings at default tracking';
+  const bodyAdvice = body === 0 ? 'keep body text at 0' : `set body text at ${formatEm(body)}`;
+
+  return `${headingAdvice}, ${bodyAdvice}, and space all-caps labels at ${formatEm(caps)}.`;
+};
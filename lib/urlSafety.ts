@@ -0,0 +1,205 @@
+/**
+ * URL Safety
+ * Address checks used before the server fetches a user-supplied URL, so that product imports
+ * cannot be pointed at loopback, private-network, link-local, or cloud metadata addresses.
+ */
+
+export type UrlSafetyIssue = 'invalid-url' | 'blocked-url';
+
+export type UrlSafetyResult = { ok: true; url: URL } | { ok: false; issue: UrlSafetyIssue; reason: string };
+
+const ALLOWED_PROTOCOLS = new Set(['http:', 'https:']);
+const ALLOWED_PORTS = new Set(['', '80', '443']);
+
+const BLOCKED_HOSTNAMES = new Set(['localhost', 'metadata', 'metadata.google.internal']);
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.localdomain', '.home.arpa'];
+
+// [network, prefix length]
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, including cloud metadata endpoints
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved and broadcast
+];
+
+const parseIPv4 = (address: string): number | null => {
+  const parts = address.split('.');
+  if (parts.length !== 4) return null;
+
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part)) return null;
+    const octet = Number(part);
+    if (octet > 255) return null;
+    value = value * 256 + octet;
+  }
+
+  return value;
+};
+
+export const isIPv4 = (address: string) => parseIPv4(address) !== null;
+
+export const isBlockedIPv4 = (address: string) => {
+  const value = parseIPv4(address);
+  if (value === null) return true;
+
+  return BLOCKED_IPV4_RANGES.some(([network, prefix]) => {
+    const size = 2 ** (32 - prefix);
+    const start = parseIPv4(network) as number;
+    return value >= start && value < start + size;
+  });
+};
+
+/** Expands an IPv6 address (with optional embedded IPv4 tail) into eight 16-bit groups. */
+const parseIPv6 = (address: string): number[] | null => {
+  let value = address.toLowerCase().replace(/^\[|\]$/g, '');
+  const zoneIndex = value.indexOf('%');
+  if (zoneIndex !== -1) value = value.slice(0, zoneIndex);
+
+  const ipv4Tail = value.match(/(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (ipv4Tail) {
+    const ipv4 = parseIPv4(ipv4Tail[1]);
+    if (ipv4 === null) return null;
+    value = `${value.slice(0, -ipv4Tail[1].length)}${(ipv4 >>> 16).toString(16)}:${(ipv4 & 0xffff).toString(16)}`;
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+
+  return groups.map((group) => parseInt(group, 16));
+};
+
+export const isIPv6 = (address: string) => address.includes(':') && parseIPv6(address) !== null;
+
+const embeddedIPv4 = (groups: number[]) =>
+  [groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff].join('.');
+
+export const isBlockedIPv6 = (address: string) => {
+  const groups = parseIPv6(address);
+  if (!groups) return true;
+
+  const leadingZeros = groups.slice(0, 5).every((group) => group === 0);
+
+  // :: and ::1
+  if (leadingZeros && groups[5] === 0 && groups[6] === 0 && groups[7] <= 1) return true;
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses
+  if (leadingZeros && (groups[5] === 0xffff || groups[5] === 0)) return isBlockedIPv4(embeddedIPv4(groups));
+  // NAT64 (64:ff9b::/96) wraps an IPv4 address too
+  if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0)) {
+    return isBlockedIPv4(embeddedIPv4(groups));
+  }
+  // Unique local fc00::/7, link-local fe80::/10, multicast ff00::/8
+  if ((groups[0] & 0xfe00) === 0xfc00) return true;
+  if ((groups[0] & 0xffc0) === 0xfe80) return true;
+  if ((groups[0] & 0xff00) === 0xff00) return true;
+  // Documentation 2001:db8::/32
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true;
+
+  return false;
+};
+
+/** True for any address the server must not connect to. Unparseable input counts as blocked. */
+export const isBlockedAddress = (address: string) =>
+  address.includes(':') ? isBlockedIPv6(address) : isBlockedIPv4(address);
+
+/**
+ * Checks a URL before it is fetched: http(s) only, default ports, no embedded credentials, and no
+ * hostname or literal IP that points inside the network. Hostnames still need their DNS answers
+ * checked with isBlockedAddress, on every redirect hop.
+ */
+export const assessPublicUrl = (value: string): UrlSafetyResult => {
+  let url: URL;
+
+  try {
+    url = new URL(value);
+  } catch {
+    return { ok: false, issue: 'invalid-url', reason: 'Invalid URL format' };
+  }
+
+  if (!ALLOWED_PROTOCOLS.has(url.protocol)) {
+    return { ok: false, issue: 'invalid-url', reason: 'Only http and https URLs are supported' };
+  }
+
+  if (url.username || url.password) {
+    return { ok: false, issue: 'blocked-url', reason: 'URLs with credentials are not allowed' };
+  }
+
+  if (!ALLOWED_PORTS.has(url.port)) {
+    return { ok: false, issue: 'blocked-url', reason: 'Only standard web ports are allowed' };
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+
+  if (!hostname) {
+    return { ok: false, issue: 'invalid-url', reason: 'URL has no host' };
+  }
+
+  if (isIPv4(hostname) || hostname.startsWith('[')) {
+    return isBlockedAddress(hostname)
+      ? { ok: false, issue: 'blocked-url', reason: 'That address is not publicly reachable' }
+      : { ok: true, url };
+  }
+
+  if (
+    BLOCKED_HOSTNAMES.has(hostname) ||
+    BLOCKED_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix)) ||
+    !hostname.includes('.')
+  ) {
+    return { ok: false, issue: 'blocked-url', reason: 'That host is not publicly reachable' };
+  }
+
+  return { ok: true, url };
+};
+
+/**
+ * Resolves a redirect Location header against the URL that sent it and checks the result the same
+ * way as the original URL. A missing or malformed header is reported as invalid.
+ */
+export const assessRedirectTarget = (location: string | null, from: URL | string): UrlSafetyResult => {
+  if (!location) {
+    return { ok: false, issue: 'invalid-url', reason: 'Redirect without a location' };
+  }
+
+  let target: string;
+  try {
+    target = new URL(location, from).toString();
+  } catch {
+    return { ok: false, issue: 'invalid-url', reason: 'Redirect to an invalid URL' };
+  }
+
+  return assessPublicUrl(target);
+};
+
+const canonicalAddress = (address: string) => {
+  const groups = address.includes(':') ? parseIPv6(address) : null;
+  return groups ? groups.map((group) => group.toString(16)).join(':') : address;
+};
+
+/**
+ * True when two DNS lookups of the same host returned the same addresses, in any order and
+ * notation. Used to catch a host that answers differently once the safety check has passed.
+ */
+export const isSameAddressSet = (first: string[], second: string[]) => {
+  const left = new Set(first.map(canonicalAddress));
+  const right = new Set(second.map(canonicalAddress));
+  return left.size === right.size && Array.from(left).every((address) => right.has(address));
+};
@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteProject, saveBrandResult } from './projects';
+import { importWorkbookBundle, parseWorkbookBundle, WORKBOOK_BUNDLE_FORMAT } from './workbookBundle';
+
+vi.mock('./projects', () => ({
+  createProject: vi.fn(async () => ({ id: 'new-project' })),
+  deleteProject: vi.fn(async () => undefined),
+  saveBrandResult: vi.fn(async () => ({ id: 'new-result' })),
+  saveQuestionnaireAnswers: vi.fn(async () => undefined),
+  updateProjectKitLocks: vi.fn(async () => undefined),
+}));
+
+const rawBundle = {
+  format: WORKBOOK_BUNDLE_FORMAT,
+  schemaVersion: 1,
+  project: { id: 'old-project', brandName: 'Juniper Goods' },
+  formData: { brandName: 'Juniper Goods' },
+  results: [
+    {
+      id: 'old-result',
+      result: {
+        brandEssence: '  A quiet pantry brand.  ',
+        keywords: 'calm, useful',
+        colorPaletteSuggestions: [{ name: 'Sage', hex: '#8a9a5b', usage: 'Labels' }],
+      },
+      createdAt: '2026-01-02T00:00:00.000Z',
+    },
+  ],
+};
+
+describe('parseWorkbookBundle', () => {
+  it('normalizes bundled kits and records their schema issues', () => {
+    const [result] = parseWorkbookBundle(JSON.stringify(rawBundle)).results;
+
+    expect(result.result.brandEssence).toBe('A quiet pantry brand.');
+    expect(result.result.keywords).toEqual([]);
+    expect(result.result.colorPaletteSuggestions).toEqual([{ name: 'Sage', hex: '#8A9A5B', usage: 'Labels' }]);
+    expect(result.issues).toEqual(expect.arrayContaining([expect.objectContaining({ path: 'keywords' })]));
+  });
+});
+
+describe('importWorkbookBundle', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('saves recorded issues with the imported result', async () => {
+    await importWorkbookBundle('user-1', parseWorkbookBundle(rawBundle));
+
+    const options = vi.mocked(saveBrandResult).mock.calls[0][3];
+    expect(options?.metadata?.importedFrom?.issues?.length).toBeGreaterThan(0);
+  });
+
+  it('deletes the new project when a step fails', async () => {
+    vi.mocked(saveBrandResult).mockRejectedValueOnce(new Error('insert failed'));
+
+    await expect(importWorkbookBundle('user-1', parseWorkbookBundle(rawBundle))).rejects.toThrow('insert failed');
+    expect(deleteProject).toHaveBeenCalledWith('new-project');
+  });
+});
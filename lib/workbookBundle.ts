@@ -0,0 +1,304 @@
+/**
+ * Workbook Bundles
+ * A versioned JSON file holding one project's answers, locks, and full result history, so a
+ * workbook can be moved between accounts and environments. Older bundle versions are upgraded
+ * through WORKBOOK_BUNDLE_MIGRATIONS before they are imported.
+ */
+
+import {
+  BrandFormData,
+  BrandKit,
+  BrandKitLocks,
+  BrandKitValidationIssue,
+  BrandProjectWorkspace,
+  BrandResultMetadata,
+  ProjectStatus,
+} from '../types';
+import { validateBrandKit } from './brandKitSchema';
+import { normalizeBrandKit } from './brandStrategy';
+import { defaultBrandFormData } from './brandWorkbook';
+import { downloadFile } from './fileDownload';
+import {
+  createProject,
+  deleteProject,
+  saveBrandResult,
+  saveQuestionnaireAnswers,
+  updateProjectKitLocks,
+} from './projects';
+
+export const WORKBOOK_BUNDLE_FORMAT = 'brand-mosaic-workbook';
+export const WORKBOOK_BUNDLE_VERSION = 1;
+
+export interface WorkbookBundleResult {
+  id: string;
+  result: BrandKit;
+  sourceModel: string | null;
+  metadata: BrandResultMetadata;
+  logoImageUrl: string | null;
+  logoGeneratedAt: string | null;
+  createdAt: string;
+  // Filled in by parseWorkbookBundle, never written to an exported file
+  issues?: BrandKitValidationIssue[];
+}
+
+export interface WorkbookBundle {
+  format: typeof WORKBOOK_BUNDLE_FORMAT;
+  schemaVersion: typeof WORKBOOK_BUNDLE_VERSION;
+  exportedAt: string;
+  project: {
+    id: string;
+    brandName: string;
+    status: ProjectStatus;
+    kitLocks: BrandKitLocks;
+    createdAt: string;
+  };
+  formData: BrandFormData;
+  // Oldest first, so importing in order keeps the newest version current
+  results: WorkbookBundleResult[];
+}
+
+export type WorkbookBundleErrorCode =
+  | 'workbook/invalid-json'
+  | 'workbook/unsupported-format'
+  | 'workbook/unsupported-version'
+  | 'workbook/invalid-bundle';
+
+export class WorkbookBundleError extends Error {
+  code: WorkbookBundleErrorCode;
+
+  constructor(code: WorkbookBundleErrorCode, message: string) {
+    super(message);
+
+    this.name = 'WorkbookBundleError';
+    this.code = code;
+  }
+}
+
+type RawBundle = Record<string, unknown>;
+
+/**
+ * Upgrades a bundle from the keyed version to the next one. Add an entry here whenever
+ * WORKBOOK_BUNDLE_VERSION is bumped; parseWorkbookBundle runs them in sequence.
+ */
+export const WORKBOOK_BUNDLE_MIGRATIONS: Record<number, (bundle: RawBundle) => RawBundle> = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value ? value : null);
+
+export const buildWorkbookBundle = (workspace: BrandProjectWorkspace): WorkbookBundle => ({
+  format: WORKBOOK_BUNDLE_FORMAT,
+  schemaVersion: WORKBOOK_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project: {
+    id: workspace.project.id,
+    brandName: workspace.project.brandName,
+    status: workspace.project.status,
+    kitLocks: workspace.project.kitLocks || {},
+    createdAt: workspace.project.createdAt,
+  },
+  formData: workspace.formData,
+  results: [...workspace.resultHistory].reverse().map((result) => ({
+    id: result.id,
+    result: result.result,
+    sourceModel: result.sourceModel || null,
+    metadata: result.metadata || {},
+    logoImageUrl: result.logoImageUrl || null,
+    logoGeneratedAt: result.logoGeneratedAt || null,
+    createdAt: result.createdAt,
+  })),
+});
+
+const getWorkbookBundleFileName = (bundle: WorkbookBundle) =>
+  `${
+    bundle.project.brandName
+      .toLowerCase()
+      .replace(/['’]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'brand-workbook'
+  }.workbook.json`;
+
+export const downloadWorkbookBundle = (bundle: WorkbookBundle) => {
+  const fileName = getWorkbookBundleFileName(bundle);
+  downloadFile(fileName, `${JSON.stringify(bundle, null, 2)}\n`, 'application/json');
+  return fileName;
+};
+
+const migrateBundle = (raw: RawBundle): RawBundle => {
+  let bundle = raw;
+  let version = bundle.schemaVersion as number;
+
+  while (version < WORKBOOK_BUNDLE_VERSION) {
+    const migrate = WORKBOOK_BUNDLE_MIGRATIONS[version];
+    if (!migrate) {
+      throw new WorkbookBundleError(
+        'workbook/unsupported-version',
+        `No migration from workbook bundle version ${version}.`
+      );
+    }
+
+    bundle = migrate(bundle);
+    version += 1;
+    bundle = { ...bundle, schemaVersion: version };
+  }
+
+  return bundle;
+};
+
+// Only known questionnaire keys with the expected value type survive, matching answersToFormData.
+const readFormData = (value: unknown): BrandFormData => {
+  if (!isRecord(value)) {
+    throw new WorkbookBundleError('workbook/invalid-bundle', 'Bundle is missing its questionnaire answers.');
+  }
+
+  const formData: BrandFormData = { ...defaultBrandFormData };
+
+  (Object.keys(formData) as Array<keyof BrandFormData>).forEach((key) => {
+    const answer = value[key];
+    const expected = formData[key];
+
+    if (Array.isArray(expected) ? isStringArray(answer) : typeof answer === 'string') {
+      (formData as unknown as Record<string, unknown>)[key] = answer;
+    }
+  });
+
+  return formData;
+};
+
+const readKitLocks = (value: unknown): BrandKitLocks =>
+  isRecord(value)
+    ? (Object.fromEntries(Object.entries(value).filter(([, locked]) => locked === true)) as BrandKitLocks)
+    : {};
+
+const readResult = (value: unknown, index: number): WorkbookBundleResult => {
+  if (!isRecord(value) || !isRecord(value.result) || !Array.isArray(value.result.colorPaletteSuggestions)) {
+    throw new WorkbookBundleError('workbook/invalid-bundle', `Saved result ${index + 1} is not a brand kit.`);
+  }
+
+  const issues = validateBrandKit(value.result);
+
+  return {
+    id: optionalString(value.id) || `result-${index + 1}`,
+    result: normalizeBrandKit(value.result as Partial<BrandKit>),
+    sourceModel: optionalString(value.sourceModel),
+    metadata: isRecord(value.metadata) ? (value.metadata as BrandResultMetadata) : {},
+    logoImageUrl: optionalString(value.logoImageUrl),
+    logoGeneratedAt: optionalString(value.logoGeneratedAt),
+    createdAt: optionalString(value.createdAt) || new Date(0).toISOString(),
+    ...(issues.length > 0 ? { issues } : {}),
+  };
+};
+
+/**
+ * Reads a bundle from JSON text or an already-parsed value. Rejects other files and bundles from a
+ * newer version of the app, and migrates older versions up to WORKBOOK_BUNDLE_VERSION.
+ */
+export const parseWorkbookBundle = (input: string | unknown): WorkbookBundle => {
+  let raw: unknown = input;
+
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new WorkbookBundleError('workbook/invalid-json', 'That file is not valid JSON.');
+    }
+  }
+
+  if (!isRecord(raw) || raw.format !== WORKBOOK_BUNDLE_FORMAT) {
+    throw new WorkbookBundleError('workbook/unsupported-format', 'That file is not a Brand Mosaic workbook export.');
+  }
+
+  const version = raw.schemaVersion;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new WorkbookBundleError('workbook/unsupported-version', 'Workbook bundle has no valid schema version.');
+  }
+
+  if (version > WORKBOOK_BUNDLE_VERSION) {
+    throw new WorkbookBundleError(
+      'workbook/unsupported-version',
+      `Workbook bundle version ${version} is newer than this app supports (${WORKBOOK_BUNDLE_VERSION}).`
+    );
+  }
+
+  const bundle = migrateBundle(raw);
+  const project = isRecord(bundle.project) ? bundle.project : {};
+  const formData = readFormData(bundle.formData);
+  const results = Array.isArray(bundle.results) ? bundle.results.map(readResult) : [];
+
+  return {
+    format: WORKBOOK_BUNDLE_FORMAT,
+    schemaVersion: WORKBOOK_BUNDLE_VERSION,
+    exportedAt: optionalString(bundle.exportedAt) || new Date().toISOString(),
+    project: {
+      id: optionalString(project.id) || '',
+      brandName: optionalString(project.brandName) || formData.brandName || 'Imported Brand Workbook',
+      status: results.length > 0 ? 'generated' : 'draft',
+      kitLocks: readKitLocks(project.kitLocks),
+      createdAt: optionalString(project.createdAt) || new Date().toISOString(),
+    },
+    formData,
+    results,
+  };
+};
+
+const copyBundleIntoProject = async (projectId: string, bundle: WorkbookBundle) => {
+  await saveQuestionnaireAnswers(projectId, bundle.formData, {
+    status: bundle.results.length > 0 ? 'generated' : 'draft',
+  });
+
+  if (Object.keys(bundle.project.kitLocks).length > 0) {
+    await updateProjectKitLocks(projectId, bundle.project.kitLocks);
+  }
+
+  const newIds = new Map<string, string>();
+
+  for (const result of bundle.results) {
+    const { carriedOver, restoredFrom, ...metadata } = result.metadata;
+    const saved = await saveBrandResult(projectId, result.result, result.sourceModel || undefined, {
+      metadata: {
+        ...metadata,
+        ...(carriedOver && newIds.has(carriedOver.fromResultId)
+          ? { carriedOver: { ...carriedOver, fromResultId: newIds.get(carriedOver.fromResultId) as string } }
+          : {}),
+        ...(restoredFrom && newIds.has(restoredFrom.resultId)
+          ? { restoredFrom: { ...restoredFrom, resultId: newIds.get(restoredFrom.resultId) as string } }
+          : {}),
+        importedFrom: {
+          projectId: bundle.project.id,
+          resultId: result.id,
+          createdAt: result.createdAt,
+          exportedAt: bundle.exportedAt,
+          ...(result.issues ? { issues: result.issues } : {}),
+        },
+      },
+      logoImageUrl: result.logoImageUrl,
+      logoGeneratedAt: result.logoGeneratedAt,
+    });
+
+    newIds.set(result.id, saved.id);
+  }
+};
+
+/**
+ * Creates a new project from a bundle in the signed-in account. Results are saved oldest first so
+ * the newest one stays current; references between them are remapped to the new row ids. If any
+ * step fails the new project is deleted again, so a failed import never leaves half a workbook.
+ */
+export const importWorkbookBundle = async (userId: string, bundle: WorkbookBundle): Promise<string> => {
+  const project = await createProject(userId, bundle.project.brandName);
+
+  try {
+    await copyBundleIntoProject(project.id, bundle);
+  } catch (error) {
+    await deleteProject(project.id).catch((cleanupError) => {
+      console.error('Failed to remove partially imported workbook:', cleanupError);
+    });
+    throw error;
+  }
+
+  return project.id;
+};
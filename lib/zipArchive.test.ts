@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { createZipArchive } from './zipArchive';
+
+// Local time, because DOS timestamps carry no zone: 2026-01-02 03:04:06
+const MODIFIED_AT = new Date(2026, 0, 2, 3, 4, 6);
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join(' ');
+
+const readCentralDirectory = (archive: Uint8Array) => {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const end = archive.length - 22;
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+
+  return Array.from({ length: count }, () => {
+    const nameLength = view.getUint16(position + 28, true);
+    const entry = {
+      crc: view.getUint32(position + 16, true),
+      size: view.getUint32(position + 24, true),
+      offset: view.getUint32(position + 42, true),
+      name: new TextDecoder().decode(archive.subarray(position + 46, position + 46 + nameLength)),
+    };
+    position += 46 + nameLength;
+    return entry;
+  });
+};
+
+describe('createZipArchive', () => {
+  it('matches the golden bytes for a single stored entry', () => {
+    const archive = createZipArchive([{ path: 'a.txt', content: 'hello' }], MODIFIED_AT);
+
+    expect(toHex(archive)).toBe(
+      [
+        // Local file header: signature, version 2.0, UTF-8 flag, stored, time, date, CRC, sizes, name length
+        '50 4b 03 04 14 00 00 08 00 00 83 18 22 5c 86 a6 10 36 05 00 00 00 05 00 00 00 05 00 00 00',
+        '61 2e 74 78 74',
+        '68 65 6c 6c 6f',
+        // Central directory header, pointing back at offset 0
+        '50 4b 01 02 14 00 14 00 00 08 00 00 83 18 22 5c 86 a6 10 36 05 00 00 00 05 00 00 00 05 00',
+        '00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00',
+        '61 2e 74 78 74',
+        // End of central directory: one entry, 51-byte directory at offset 40
+        '50 4b 05 06 00 00 00 00 01 00 01 00 33 00 00 00 28 00 00 00 00 00',
+      ].join(' ')
+    );
+  });
+
+  it('writes the standard CRC-32 check values', () => {
+    const archive = createZipArchive(
+      [
+        { path: 'check.txt', content: '123456789' },
+        { path: 'empty.txt', content: '' },
+        { path: 'bytes.bin', content: new Uint8Array([0x00, 0xff, 0x01]) },
+      ],
+      MODIFIED_AT
+    );
+
+    expect(readCentralDirectory(archive).map((entry) => entry.crc)).toEqual([0xcbf43926, 0x00000000, 0x1b6214f6]);
+  });
+
+  it('records each entry offset, size, and UTF-8 name in the central directory', () => {
+    const archive = createZipArchive(
+      [
+        { path: 'guide.pdf', content: new Uint8Array(10) },
+        { path: 'fonts/café.txt', content: 'é' },
+      ],
+      MODIFIED_AT
+    );
+    const view = new DataView(archive.buffer);
+
+    expect(readCentralDirectory(archive)).toEqual([
+      expect.objectContaining({ name: 'guide.pdf', size: 10, offset: 0 }),
+      // 30-byte header + 9-byte name + 10 bytes of data; the name is 15 bytes once encoded
+      expect.objectContaining({ name: 'fonts/café.txt', size: 2, offset: 49 }),
+    ]);
+    expect(view.getUint32(49, true)).toBe(0x04034b50);
+    expect(view.getUint16(49 + 6, true)).toBe(0x0800);
+  });
+
+  it('clamps dates before 1980 to the DOS epoch', () => {
+    const archive = createZipArchive([{ path: 'a', content: '' }], new Date(1970, 0, 1));
+
+    expect(new DataView(archive.buffer).getUint16(12, true)).toBe((1 << 5) | 1);
+  });
+
+  it('writes only the end record for an empty archive', () => {
+    expect(toHex(createZipArchive([], MODIFIED_AT))).toBe(
+      '50 4b 05 06 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00 00'
+    );
+  });
+});
@@ -0,0 +1,701 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, RGB, StandardFonts, rgb } from 'npm:pdf-lib@1.17.1';
+import type { BrandKitExportOptions } from '../../../types.ts';
+import { getPaletteRole } from '../../../lib/brandTokens.ts';
+import { getWorkbookRecapItems } from '../../../lib/brandWorkbook.ts';
+import {
+  COLOR_VISION_TYPES,
+  PaletteAccessibilityAudit,
+  buildPaletteAccessibilityAudit,
+} from '../../../lib/paletteAccessibility.ts';
+import {
+  buildTypographyLevels,
+  describeLetterSpacing,
+  formatEm,
+  getTypographySystem,
+} from '../../../lib/typographySystem.ts';
+
+export interface BrandPdfLogo {
+  bytes: Uint8Array;
+  type: 'png' | 'jpg';
+}
+
+export interface BrandPdfOptions extends BrandKitExportOptions {
+  logo?: BrandPdfLogo | null;
+}
+
+// A4 in points, with the same warm paper and ink as the printable HTML export
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_HEIGHT = 28;
+
+const PAPER = rgb(0.969, 0.945, 0.906);
+const INK = rgb(0.145, 0.125, 0.106);
+const MUTED = rgb(0.435, 0.4, 0.369);
+const LINE = rgb(0.85, 0.82, 0.78);
+const SWATCH_FALLBACK = '#f1ece2';
+
+// Characters the standard PDF fonts can draw beyond Latin-1 (the Windows-1252 extras)
+const WIN_ANSI_EXTRAS = new Set('€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ');
+
+interface Fonts {
+  serif: PDFFont;
+  serifBold: PDFFont;
+  sans: PDFFont;
+}
+
+interface TextStyle {
+  font: PDFFont;
+  size: number;
+  color?: RGB;
+  lineHeight?: number;
+}
+
+/**
+ * The standard fonts only cover WinAnsi. Accented letters are folded to their base letter and
+ * anything else becomes a plain substitute, so model output can never break rendering.
+ */
+export const toWinAnsi = (value: string) =>
+  Array.from(value.replace(/\r\n?/g, '\n').replace(/\t/g, ' '))
+    .map((char) => {
+      const code = char.charCodeAt(0);
+      if (char === '\n' || (code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff)) return char;
+      if (WIN_ANSI_EXTRAS.has(char)) return char;
+
+      const folded = char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '');
+      return /^[\x20-\x7e]+$/.test(folded) ? folded : '?';
+    })
+    .join('');
+
+const HEX_PATTERN = /^#?([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const hexToRgb = (hex: string): RGB => {
+  const digits = (HEX_PATTERN.exec(hex.trim()) || (HEX_PATTERN.exec(SWATCH_FALLBACK) as RegExpExecArray))[1];
+  const full = digits.length === 3 ? digits.replace(/./g, '$&$&') : digits;
+  const channel = (offset: number) => Number.parseInt(full.slice(offset, offset + 2), 16) / 255;
+
+  return rgb(channel(0), channel(2), channel(4));
+};
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number) => {
+  const lines: string[] = [];
+
+  toWinAnsi(text)
+    .split('\n')
+    .forEach((paragraph) => {
+      let line = '';
+
+      paragraph.split(/\s+/).filter(Boolean).forEach((word) => {
+        const candidate = line ? `${line} ${word}` : word;
+        if (!line || font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+          line = candidate;
+          return;
+        }
+
+        lines.push(line);
+        line = word;
+      });
+
+      lines.push(line);
+    });
+
+  return lines;
+};
+
+const formatExportDate = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? value : `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+};
+
+/**
+ * Lays content out top to bottom, starting a new page whenever the next block would run into the
+ * footer. Every page gets the paper background so the file reads like the printable export.
+ */
+const createLayout = (doc: PDFDocument) => {
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let cursor = PAGE_HEIGHT - MARGIN;
+
+  const paintBackground = (target: PDFPage) =>
+    target.drawRectangle({ x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT, color: PAPER });
+
+  paintBackground(page);
+
+  const newPage = () => {
+    page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    paintBackground(page);
+    cursor = PAGE_HEIGHT - MARGIN;
+  };
+
+  const ensureSpace = (height: number) => {
+    if (cursor - height < MARGIN + FOOTER_HEIGHT) {
+      newPage();
+    }
+  };
+
+  const gap = (height: number) => {
+    cursor -= height;
+  };
+
+  const text = (value: string, style: TextStyle, x = MARGIN, width = CONTENT_WIDTH - (x - MARGIN)) => {
+    const lineHeight = style.lineHeight || style.size * 1.45;
+
+    wrapText(value, style.font, style.size, width).forEach((line) => {
+      ensureSpace(lineHeight);
+      cursor -= lineHeight;
+      page.drawText(line, {
+        x,
+        y: cursor + (lineHeight - style.size) / 2,
+        size: style.size,
+        font: style.font,
+        color: style.color || INK,
+      });
+    });
+  };
+
+  const rule = () => {
+    ensureSpace(12);
+    page.drawLine({
+      start: { x: MARGIN, y: cursor - 6 },
+      end: { x: PAGE_WIDTH - MARGIN, y: cursor - 6 },
+      thickness: 0.75,
+      color: LINE,
+    });
+    cursor -= 12;
+  };
+
+  return {
+    get page() {
+      return page;
+    },
+    get cursor() {
+      return cursor;
+    },
+    newPage,
+    ensureSpace,
+    gap,
+    text,
+    rule,
+  };
+};
+
+type Layout = ReturnType<typeof createLayout>;
+
+const drawSectionHeading = (layout: Layout, fonts: Fonts, label: string, heading: string) => {
+  layout.ensureSpace(64);
+  layout.gap(18);
+  layout.text(label.toUpperCase(), { font: fonts.sans, size: 8, color: MUTED });
+  layout.gap(2);
+  layout.text(heading, { font: fonts.serifBold, size: 17 });
+  layout.gap(8);
+};
+
+const drawNote = (layout: Layout, fonts: Fonts, label: string, body: string) => {
+  if (!body.trim()) return;
+
+  layout.ensureSpace(40);
+  layout.text(label.toUpperCase(), { font: fonts.sans, size: 7.5, color: MUTED });
+  layout.text(body, { font: fonts.serif, size: 10.5 });
+  layout.gap(10);
+};
+
+const drawList = (layout: Layout, fonts: Fonts, label: string, items: string[]) => {
+  const filled = items.filter((item) => item.trim());
+  if (filled.length === 0) return;
+
+  layout.ensureSpace(40);
+  layout.text(label.toUpperCase(), { font: fonts.sans, size: 7.5, color: MUTED });
+  filled.forEach((item) => {
+    layout.text(`•  ${item}`, { font: fonts.serif, size: 10.5 }, MARGIN + 6);
+  });
+  layout.gap(10);
+};
+
+const SWATCH_COLUMNS = 2;
+const SWATCH_GAP = 16;
+const SWATCH_HEIGHT = 64;
+
+const drawPalette = (layout: Layout, fonts: Fonts, options: BrandPdfOptions) => {
+  const colors = options.kit.colorPaletteSuggestions || [];
+
+  if (colors.length === 0) {
+    layout.text('Palette suggestions were not saved for this version yet.', {
+      font: fonts.serif,
+      size: 10.5,
+      color: MUTED,
+    });
+    return;
+  }
+
+  const cardWidth = (CONTENT_WIDTH - SWATCH_GAP * (SWATCH_COLUMNS - 1)) / SWATCH_COLUMNS;
+
+  for (let start = 0; start < colors.length; start += SWATCH_COLUMNS) {
+    const row = colors.slice(start, start + SWATCH_COLUMNS);
+    const rowHeight =
+      SWATCH_HEIGHT +
+      Math.max(
+        ...row.map((color) => 46 + wrapText(color.usage || '', fonts.serif, 9, cardWidth - 20).length * 12)
+      );
+
+    layout.ensureSpace(rowHeight + SWATCH_GAP);
+    const top = layout.cursor;
+
+    row.forEach((color, offset) => {
+      const x = MARGIN + offset * (cardWidth + SWATCH_GAP);
+      const page = layout.page;
+
+      page.drawRectangle({
+        x,
+        y: top - rowHeight,
+        width: cardWidth,
+        height: rowHeight,
+        borderColor: LINE,
+        borderWidth: 0.75,
+      });
+      page.drawRectangle({
+        x,
+        y: top - SWATCH_HEIGHT,
+        width: cardWidth,
+        height: SWATCH_HEIGHT,
+        color: hexToRgb(color.hex || SWATCH_FALLBACK),
+        borderColor: LINE,
+        borderWidth: 0.75,
+      });
+
+      let y = top - SWATCH_HEIGHT - 16;
+      page.drawText(getPaletteRole(start + offset).toUpperCase(), {
+        x: x + 10,
+        y,
+        size: 7.5,
+        font: fonts.sans,
+        color: MUTED,
+      });
+      y -= 15;
+      page.drawText(toWinAnsi(`${color.name || 'Unnamed'}  ${color.hex || ''}`.trim()), {
+        x: x + 10,
+        y,
+        size: 11,
+        font: fonts.serifBold,
+        color: INK,
+      });
+      wrapText(color.usage || '', fonts.serif, 9, cardWidth - 20).forEach((line) => {
+        y -= 12;
+        page.drawText(line, { x: x + 10, y, size: 9, font: fonts.serif, color: INK });
+      });
+    });
+
+    layout.gap(rowHeight + SWATCH_GAP);
+  }
+};
+
+const fitText = (value: string, font: PDFFont, size: number, maxWidth: number) => {
+  let text = toWinAnsi(value);
+  while (text.length > 1 && font.widthOfTextAtSize(text, size) > maxWidth) {
+    text = text.slice(0, -1);
+  }
+  return text;
+};
+
+const MATRIX_SAMPLE_HEIGHT = 26;
+const MATRIX_CELL_HEIGHT = 50;
+const MATRIX_HEADER_HEIGHT = 22;
+
+const drawContrastMatrix = (layout: Layout, fonts: Fonts, audit: PaletteAccessibilityAudit) => {
+  const cellWidth = CONTENT_WIDTH / (audit.colors.length + 1);
+
+  layout.ensureSpace(MATRIX_HEADER_HEIGHT + MATRIX_CELL_HEIGHT);
+  audit.colors.forEach((color, column) => {
+    layout.page.drawText(fitText(color.name, fonts.sans, 7, cellWidth - 6), {
+      x: MARGIN + (column + 1) * cellWidth + 3,
+      y: layout.cursor - 14,
+      size: 7,
+      font: fonts.sans,
+      color: MUTED,
+    });
+  });
+  layout.gap(MATRIX_HEADER_HEIGHT);
+
+  audit.matrix.forEach((cells, row) => {
+    layout.ensureSpace(MATRIX_CELL_HEIGHT);
+    const top = layout.cursor;
+    const page = layout.page;
+
+    page.drawText(fitText(audit.colors[row].name, fonts.sans, 7, cellWidth - 6), {
+      x: MARGIN,
+      y: top - MATRIX_SAMPLE_HEIGHT / 2 - 3,
+      size: 7,
+      font: fonts.sans,
+      color: MUTED,
+    });
+
+    cells.forEach((cell, column) => {
+      const x = MARGIN + (column + 1) * cellWidth;
+
+      page.drawRectangle({
+        x,
+        y: top - MATRIX_CELL_HEIGHT,
+        width: cellWidth,
+        height: MATRIX_CELL_HEIGHT,
+        borderColor: LINE,
+        borderWidth: 0.5,
+      });
+
+      if (!cell) return;
+
+      page.drawRectangle({
+        x: x + 3,
+        y: top - 3 - MATRIX_SAMPLE_HEIGHT,
+        width: cellWidth - 6,
+        height: MATRIX_SAMPLE_HEIGHT,
+        color: hexToRgb(cell.background.hex),
+      });
+      page.drawText('Aa', {
+        x: x + 8,
+        y: top - 3 - MATRIX_SAMPLE_HEIGHT + 8,
+        size: 12,
+        font: fonts.serifBold,
+        color: hexToRgb(cell.foreground.hex),
+      });
+      page.drawText(fitText(`${cell.ratio.toFixed(2)} ${cell.level}`, fonts.sans, 6.5, cellWidth - 6), {
+        x: x + 3,
+        y: top - MATRIX_SAMPLE_HEIGHT - 12,
+        size: 6.5,
+        font: fonts.sans,
+        color: cell.passesAA ? INK : MUTED,
+      });
+      if (cell.suggestion) {
+        page.drawText(fitText(`try ${cell.suggestion.hex}`, fonts.sans, 6.5, cellWidth - 6), {
+          x: x + 3,
+          y: top - MATRIX_SAMPLE_HEIGHT - 20,
+          size: 6.5,
+          font: fonts.sans,
+          color: MUTED,
+        });
+      }
+    });
+
+    layout.gap(MATRIX_CELL_HEIGHT);
+  });
+};
+
+const drawColorVisionRows = (layout: Layout, fonts: Fonts, audit: PaletteAccessibilityAudit) => {
+  const labelWidth = 170;
+  const swatchWidth = (CONTENT_WIDTH - labelWidth) / audit.colors.length;
+
+  const rows = [
+    { label: 'Typical color vision', colors: audit.colors.map((color) => color.hex) },
+    ...COLOR_VISION_TYPES.map(({ type, label }) => ({ label, colors: audit.simulations[type] })),
+  ];
+
+  rows.forEach((row) => {
+    layout.ensureSpace(26);
+    const top = layout.cursor;
+
+    layout.page.drawText(toWinAnsi(row.label), {
+      x: MARGIN,
+      y: top - 14,
+      size: 8,
+      font: fonts.sans,
+      color: MUTED,
+    });
+    row.colors.forEach((hex, index) => {
+      layout.page.drawRectangle({
+        x: MARGIN + labelWidth + index * swatchWidth,
+        y: top - 22,
+        width: swatchWidth - 4,
+        height: 20,
+        color: hexToRgb(hex),
+        borderColor: LINE,
+        borderWidth: 0.5,
+      });
+    });
+
+    layout.gap(26);
+  });
+};
+
+const drawAccessibility = (layout: Layout, fonts: Fonts, options: BrandPdfOptions) => {
+  const audit = buildPaletteAccessibilityAudit(options.kit);
+
+  if (audit.colors.length < 2) {
+    layout.text('At least two palette colors with hex values are needed for a contrast check.', {
+      font: fonts.serif,
+      size: 10.5,
+      color: MUTED,
+    });
+    return;
+  }
+
+  layout.text(
+    'Rows are text color, columns are background. AA needs 4.5:1 for body text (3:1 for large text); AAA needs 7:1.',
+    { font: fonts.serif, size: 10 }
+  );
+  layout.gap(8);
+  drawContrastMatrix(layout, fonts, audit);
+  layout.gap(10);
+
+  drawList(
+    layout,
+    fonts,
+    'Pairings below AA for body text',
+    audit.failingPairs.map((pair) => {
+      const summary = `${pair.foreground.name} on ${pair.background.name}: ${pair.ratio.toFixed(2)}:1`;
+      const { suggestion } = pair;
+
+      return suggestion
+        ? `${summary} - nearest ${suggestion.direction} ${suggestion.hex} (${suggestion.ratio.toFixed(2)}:1)`
+        : summary;
+    })
+  );
+
+  layout.ensureSpace(40);
+  layout.text('COLOR VISION PREVIEW', { font: fonts.sans, size: 7.5, color: MUTED });
+  layout.gap(4);
+  drawColorVisionRows(layout, fonts, audit);
+};
+
+// Display sizes can run past 100px, so samples are scaled together to keep their proportions
+const TYPE_SAMPLE_MAX_SIZE = 34;
+const TYPE_LABEL_WIDTH = 170;
+
+const drawTypeScale = (layout: Layout, fonts: Fonts, options: BrandPdfOptions) => {
+  const system = getTypographySystem(options.kit, options.formData);
+  const levels = buildTypographyLevels(system);
+  const factor = Math.min(1, TYPE_SAMPLE_MAX_SIZE / Math.max(...levels.map((level) => level.size)));
+
+  layout.text(
+    `${system.scaleName} scale (${system.scaleRatio}) on a ${system.baseSize}px base. Headings set at ${system.lineHeights.heading} line height, body at ${system.lineHeights.body}.${factor < 1 ? ' Samples are scaled to fit the page.' : ''}`,
+    { font: fonts.serif, size: 10 }
+  );
+  layout.gap(6);
+
+  levels.forEach((level) => {
+    const sampleSize = Math.max(6, level.size * factor);
+    const rowHeight = Math.max(22, sampleSize * 1.3);
+    layout.ensureSpace(rowHeight);
+    const top = layout.cursor;
+    const sampleFont = level.heading ? fonts.serifBold : fonts.serif;
+
+    const sample = level.heading ? options.brandName : 'Clear, practical body copy.';
+
+    layout.page.drawText(toWinAnsi(`${level.label}  ${level.size}px / ${level.lineHeight} / ${formatEm(level.letterSpacing)}`), {
+      x: MARGIN,
+      y: top - rowHeight / 2 - 3,
+      size: 8,
+      font: fonts.sans,
+      color: MUTED,
+    });
+    layout.page.drawText(fitText(sample, sampleFont, sampleSize, CONTENT_WIDTH - TYPE_LABEL_WIDTH), {
+      x: MARGIN + TYPE_LABEL_WIDTH,
+      y: top - rowHeight + (rowHeight - sampleSize) / 2 + 2,
+      size: sampleSize,
+      font: sampleFont,
+      color: INK,
+    });
+    layout.page.drawLine({
+      start: { x: MARGIN, y: top - rowHeight },
+      end: { x: PAGE_WIDTH - MARGIN, y: top - rowHeight },
+      thickness: 0.5,
+      color: LINE,
+    });
+
+    layout.gap(rowHeight);
+  });
+  layout.gap(12);
+
+  drawNote(layout, fonts, 'Letter-spacing', describeLetterSpacing(system));
+
+  layout.ensureSpace(40);
+  layout.text(`SPACING SCALE  ${system.spacingUnit}PX UNIT`, { font: fonts.sans, size: 7.5, color: MUTED });
+  layout.gap(4);
+  system.spacingScale.forEach((value) => {
+    layout.ensureSpace(16);
+    const top = layout.cursor;
+
+    layout.page.drawText(`${value}px`, { x: MARGIN, y: top - 11, size: 8, font: fonts.sans, color: MUTED });
+    layout.page.drawRectangle({
+      x: MARGIN + 60,
+      y: top - 12,
+      width: Math.min(value, CONTENT_WIDTH - 60),
+      height: 8,
+      color: INK,
+    });
+
+    layout.gap(16);
+  });
+  layout.gap(10);
+
+  drawList(layout, fonts, 'Why this system', system.rationale);
+};
+
+const drawLogo = (layout: Layout, image: PDFImage) => {
+  const { width, height } = image.scaleToFit(180, 180);
+
+  layout.ensureSpace(height + 16);
+  layout.page.drawImage(image, {
+    x: MARGIN + (CONTENT_WIDTH - width) / 2,
+    y: layout.cursor - height,
+    width,
+    height,
+  });
+  layout.gap(height + 16);
+};
+
+const drawFooters = (doc: PDFDocument, fonts: Fonts, brandName: string) => {
+  const pages = doc.getPages();
+
+  pages.forEach((page, index) => {
+    page.drawText(toWinAnsi(`${brandName} Brand Workbook`), {
+      x: MARGIN,
+      y: MARGIN - 18,
+      size: 7.5,
+      font: fonts.sans,
+      color: MUTED,
+    });
+
+    const label = `${index + 1} / ${pages.length}`;
+    page.drawText(label, {
+      x: PAGE_WIDTH - MARGIN - fonts.sans.widthOfTextAtSize(label, 7.5),
+      y: MARGIN - 18,
+      size: 7.5,
+      font: fonts.sans,
+      color: MUTED,
+    });
+  });
+};
+
+/**
+ * Renders the brand workbook as a PDF with the same sections as the printable HTML export. Output
+ * is byte-for-byte stable for the same input: document dates come from exportedAt and the producer
+ * fields are fixed, so re-exporting an unchanged result yields an identical file.
+ */
+export const renderBrandKitPdf = async (options: BrandPdfOptions): Promise<Uint8Array> => {
+  const { brandName, kit, formData, exportedAt, sourceModel, versionLabel } = options;
+  const doc = await PDFDocument.create({ updateMetadata: false });
+  const stamp = new Date(exportedAt);
+
+  doc.setTitle(toWinAnsi(`${brandName} Brand Workbook`));
+  doc.setSubject(toWinAnsi(kit.brandEssence || 'Brand workbook export'));
+  doc.setKeywords((kit.keywords || []).map(toWinAnsi));
+  doc.setCreator('Brand Mosaic');
+  doc.setProducer('Brand Mosaic');
+  doc.setCreationDate(stamp);
+  doc.setModificationDate(stamp);
+
+  const fonts: Fonts = {
+    serif: await doc.embedFont(StandardFonts.TimesRoman),
+    serifBold: await doc.embedFont(StandardFonts.TimesRomanBold),
+    sans: await doc.embedFont(StandardFonts.Helvetica),
+  };
+
+  let logoImage: PDFImage | null = null;
+  if (options.logo) {
+    try {
+      logoImage =
+        options.logo.type === 'png' ? await doc.embedPng(options.logo.bytes) : await doc.embedJpg(options.logo.bytes);
+    } catch (error) {
+      console.error('Logo could not be embedded in the PDF:', error);
+    }
+  }
+
+  const layout = createLayout(doc);
+
+  // Cover
+  layout.gap(24);
+  layout.text('BRAND MOSAIC WORKBOOK EXPORT', { font: fonts.sans, size: 8, color: MUTED });
+  layout.gap(6);
+  layout.text(brandName, { font: fonts.serifBold, size: 32, lineHeight: 38 });
+  layout.gap(6);
+  layout.text(kit.brandEssence || 'Generated brand direction', { font: fonts.serif, size: 13 });
+  layout.gap(10);
+  layout.text(
+    kit.summaryParagraph || 'This export captures the latest saved strategic direction for the workbook.',
+    { font: fonts.serif, size: 11.5, lineHeight: 18 }
+  );
+  layout.gap(12);
+  layout.text(
+    [versionLabel, formatExportDate(exportedAt), sourceModel].filter(Boolean).join('   ·   '),
+    { font: fonts.sans, size: 8.5, color: MUTED }
+  );
+  layout.gap(8);
+  layout.rule();
+
+  drawSectionHeading(layout, fonts, 'Brand Essence', 'Core identity and positioning');
+  drawNote(layout, fonts, 'Mission', kit.brandFoundation?.mission || '');
+  drawNote(layout, fonts, 'Positioning', kit.brandFoundation?.positioning || '');
+  drawNote(layout, fonts, 'Audience', kit.targetAudienceSummary || '');
+  drawNote(layout, fonts, 'Emotional character', kit.brandFoundation?.emotionalCharacter || '');
+  drawNote(
+    layout,
+    fonts,
+    'Archetype',
+    [kit.brandArchetype?.name, kit.brandArchetype?.explanation].filter(Boolean).join(' - ')
+  );
+
+  drawSectionHeading(layout, fonts, 'Personality', 'Traits, tone, and feel');
+  drawNote(layout, fonts, 'Traits', (kit.personalityProfile?.traits || kit.keywords || []).join(', '));
+  drawNote(layout, fonts, 'Tone', (kit.personalityProfile?.tone || kit.toneOfVoice || []).join(', '));
+  drawNote(layout, fonts, 'Emotional descriptors', (kit.personalityProfile?.emotionalDescriptors || []).join(', '));
+
+  layout.newPage();
+  drawSectionHeading(layout, fonts, 'Visual System', 'Color palette');
+  drawPalette(layout, fonts, options);
+
+  layout.newPage();
+  drawSectionHeading(layout, fonts, 'Accessibility', 'Contrast and color vision');
+  drawAccessibility(layout, fonts, options);
+
+  drawSectionHeading(layout, fonts, 'Typography', 'Reading rhythm');
+  drawNote(layout, fonts, 'Display / Heading', kit.fontPairing?.headlineFont || 'Not specified');
+  drawNote(layout, fonts, 'Body', kit.fontPairing?.bodyFont || 'Not specified');
+  drawNote(
+    layout,
+    fonts,
+    'Usage note',
+    kit.fontPairing?.note || 'Treat the type pairing as a direction, then keep its use consistent.'
+  );
+  drawTypeScale(layout, fonts, options);
+
+  drawSectionHeading(layout, fonts, 'Logo Direction', 'Mark concept and creative note');
+  if (logoImage) {
+    drawLogo(layout, logoImage);
+  }
+  drawNote(layout, fonts, 'Concept summary', kit.logoDirection?.conceptSummary || '');
+  drawList(layout, fonts, 'Creative notes', kit.logoDirection?.creativeNotes || []);
+  drawNote(layout, fonts, 'Logo prompt', kit.logoPrompt || '');
+
+  drawSectionHeading(layout, fonts, 'Voice & Messaging', 'How the brand should sound');
+  drawNote(layout, fonts, 'Voice summary', kit.messagingDirection?.voiceSummary || '');
+  drawList(layout, fonts, 'Messaging pillars', kit.messagingDirection?.messagingPillars || []);
+  drawList(layout, fonts, 'Tagline directions', kit.messagingDirection?.taglineDirections || []);
+  drawList(layout, fonts, 'Avoid', kit.messagingDirection?.avoidLanguage || []);
+
+  drawSectionHeading(layout, fonts, 'Imagery', 'Photography and art direction');
+  drawNote(
+    layout,
+    fonts,
+    'Photography direction',
+    kit.imageryDirection?.photographyDirection || kit.visualDirection || ''
+  );
+  drawNote(layout, fonts, 'Mood', kit.imageryDirection?.mood || '');
+  drawNote(layout, fonts, 'Art direction', kit.imageryDirection?.artDirection || '');
+  drawList(layout, fonts, 'Reference cues', kit.imageryDirection?.referenceCues || []);
+
+  drawSectionHeading(layout, fonts, 'Applications', 'How this direction can be used');
+  drawNote(layout, fonts, 'Website', kit.applicationDirection?.website || '');
+  drawNote(layout, fonts, 'Social', kit.applicationDirection?.social || '');
+  drawNote(
+    layout,
+    fonts,
+    'Packaging / Campaign',
+    [kit.applicationDirection?.packaging, kit.applicationDirection?.campaign].filter(Boolean).join(' ')
+  );
+
+  layout.newPage();
+  drawSectionHeading(layout, fonts, 'Original Input Recap', 'Source notes from the workbook');
+  getWorkbookRecapItems(formData).forEach(([label, value]) => drawNote(layout, fonts, label, value));
+
+  drawFooters(doc, fonts, brandName);
+
+  return doc.save({ useObjectStreams: false });
+};
@@ -0,0 +1,307 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.89.0';
+import type { BrandKit } from '../../../types.ts';
+import { answersToFormData } from '../../../lib/brandWorkbook.ts';
+import { assessPublicUrl, isBlockedAddress, isIPv4 } from '../../../lib/urlSafety.ts';
+import { BrandPdfLogo, renderBrandKitPdf } from './brandPdf.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const EXPORT_BUCKET = 'brand-exports';
+// Long enough to hand to a client, short enough that a leaked link goes stale
+const SIGNED_URL_TTL_SECONDS = 60 * 60 * 24 * 7;
+
+const LOGO_FETCH_TIMEOUT_MS = 10_000;
+const MAX_LOGO_BYTES = 5 * 1024 * 1024;
+
+type PdfExportErrorCode =
+  | 'export/not-authenticated'
+  | 'export/invalid-request'
+  | 'export/not-found'
+  | 'export/render-failed'
+  | 'export/storage-failed';
+
+interface PdfExportError {
+  code: PdfExportErrorCode;
+  status: number;
+  message: string;
+}
+
+const pdfExportError = (code: PdfExportErrorCode, status: number, message: string): PdfExportError => ({
+  code,
+  status,
+  message,
+});
+
+const isPdfExportError = (error: unknown): error is PdfExportError =>
+  Boolean(error && typeof error === 'object' && 'code' in error && 'status' in error);
+
+interface ProjectRow {
+  id: string;
+  user_id: string;
+  brand_name: string;
+}
+
+interface BrandResultRow {
+  id: string;
+  project_id: string;
+  result_json: BrandKit;
+  source_model: string | null;
+  generated_logo_url: string | null;
+  updated_at: string;
+}
+
+interface QuestionRow {
+  question_key: string;
+  answer: unknown;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const errorResponse = (error: PdfExportError) =>
+  jsonResponse({ error: { code: error.code, message: error.message } }, error.status);
+
+const createUserScopedClient = (authHeader: string) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase function environment is missing base configuration.');
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: {
+        Authorization: authHeader,
+      },
+    },
+  });
+};
+
+const getPdfFileName = (brandName: string) =>
+  `${
+    brandName
+      .toLowerCase()
+      .replace(/['’]/g, '')
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-+|-+$/g, '') || 'brand-workbook'
+  }-brand-workbook.pdf`;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: { code: 'export/invalid-request', message: 'Method not allowed.' } }, 405);
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return errorResponse(pdfExportError('export/not-authenticated', 401, 'Missing authorization header.'));
+  }
+
+  try {
+    const client = createUserScopedClient(authHeader);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await client.auth.getUser();
+
+    if (userError || !user) {
+      return errorResponse(pdfExportError('export/not-authenticated', 401, 'Not authenticated.'));
+    }
+
+    let body: { projectId?: unknown; resultId?: unknown; versionLabel?: unknown; recordExport?: unknown };
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(pdfExportError('export/invalid-request', 400, 'Invalid JSON body.'));
+    }
+
+    const { projectId, resultId, versionLabel, recordExport } = body;
+    if (typeof projectId !== 'string' || typeof resultId !== 'string') {
+      return errorResponse(pdfExportError('export/invalid-request', 400, 'projectId and resultId are required.'));
+    }
+
+    // RLS scopes both reads to the signed-in owner, so a foreign id simply comes back empty
+    const { data: project, error: projectError } = await client
+      .from('projects')
+      .select('id, user_id, brand_name')
+      .eq('id', projectId)
+      .maybeSingle();
+
+    if (projectError) throw projectError;
+    if (!project) {
+      return errorResponse(pdfExportError('export/not-found', 404, 'Project not found.'));
+    }
+
+    const { data: result, error: resultError } = await client
+      .from('brand_results')
+      .select('id, project_id, result_json, source_model, generated_logo_url, updated_at')
+      .eq('id', resultId)
+      .eq('project_id', projectId)
+      .maybeSingle();
+
+    if (resultError) throw resultError;
+    if (!result) {
+      return errorResponse(pdfExportError('export/not-found', 404, 'Saved result not found.'));
+    }
+
+    const { data: answers, error: answersError } = await client
+      .from('questionnaire_answers')
+      .select('question_key, answer')
+      .eq('project_id', projectId);
+
+    if (answersError) throw answersError;
+
+    const projectRow = project as ProjectRow;
+    const resultRow = result as BrandResultRow;
+
+    let pdf: Uint8Array;
+    try {
+      pdf = await renderBrandKitPdf({
+        brandName: projectRow.brand_name,
+        kit: resultRow.result_json,
+        formData: answersToFormData((answers || []) as QuestionRow[]),
+        // The result's own timestamp keeps the file identical across repeat exports
+        exportedAt: resultRow.updated_at,
+        sourceModel: resultRow.source_model || undefined,
+        versionLabel: typeof versionLabel === 'string' && versionLabel.trim() ? versionLabel.trim() : undefined,
+        logoImageUrl: resultRow.generated_logo_url,
+        logo: await loadLogo(resultRow.generated_logo_url),
+      });
+    } catch (error) {
+      console.error('PDF render error:', error);
+      throw pdfExportError('export/render-failed', 500, 'The PDF could not be rendered.');
+    }
+
+    const fileName = getPdfFileName(projectRow.brand_name);
+    const storagePath = `${user.id}/${projectId}/${resultId}.pdf`;
+
+    const { error: uploadError } = await client.storage.from(EXPORT_BUCKET).upload(storagePath, pdf, {
+      contentType: 'application/pdf',
+      upsert: true,
+    });
+
+    if (uploadError) {
+      console.error('PDF upload error:', uploadError);
+      throw pdfExportError('export/storage-failed', 502, 'The PDF could not be stored.');
+    }
+
+    const { data: signed, error: signError } = await client.storage
+      .from(EXPORT_BUCKET)
+      .createSignedUrl(storagePath, SIGNED_URL_TTL_SECONDS, { download: fileName });
+
+    if (signError || !signed?.signedUrl) {
+      console.error('PDF signing error:', signError);
+      throw pdfExportError('export/storage-failed', 502, 'The PDF was stored but no download link was issued.');
+    }
+
+    // Callers bundling the PDF into a larger export (the brand package) record that export instead
+    if (recordExport !== false) {
+      const { error: exportError } = await client.from('exports').insert({
+        project_id: projectId,
+        brand_result_id: resultId,
+        export_type: 'pdf',
+        file_name: fileName,
+        export_url: signed.signedUrl,
+        metadata: {
+          versionId: resultId,
+          storagePath,
+          byteLength: pdf.byteLength,
+          renderer: 'server',
+        },
+      });
+
+      if (exportError) {
+        console.error('Failed to record PDF export:', exportError);
+      }
+    }
+
+    return jsonResponse({
+      url: signed.signedUrl,
+      fileName,
+      storagePath,
+      byteLength: pdf.byteLength,
+    });
+  } catch (error) {
+    console.error('PDF export error:', error);
+
+    if (isPdfExportError(error)) {
+      return errorResponse(error);
+    }
+
+    const message = error instanceof Error ? error.message : 'Failed to export the brand workbook PDF';
+    return errorResponse(pdfExportError('export/render-failed', 500, message));
+  }
+});
+
+// ── Helpers ───────────────────────────────────────────
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47];
+const JPEG_SIGNATURE = [0xff, 0xd8, 0xff];
+
+const startsWith = (bytes: Uint8Array, signature: number[]) =>
+  signature.every((byte, index) => bytes[index] === byte);
+
+// pdf-lib embeds PNG and JPEG only; anything else leaves the logo out of the PDF
+const toPdfLogo = (bytes: Uint8Array): BrandPdfLogo | null => {
+  if (startsWith(bytes, PNG_SIGNATURE)) return { bytes, type: 'png' };
+  if (startsWith(bytes, JPEG_SIGNATURE)) return { bytes, type: 'jpg' };
+  return null;
+};
+
+const decodeBase64 = (value: string) => Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+/**
+ * Generated logos are usually stored as data URLs. Hosted logos are fetched only from public
+ * addresses, without following redirects, and under a size cap.
+ */
+async function loadLogo(logoUrl: string | null): Promise<BrandPdfLogo | null> {
+  if (!logoUrl) return null;
+
+  try {
+    const dataUrl = /^data:image\/[a-z+.-]+;base64,(.+)$/i.exec(logoUrl);
+    if (dataUrl) {
+      const bytes = decodeBase64(dataUrl[1]);
+      return bytes.byteLength <= MAX_LOGO_BYTES ? toPdfLogo(bytes) : null;
+    }
+
+    const assessment = assessPublicUrl(logoUrl);
+    if (!assessment.ok) return null;
+
+    const hostname = assessment.url.hostname;
+    if (!isIPv4(hostname) && !hostname.startsWith('[')) {
+      const answers = await Promise.allSettled([
+        Deno.resolveDns(hostname, 'A'),
+        Deno.resolveDns(hostname, 'AAAA'),
+      ]);
+      const addresses = answers.flatMap((answer) => (answer.status === 'fulfilled' ? answer.value : []));
+      if (addresses.length === 0 || addresses.some(isBlockedAddress)) return null;
+    }
+
+    const response = await fetch(assessment.url.toString(), {
+      redirect: 'error',
+      signal: AbortSignal.timeout(LOGO_FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok || Number(response.headers.get('content-length') || 0) > MAX_LOGO_BYTES) {
+      await response.body?.cancel();
+      return null;
+    }
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    return bytes.byteLength <= MAX_LOGO_BYTES ? toPdfLogo(bytes) : null;
+  } catch (error) {
+    console.error('Logo could not be loaded for the PDF:', error);
+    return null;
+  }
+}
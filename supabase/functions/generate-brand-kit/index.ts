@@ -1,18 +1,39 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'npm:@supabase/supabase-js@2.89.0';
 import {
+  buildBrandKitRepairPrompt,
   buildFullBrandKitPrompt,
   buildSectionRegenerationPrompt,
+  getLockedSectionIds,
+  getSectionRegenerationFields,
+  pickLockedBrandKitFields,
   mergeRegeneratedBrandKitSection,
   normalizeBrandKit,
 } from '../../../lib/brandStrategy.ts';
+import {
+  ALL_BRAND_KIT_FIELDS,
+  type BrandKitFieldId,
+  buildBrandKitQualityReport,
+  CORE_BRAND_KIT_FIELDS,
+  getIssueField,
+  validateBrandKit,
+} from '../../../lib/brandKitSchema.ts';
 import { answersToFormData, getProjectBrandName } from '../../../lib/brandWorkbook.ts';
+import { repairGeneratedPalette } from '../../../lib/colorParser.ts';
+import { buildTypographySystem } from '../../../lib/typographySystem.ts';
 
-type BrandAiProvider = 'openai' | 'gemini';
+type BrandAiProvider = 'openai' | 'gemini' | 'anthropic' | 'local';
 type RegenerableKitSectionId =
   | 'brandEssence'
-  | 'messagingDirection'
+  | 'summaryParagraph'
+  | 'keywords'
+  | 'toneOfVoice'
+  | 'brandArchetype'
+  | 'suggestedTagline'
   | 'colorPaletteSuggestions'
+  | 'fontPairing'
+  | 'logoPrompt'
+  | 'messagingDirection'
   | 'logoDirection'
   | 'imageryDirection';
 
@@ -29,6 +50,22 @@ interface BrandAiAttemptFailure {
   message: string;
 }
 
+interface ProviderJsonResponse<T> {
+  result: T;
+  outputTokens: number | null;
+}
+
+type GenerationEvent =
+  | { type: 'attempt-started'; provider: BrandAiProvider; model: string }
+  | { type: 'attempt-failed'; provider: BrandAiProvider; code: BrandAiErrorCode; message: string }
+  | { type: 'response-received'; provider: BrandAiProvider; outputTokens: number | null }
+  | { type: 'repair-started'; attempt: number; issueCount: number }
+  | { type: 'section-parsed'; field: BrandKitFieldId }
+  | { type: 'variant-started'; index: number; total: number }
+  | { type: 'row-persisted'; resultId: string };
+
+type EmitGenerationEvent = (event: GenerationEvent) => void;
+
 interface QuestionRow {
   question_key: string;
   answer: unknown;
@@ -41,6 +78,7 @@ interface BrandResultRow {
   source_model: string | null;
   generated_logo_url: string | null;
   generated_logo_at: string | null;
+  metadata: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
 }
@@ -55,7 +93,22 @@ const corsHeaders = {
 const DEFAULT_PROVIDER_CHAIN: BrandAiProvider[] = ['openai', 'gemini'];
 const DEFAULT_OPENAI_MODEL = 'gpt-5-mini';
 const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-5';
+const DEFAULT_LOCAL_MODEL = 'llama3.1';
 const OPENAI_API_URL = 'https://api.openai.com/v1/chat/completions';
+const DEFAULT_ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 8192;
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 2;
+
+const sseHeaders = {
+  ...corsHeaders,
+  'Content-Type': 'text/event-stream',
+  'Cache-Control': 'no-cache',
+  Connection: 'keep-alive',
+};
+
+const ignoreGenerationEvent: EmitGenerationEvent = () => {};
 
 const jsonResponse = (body: unknown, status = 200) =>
   new Response(JSON.stringify(body), {
@@ -65,7 +118,12 @@ const jsonResponse = (body: unknown, status = 200) =>
 
 const normalizeProvider = (value: string): BrandAiProvider | null => {
   const normalized = value.trim().toLowerCase();
-  if (normalized === 'openai' || normalized === 'gemini') {
+  if (
+    normalized === 'openai' ||
+    normalized === 'gemini' ||
+    normalized === 'anthropic' ||
+    normalized === 'local'
+  ) {
     return normalized;
   }
   return null;
@@ -83,16 +141,37 @@ const getProviderChain = (): BrandAiProvider[] => {
   return parsed.length > 0 ? parsed : DEFAULT_PROVIDER_CHAIN;
 };
 
-const getProviderApiKey = (provider: BrandAiProvider) => {
+const getLocalBaseUrl = () => {
+  const configured = Deno.env.get('LOCAL_AI_BASE_URL');
+  return configured ? configured.replace(/\/+$/, '') : null;
+};
+
+// Local OpenAI-compatible servers usually run without a key, so an empty string still counts as configured.
+const getProviderApiKey = (provider: BrandAiProvider): string | null => {
   if (provider === 'openai') return Deno.env.get('OPENAI_API_KEY') || null;
+  if (provider === 'anthropic') return Deno.env.get('ANTHROPIC_API_KEY') || null;
+  if (provider === 'local') return getLocalBaseUrl() ? Deno.env.get('LOCAL_AI_API_KEY') || '' : null;
   return Deno.env.get('GEMINI_API_KEY') || null;
 };
 
+const getMaxRepairAttempts = () => {
+  const configured = Number.parseInt(Deno.env.get('BRAND_AI_MAX_REPAIR_ATTEMPTS') || '', 10);
+  return Number.isFinite(configured) && configured >= 0 ? configured : DEFAULT_MAX_REPAIR_ATTEMPTS;
+};
+
 const getProviderModel = (provider: BrandAiProvider) => {
   if (provider === 'openai') {
     return Deno.env.get('OPENAI_MODEL') || DEFAULT_OPENAI_MODEL;
   }
 
+  if (provider === 'anthropic') {
+    return Deno.env.get('ANTHROPIC_MODEL') || DEFAULT_ANTHROPIC_MODEL;
+  }
+
+  if (provider === 'local') {
+    return Deno.env.get('LOCAL_AI_MODEL') || DEFAULT_LOCAL_MODEL;
+  }
+
   return Deno.env.get('GEMINI_MODEL') || DEFAULT_GEMINI_MODEL;
 };
 
@@ -104,7 +183,8 @@ const inferBrandAiErrorCode = (message: string): BrandAiErrorCode => {
     normalized.includes('invalid api key') ||
     normalized.includes('api key not valid') ||
     normalized.includes('unauthorized') ||
-    normalized.includes('authentication')
+    normalized.includes('authentication') ||
+    normalized.includes('permission_error')
   ) {
     return 'invalid-key';
   }
@@ -114,6 +194,7 @@ const inferBrandAiErrorCode = (message: string): BrandAiErrorCode => {
     normalized.includes('insufficient quota') ||
     normalized.includes('quota') ||
     normalized.includes('resource_exhausted') ||
+    normalized.includes('credit balance') ||
     normalized.includes('billing')
   ) {
     return 'quota-exceeded';
@@ -121,7 +202,9 @@ const inferBrandAiErrorCode = (message: string): BrandAiErrorCode => {
 
   if (
     normalized.includes('rate limit') ||
+    normalized.includes('rate_limit') ||
     normalized.includes('too many requests') ||
+    normalized.includes('overloaded') ||
     normalized.includes('429')
   ) {
     return 'rate-limit';
@@ -130,6 +213,9 @@ const inferBrandAiErrorCode = (message: string): BrandAiErrorCode => {
   return 'generation-failed';
 };
 
+const readTokenCount = (value: unknown): number | null =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
 const parseOpenAiText = (content: unknown): string => {
   if (typeof content === 'string') {
     return content.trim();
@@ -151,16 +237,33 @@ const parseOpenAiText = (content: unknown): string => {
   return '';
 };
 
-const requestOpenAiJson = async <T>(
+// Anthropic and most local models have no strict JSON mode, so tolerate a stray code fence or lead-in sentence.
+const extractJsonText = (text: string): string => {
+  const unfenced = text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+
+  if (start === -1 || end <= start) {
+    return unfenced;
+  }
+
+  return unfenced.slice(start, end + 1);
+};
+
+const requestOpenAiCompatibleJson = async <T>(
   prompt: string,
   apiKey: string,
-  model: string
-): Promise<T> => {
-  const response = await fetch(OPENAI_API_URL, {
+  model: string,
+  options: {
+    url: string;
+    label: string;
+  }
+): Promise<ProviderJsonResponse<T>> => {
+  const response = await fetch(options.url, {
     method: 'POST',
     headers: {
       'Content-Type': 'application/json',
-      Authorization: `Bearer ${apiKey}`,
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
     },
     body: JSON.stringify({
       model,
@@ -178,23 +281,47 @@ const requestOpenAiJson = async <T>(
   const payload = await response.json().catch(() => ({}));
 
   if (!response.ok) {
-    throw new Error(payload?.error?.message || response.statusText || 'OpenAI request failed.');
+    const errorMessage = typeof payload?.error === 'string' ? payload.error : payload?.error?.message;
+    throw new Error(errorMessage || response.statusText || `${options.label} request failed.`);
   }
 
   const text = parseOpenAiText(payload?.choices?.[0]?.message?.content);
 
   if (!text) {
-    throw new Error('OpenAI returned an empty response.');
+    throw new Error(`${options.label} returned an empty response.`);
   }
 
-  return JSON.parse(text) as T;
+  return {
+    result: JSON.parse(extractJsonText(text)) as T,
+    outputTokens: readTokenCount(payload?.usage?.completion_tokens),
+  };
 };
 
+const requestOpenAiJson = <T>(
+  prompt: string,
+  apiKey: string,
+  model: string
+): Promise<ProviderJsonResponse<T>> =>
+  requestOpenAiCompatibleJson<T>(prompt, apiKey, model, {
+    url: OPENAI_API_URL,
+    label: 'OpenAI',
+  });
+
+const requestLocalJson = <T>(
+  prompt: string,
+  apiKey: string,
+  model: string
+): Promise<ProviderJsonResponse<T>> =>
+  requestOpenAiCompatibleJson<T>(prompt, apiKey, model, {
+    url: `${getLocalBaseUrl()}/chat/completions`,
+    label: 'Local model',
+  });
+
 const requestGeminiJson = async <T>(
   prompt: string,
   apiKey: string,
   model: string
-): Promise<T> => {
+): Promise<ProviderJsonResponse<T>> => {
   const response = await fetch(
     `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
     {
@@ -236,7 +363,86 @@ const requestGeminiJson = async <T>(
     throw new Error('Gemini returned an empty response.');
   }
 
-  return JSON.parse(text) as T;
+  return {
+    result: JSON.parse(text) as T,
+    outputTokens: readTokenCount(payload?.usageMetadata?.candidatesTokenCount),
+  };
+};
+
+const getAnthropicApiUrl = () => Deno.env.get('ANTHROPIC_API_URL') || DEFAULT_ANTHROPIC_API_URL;
+
+const requestAnthropicJson = async <T>(
+  prompt: string,
+  apiKey: string,
+  model: string
+): Promise<ProviderJsonResponse<T>> => {
+  const response = await fetch(getAnthropicApiUrl(), {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-api-key': apiKey,
+      'anthropic-version': ANTHROPIC_API_VERSION,
+    },
+    body: JSON.stringify({
+      model,
+      max_tokens: ANTHROPIC_MAX_TOKENS,
+      temperature: 0.6,
+      system:
+        'Respond with a single valid JSON object only. Do not wrap it in markdown and do not add any text before or after it.',
+      messages: [
+        {
+          role: 'user',
+          content: prompt,
+        },
+      ],
+    }),
+  });
+
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    const errorType = payload?.error?.type;
+    const errorMessage = payload?.error?.message || response.statusText || 'Anthropic request failed.';
+    throw new Error(errorType ? `${errorType}: ${errorMessage}` : errorMessage);
+  }
+
+  if (payload?.stop_reason === 'max_tokens') {
+    throw new Error('Anthropic stopped before the JSON response was complete.');
+  }
+
+  const text = Array.isArray(payload?.content)
+    ? payload.content
+        .map((block: { type?: string; text?: string }) => (block.type === 'text' ? block.text || '' : ''))
+        .join('')
+        .trim()
+    : '';
+
+  if (!text) {
+    throw new Error('Anthropic returned an empty response.');
+  }
+
+  return {
+    result: JSON.parse(extractJsonText(text)) as T,
+    outputTokens: readTokenCount(payload?.usage?.output_tokens),
+  };
+};
+
+const requestProviderJson = <T>(
+  provider: BrandAiProvider,
+  prompt: string,
+  apiKey: string,
+  model: string
+): Promise<ProviderJsonResponse<T>> => {
+  switch (provider) {
+    case 'openai':
+      return requestOpenAiJson<T>(prompt, apiKey, model);
+    case 'anthropic':
+      return requestAnthropicJson<T>(prompt, apiKey, model);
+    case 'local':
+      return requestLocalJson<T>(prompt, apiKey, model);
+    default:
+      return requestGeminiJson<T>(prompt, apiKey, model);
+  }
 };
 
 const resolveFinalErrorCode = (attempts: BrandAiAttemptFailure[]): BrandAiErrorCode => {
@@ -270,42 +476,58 @@ const resolveFinalErrorCode = (attempts: BrandAiAttemptFailure[]): BrandAiErrorC
 };
 
 const requestBrandAiJson = async <T>(
-  prompt: string
-): Promise<{ result: T; sourceModel: string; attempts: BrandAiAttemptFailure[] }> => {
+  prompt: string,
+  emit: EmitGenerationEvent = ignoreGenerationEvent
+): Promise<{
+  result: T;
+  provider: BrandAiProvider;
+  sourceModel: string;
+  attempts: BrandAiAttemptFailure[];
+}> => {
   const attempts: BrandAiAttemptFailure[] = [];
 
   for (const provider of getProviderChain()) {
     const apiKey = getProviderApiKey(provider);
     const model = getProviderModel(provider);
 
-    if (!apiKey) {
-      attempts.push({
+    if (apiKey === null) {
+      const failure: BrandAiAttemptFailure = {
         provider,
         code: 'key-not-found',
         message: `${provider} is not configured for this function.`,
-      });
+      };
+      attempts.push(failure);
+      emit({ type: 'attempt-failed', ...failure });
       continue;
     }
 
-    try {
-      const result =
-        provider === 'openai'
-          ? await requestOpenAiJson<T>(prompt, apiKey, model)
-          : await requestGeminiJson<T>(prompt, apiKey, model);
+    emit({ type: 'attempt-started', provider, model });
 
-      return {
-        result,
-        sourceModel: `${provider}:${model}`,
-        attempts,
-      };
+    // Only the provider call is guarded, so a failure while reporting progress is never
+    // mistaken for a provider failure that moves on to the next paid provider.
+    let response: ProviderJsonResponse<T>;
+    try {
+      response = await requestProviderJson<T>(provider, prompt, apiKey, model);
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Unknown provider error.';
-      attempts.push({
+      const failure: BrandAiAttemptFailure = {
         provider,
         code: inferBrandAiErrorCode(message),
         message,
-      });
+      };
+      attempts.push(failure);
+      emit({ type: 'attempt-failed', ...failure });
+      continue;
     }
+
+    emit({ type: 'response-received', provider, outputTokens: response.outputTokens });
+
+    return {
+      result: response.result,
+      provider,
+      sourceModel: `${provider}:${model}`,
+      attempts,
+    };
   }
 
   throw {
@@ -315,6 +537,82 @@ const requestBrandAiJson = async <T>(
   };
 };
 
+// Validates model output against the BrandKit schema and sends repair prompts until it passes.
+// Palette colors are canonicalized against the founder's answers first, so only colors nothing
+// could recover are sent back. Issues in `requiredFields` that survive every repair fail the
+// request; anything else is left for normalizeBrandKit to default and recorded in the quality report.
+const requestValidatedBrandKitJson = async (
+  prompt: string,
+  options: {
+    fields: BrandKitFieldId[];
+    requiredFields: BrandKitFieldId[];
+    formData: Awaited<ReturnType<typeof loadProjectAnswers>>;
+    emit?: EmitGenerationEvent;
+  }
+) => {
+  const emit = options.emit || ignoreGenerationEvent;
+  let generated = await requestBrandAiJson<Record<string, unknown>>(prompt, emit);
+  let palette = repairGeneratedPalette(generated.result, options.formData, options.fields);
+  let issues = validateBrandKit(palette.result, options.fields);
+  let repairAttempts = 0;
+
+  while (issues.length > 0 && repairAttempts < getMaxRepairAttempts()) {
+    repairAttempts += 1;
+    emit({ type: 'repair-started', attempt: repairAttempts, issueCount: issues.length });
+
+    try {
+      generated = await requestBrandAiJson<Record<string, unknown>>(
+        buildBrandKitRepairPrompt(prompt, palette.result, issues),
+        emit
+      );
+      palette = repairGeneratedPalette(generated.result, options.formData, options.fields);
+      issues = validateBrandKit(palette.result, options.fields);
+    } catch (error) {
+      console.error('Brand kit repair request failed:', error);
+      break;
+    }
+  }
+
+  // A hex code nothing could recover is already recorded as an unresolved correction and left
+  // out of tokens and swatches, so it does not fail the whole kit
+  const blockingIssues = issues.filter((issue) => {
+    const field = getIssueField(issue);
+    return !field || (options.requiredFields.includes(field) && !issue.path.endsWith('.hex'));
+  });
+
+  if (blockingIssues.length > 0) {
+    const message = `The model response still failed validation after ${repairAttempts} repair attempt(s): ${blockingIssues
+      .slice(0, 6)
+      .map((issue) => `${issue.path} ${issue.message}`)
+      .join('; ')}.`;
+
+    throw {
+      code: 'generation-failed',
+      attempts: [
+        ...generated.attempts,
+        {
+          provider: generated.provider,
+          code: 'generation-failed',
+          message,
+        },
+      ],
+      message,
+    };
+  }
+
+  const qualityReport = buildBrandKitQualityReport(issues, repairAttempts);
+  options.fields
+    .filter((field) => !qualityReport.defaultedSections.includes(field))
+    .forEach((field) => emit({ type: 'section-parsed', field }));
+
+  return {
+    result: palette.result,
+    sourceModel: generated.sourceModel,
+    qualityReport,
+    colorCorrections: palette.corrections,
+  };
+};
+
 const mapResult = (record: BrandResultRow) => ({
   id: record.id,
   projectId: record.project_id,
@@ -322,6 +620,7 @@ const mapResult = (record: BrandResultRow) => ({
   logoImageUrl: record.generated_logo_url,
   logoGeneratedAt: record.generated_logo_at,
   sourceModel: record.source_model,
+  metadata: record.metadata || {},
   createdAt: record.created_at,
   updatedAt: record.updated_at,
 });
@@ -372,6 +671,344 @@ const loadCurrentResult = async (
   return data as BrandResultRow;
 };
 
+type GenerationRequestBody = {
+  action?: 'generate-kit' | 'regenerate-section';
+  projectId?: string;
+  resultId?: string;
+  sectionId?: RegenerableKitSectionId;
+  instruction?: string;
+  variantCount?: number;
+  stream?: boolean;
+};
+
+const MAX_INSTRUCTION_LENGTH = 500;
+const MAX_VARIANT_COUNT = 4;
+
+const normalizeInstruction = (value: unknown) =>
+  typeof value === 'string' ? value.trim().slice(0, MAX_INSTRUCTION_LENGTH) : '';
+
+const normalizeVariantCount = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? Math.min(Math.max(Math.floor(value), 1), MAX_VARIANT_COUNT)
+    : 1;
+
+const loadLatestResult = async (
+  client: ReturnType<typeof createUserScopedClient>,
+  projectId: string
+) => {
+  const { data, error } = await client
+    .from('brand_results')
+    .select('*')
+    .eq('project_id', projectId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+
+  return (data as BrandResultRow | null) || null;
+};
+
+// A generation request resolved into a prompt plus the row fields each candidate kit should carry.
+interface GenerationPlan {
+  prompt: string;
+  formData: Awaited<ReturnType<typeof loadProjectAnswers>>;
+  fields: BrandKitFieldId[];
+  requiredFields: BrandKitFieldId[];
+  toCandidate: (generated: Awaited<ReturnType<typeof requestValidatedBrandKitJson>>) => GeneratedCandidate;
+}
+
+interface GeneratedCandidate {
+  resultJson: ReturnType<typeof normalizeBrandKit>;
+  sourceModel: string;
+  metadata: Record<string, unknown>;
+  generatedLogoUrl: string | null;
+  generatedLogoAt: string | null;
+}
+
+const getCorrectionMetadata = (corrections: ReturnType<typeof repairGeneratedPalette>['corrections']) =>
+  corrections.length > 0 ? { colorCorrections: corrections } : {};
+
+// Derives the type scale and spacing system from the answers whenever a new font pairing comes back
+const attachTypographySystem = (
+  result: Record<string, unknown>,
+  formData: Awaited<ReturnType<typeof loadProjectAnswers>>,
+  fields: BrandKitFieldId[]
+) => {
+  const fontPairing = result.fontPairing;
+  if (!fields.includes('fontPairing') || !fontPairing || typeof fontPairing !== 'object') {
+    return result;
+  }
+
+  return { ...result, fontPairing: { ...fontPairing, system: buildTypographySystem(formData) } };
+};
+
+const planGeneration = async (
+  client: ReturnType<typeof createUserScopedClient>,
+  body: Required<Pick<GenerationRequestBody, 'action' | 'projectId'>> & GenerationRequestBody,
+  formData: Awaited<ReturnType<typeof loadProjectAnswers>>,
+  kitLocks: Record<string, boolean> | null
+): Promise<GenerationPlan> => {
+  if (body.action === 'generate-kit') {
+    const lockedSectionIds = getLockedSectionIds(kitLocks);
+    const previousResult =
+      lockedSectionIds.length > 0 ? await loadLatestResult(client, body.projectId) : null;
+    const carriedSectionIds = previousResult ? lockedSectionIds : [];
+    const lockedKit = previousResult
+      ? pickLockedBrandKitFields(previousResult.result_json, carriedSectionIds)
+      : {};
+    const lockedFields = Object.keys(lockedKit) as BrandKitFieldId[];
+    const keepsLogo = Boolean(previousResult && carriedSectionIds.includes('logoPrompt'));
+
+    const fields = ALL_BRAND_KIT_FIELDS.filter((field) => !lockedFields.includes(field));
+
+    return {
+      prompt: buildFullBrandKitPrompt(formData, lockedKit),
+      formData,
+      fields,
+      requiredFields: CORE_BRAND_KIT_FIELDS.filter((field) => !lockedFields.includes(field)),
+      toCandidate: (generated) => {
+        return {
+          resultJson: {
+            ...normalizeBrandKit(attachTypographySystem(generated.result, formData, fields)),
+            ...lockedKit,
+          },
+          sourceModel: generated.sourceModel,
+          metadata: {
+            qualityReport: generated.qualityReport,
+            ...getCorrectionMetadata(generated.colorCorrections),
+            ...(previousResult && carriedSectionIds.length > 0
+              ? {
+                  carriedOver: {
+                    fromResultId: previousResult.id,
+                    sections: carriedSectionIds,
+                  },
+                }
+              : {}),
+          },
+          generatedLogoUrl: keepsLogo ? previousResult?.generated_logo_url || null : null,
+          generatedLogoAt: keepsLogo ? previousResult?.generated_logo_at || null : null,
+        };
+      },
+    };
+  }
+
+  const sectionId = body.sectionId as RegenerableKitSectionId;
+  const currentResult = await loadCurrentResult(client, body.resultId as string, body.projectId);
+  const currentKit = normalizeBrandKit(currentResult.result_json);
+  const sectionFields = getSectionRegenerationFields(sectionId);
+  const instruction = normalizeInstruction(body.instruction);
+  // The saved image was drawn from logoPrompt, so it only goes stale when that field is rewritten
+  const shouldResetLogo = sectionFields.includes('logoPrompt');
+
+  return {
+    prompt: buildSectionRegenerationPrompt(sectionId, formData, currentKit, instruction),
+    formData,
+    fields: sectionFields,
+    requiredFields: sectionFields,
+    toCandidate: (generated) => {
+      return {
+        resultJson: mergeRegeneratedBrandKitSection(
+          sectionId,
+          currentKit,
+          attachTypographySystem(generated.result, formData, sectionFields)
+        ),
+        sourceModel: generated.sourceModel,
+        metadata: {
+          qualityReport: generated.qualityReport,
+          ...getCorrectionMetadata(generated.colorCorrections),
+          sectionRegeneration: {
+            sectionId,
+            ...(instruction ? { instruction } : {}),
+          },
+        },
+        generatedLogoUrl: shouldResetLogo ? null : currentResult.generated_logo_url,
+        generatedLogoAt: shouldResetLogo ? null : currentResult.generated_logo_at,
+      };
+    },
+  };
+};
+
+const generateCandidate = async (plan: GenerationPlan, emit: EmitGenerationEvent) =>
+  plan.toCandidate(
+    await requestValidatedBrandKitJson(plan.prompt, {
+      fields: plan.fields,
+      requiredFields: plan.requiredFields,
+      formData: plan.formData,
+      emit,
+    })
+  );
+
+const runGenerationAction = async (
+  client: ReturnType<typeof createUserScopedClient>,
+  body: Required<Pick<GenerationRequestBody, 'action' | 'projectId'>> & GenerationRequestBody,
+  kitLocks: Record<string, boolean> | null,
+  emit: EmitGenerationEvent
+) => {
+  const formData = await loadProjectAnswers(client, body.projectId);
+  const projectBrandName = getProjectBrandName(formData);
+  const variantCount = normalizeVariantCount(body.variantCount);
+
+  // Variants are returned for review only; the chosen kit is saved by the client afterwards.
+  if (variantCount > 1) {
+    const plan = await planGeneration(client, body, formData, kitLocks);
+
+    // Takes run side by side so several full kits fit in one invocation's wall-clock limit. A
+    // take that fails is dropped as long as at least one other succeeds.
+    const outcomes = await Promise.allSettled(
+      Array.from({ length: variantCount }, (_, index) => {
+        emit({ type: 'variant-started', index, total: variantCount });
+        return generateCandidate(plan, emit);
+      })
+    );
+    const candidates = outcomes.flatMap((outcome, index) => {
+      if (outcome.status === 'fulfilled') return [outcome.value];
+
+      console.error(`Brand kit variant ${index + 1} of ${variantCount} failed:`, outcome.reason);
+      return [];
+    });
+
+    if (candidates.length === 0) {
+      throw (outcomes[0] as PromiseRejectedResult).reason;
+    }
+
+    // Indexes are renumbered over the takes that succeeded, which is how the picker addresses them
+    const variants = candidates.map((candidate, index) => ({
+      index,
+      result: candidate.resultJson,
+      sourceModel: candidate.sourceModel,
+      metadata: candidate.metadata,
+      logoImageUrl: candidate.generatedLogoUrl,
+      logoGeneratedAt: candidate.generatedLogoAt,
+    }));
+
+    return {
+      baseResultId: body.resultId || null,
+      sectionId: body.action === 'regenerate-section' ? body.sectionId || null : null,
+      variants,
+    };
+  }
+
+  await client
+    .from('projects')
+    .update({
+      status: 'generating',
+      brand_name: projectBrandName,
+    })
+    .eq('id', body.projectId);
+
+  const plan = await planGeneration(client, body, formData, kitLocks);
+  const candidate = await generateCandidate(plan, emit);
+
+  const { data, error: saveError } = await client
+    .from('brand_results')
+    .insert({
+      project_id: body.projectId,
+      result_json: candidate.resultJson,
+      source_model: candidate.sourceModel,
+      metadata: candidate.metadata,
+      generated_logo_url: candidate.generatedLogoUrl,
+      generated_logo_at: candidate.generatedLogoAt,
+    })
+    .select('*')
+    .single();
+
+  if (saveError) throw saveError;
+  const savedResult = data as BrandResultRow;
+
+  emit({ type: 'row-persisted', resultId: savedResult.id });
+
+  await client
+    .from('projects')
+    .update({
+      status: 'generated',
+      brand_name: projectBrandName,
+    })
+    .eq('id', body.projectId);
+
+  return mapResult(savedResult);
+};
+
+const resetProjectStatus = async (
+  client: ReturnType<typeof createUserScopedClient>,
+  body: Parameters<typeof runGenerationAction>[1]
+) => {
+  // Variant requests never mark the project as generating, so there is nothing to undo.
+  if (normalizeVariantCount(body.variantCount) > 1) return;
+
+  await client
+    .from('projects')
+    .update({
+      status: 'draft',
+    })
+    .eq('id', body.projectId);
+};
+
+const toGenerationFailure = (error: unknown) => {
+  if (
+    error &&
+    typeof error === 'object' &&
+    'code' in error &&
+    'attempts' in error
+  ) {
+    return { status: 502, error };
+  }
+
+  const message = error instanceof Error ? error.message : 'Brand generation failed.';
+  return {
+    status: 500,
+    error: {
+      code: 'generation-failed',
+      attempts: [],
+      message,
+    },
+  };
+};
+
+// Streams GenerationEvents as server-sent events, ending with a `result` or `error` event. If the
+// client disconnects, generation still runs to completion and the result is saved; events are
+// dropped instead of failing the request.
+const streamGenerationAction = (
+  client: ReturnType<typeof createUserScopedClient>,
+  body: Parameters<typeof runGenerationAction>[1],
+  kitLocks: Record<string, boolean> | null
+) => {
+  const encoder = new TextEncoder();
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        if (closed) return;
+
+        try {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+        } catch {
+          closed = true;
+        }
+      };
+
+      try {
+        const result = await runGenerationAction(client, body, kitLocks, send);
+        send({ type: 'result', result });
+      } catch (error) {
+        await resetProjectStatus(client, body);
+        send({ type: 'error', error: toGenerationFailure(error).error });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+    },
+  });
+
+  return new Response(stream, { headers: sseHeaders });
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -386,12 +1023,7 @@ serve(async (req) => {
     return jsonResponse({ error: { message: 'Missing authorization header.' } }, 401);
   }
 
-  let body: {
-    action?: 'generate-kit' | 'regenerate-section';
-    projectId?: string;
-    resultId?: string;
-    sectionId?: RegenerableKitSectionId;
-  };
+  let body: GenerationRequestBody;
 
   try {
     body = await req.json();
@@ -399,10 +1031,19 @@ serve(async (req) => {
     return jsonResponse({ error: { message: 'Invalid JSON body.' } }, 400);
   }
 
-  if (!body.projectId || !body.action) {
+  const { projectId, action } = body;
+
+  if (!projectId || !action) {
     return jsonResponse({ error: { message: 'projectId and action are required.' } }, 400);
   }
 
+  if (action === 'regenerate-section' && (!body.resultId || !body.sectionId)) {
+    return jsonResponse(
+      { error: { message: 'resultId and sectionId are required for section regeneration.' } },
+      400
+    );
+  }
+
   const client = createUserScopedClient(authHeader);
 
   const {
@@ -416,128 +1057,27 @@ serve(async (req) => {
 
   const { data: project, error: projectError } = await client
     .from('projects')
-    .select('id, brand_name, status')
-    .eq('id', body.projectId)
+    .select('id, brand_name, status, kit_locks')
+    .eq('id', projectId)
     .single();
 
   if (projectError || !project) {
     return jsonResponse({ error: { message: 'Project not found.' } }, 404);
   }
 
-  try {
-    const formData = await loadProjectAnswers(client, body.projectId);
-    const projectBrandName = getProjectBrandName(formData);
-
-    await client
-      .from('projects')
-      .update({
-        status: 'generating',
-        brand_name: projectBrandName,
-      })
-      .eq('id', body.projectId);
-
-    if (body.action === 'generate-kit') {
-      const generated = await requestBrandAiJson<Record<string, unknown>>(
-        buildFullBrandKitPrompt(formData)
-      );
-      const normalized = normalizeBrandKit(generated.result);
-
-      const { data: savedResult, error: saveError } = await client
-        .from('brand_results')
-        .insert({
-          project_id: body.projectId,
-          result_json: normalized,
-          source_model: generated.sourceModel,
-        })
-        .select('*')
-        .single();
-
-      if (saveError) throw saveError;
-
-      await client
-        .from('projects')
-        .update({
-          status: 'generated',
-          brand_name: projectBrandName,
-        })
-        .eq('id', body.projectId);
-
-      return jsonResponse({ result: mapResult(savedResult as BrandResultRow) });
-    }
-
-    if (!body.resultId || !body.sectionId) {
-      return jsonResponse(
-        { error: { message: 'resultId and sectionId are required for section regeneration.' } },
-        400
-      );
-    }
-
-    const currentResult = await loadCurrentResult(client, body.resultId, body.projectId);
-    const regenerated = await requestBrandAiJson<Record<string, unknown>>(
-      buildSectionRegenerationPrompt(
-        body.sectionId,
-        formData,
-        normalizeBrandKit(currentResult.result_json)
-      )
-    );
-
-    const nextKit = mergeRegeneratedBrandKitSection(
-      body.sectionId,
-      normalizeBrandKit(currentResult.result_json),
-      regenerated.result
-    );
-
-    const shouldResetLogo = body.sectionId === 'logoDirection';
-    const { data: savedResult, error: saveError } = await client
-      .from('brand_results')
-      .insert({
-        project_id: body.projectId,
-        result_json: nextKit,
-        source_model: regenerated.sourceModel,
-        generated_logo_url: shouldResetLogo ? null : currentResult.generated_logo_url,
-        generated_logo_at: shouldResetLogo ? null : currentResult.generated_logo_at,
-      })
-      .select('*')
-      .single();
-
-    if (saveError) throw saveError;
+  const actionBody = { ...body, projectId, action };
+  const kitLocks = (project.kit_locks as Record<string, boolean> | null) || null;
 
-    await client
-      .from('projects')
-      .update({
-        status: 'generated',
-        brand_name: projectBrandName,
-      })
-      .eq('id', body.projectId);
+  if (body.stream) {
+    return streamGenerationAction(client, actionBody, kitLocks);
+  }
 
-    return jsonResponse({ result: mapResult(savedResult as BrandResultRow) });
+  try {
+    const result = await runGenerationAction(client, actionBody, kitLocks, ignoreGenerationEvent);
+    return jsonResponse({ result });
   } catch (error) {
-    await client
-      .from('projects')
-      .update({
-        status: 'draft',
-      })
-      .eq('id', body.projectId);
-
-    if (
-      error &&
-      typeof error === 'object' &&
-      'code' in error &&
-      'attempts' in error
-    ) {
-      return jsonResponse({ error }, 502);
-    }
-
-    const message = error instanceof Error ? error.message : 'Brand generation failed.';
-    return jsonResponse(
-      {
-        error: {
-          code: 'generation-failed',
-          attempts: [],
-          message,
-        },
-      },
-      500
-    );
+    await resetProjectStatus(client, actionBody);
+    const failure = toGenerationFailure(error);
+    return jsonResponse({ error: failure.error }, failure.status);
   }
 });
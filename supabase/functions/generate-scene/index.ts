@@ -0,0 +1,284 @@
+import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.89.0';
+
+/**
+ * Generates one Photo Studio scene with a keyed image provider. The Gemini and Replicate keys
+ * live in function secrets so they never reach the browser bundle; the client walks the provider
+ * chain and calls this once per scene and provider.
+ */
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type HostedSceneProvider = 'gemini' | 'replicate';
+
+type SceneErrorCode =
+  | 'scene/not-authenticated'
+  | 'scene/invalid-request'
+  | 'scene/invalid-image'
+  | 'scene/provider-not-configured'
+  | 'scene/generation-failed';
+
+interface SceneError {
+  code: SceneErrorCode;
+  status: number;
+  message: string;
+}
+
+const DEFAULT_GEMINI_IMAGE_MODEL = 'gemini-2.5-flash-image';
+const REPLICATE_API_URL = 'https://api.replicate.com/v1/predictions';
+const REPLICATE_SDXL_VERSION = '7762fd07cf82c948538e41f63f77d685e02b063e37e496e96eefd46c929f9bdc';
+const REPLICATE_PROMPT_STRENGTH = 0.65;
+const REPLICATE_POLL_LIMIT = 60;
+
+// The product photo plus the additional angles the scraper returns
+const MAX_IMAGES = 6;
+const MAX_PROMPT_LENGTH = 8_000;
+const MAX_IMAGE_PAYLOAD_LENGTH = 20 * 1024 * 1024;
+
+const DATA_URL_PATTERN = /^data:(image\/[a-z0-9.+-]+);base64,([A-Za-z0-9+/=]+)$/;
+const BASE64_PATTERN = /^[A-Za-z0-9+/=]+$/;
+
+const sceneError = (code: SceneErrorCode, status: number, message: string): SceneError => ({
+  code,
+  status,
+  message,
+});
+
+const isSceneError = (error: unknown): error is SceneError =>
+  Boolean(error && typeof error === 'object' && 'code' in error && 'status' in error);
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const errorResponse = (error: SceneError) =>
+  jsonResponse({ error: { code: error.code, message: error.message } }, error.status);
+
+const createUserScopedClient = (authHeader: string) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase function environment is missing base configuration.');
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: {
+        Authorization: authHeader,
+      },
+    },
+  });
+};
+
+const toInlineImage = (value: string) => {
+  const match = value.match(DATA_URL_PATTERN);
+  if (match) return { mimeType: match[1], data: match[2] };
+  if (BASE64_PATTERN.test(value)) return { mimeType: 'image/png', data: value };
+
+  throw sceneError('scene/invalid-image', 400, 'Product images must be base64 or image data URLs.');
+};
+
+const readRequest = (body: Record<string, unknown>) => {
+  const { provider, prompt, negativePrompt, images } = body;
+
+  if (provider !== 'gemini' && provider !== 'replicate') {
+    throw sceneError('scene/invalid-request', 400, 'provider must be gemini or replicate.');
+  }
+
+  if (typeof prompt !== 'string' || !prompt.trim() || prompt.length > MAX_PROMPT_LENGTH) {
+    throw sceneError('scene/invalid-request', 400, 'A scene prompt is required.');
+  }
+
+  if (
+    !Array.isArray(images) ||
+    images.length === 0 ||
+    images.length > MAX_IMAGES ||
+    !images.every((image): image is string => typeof image === 'string')
+  ) {
+    throw sceneError('scene/invalid-image', 400, `Send between 1 and ${MAX_IMAGES} product images.`);
+  }
+
+  if (images.reduce((total, image) => total + image.length, 0) > MAX_IMAGE_PAYLOAD_LENGTH) {
+    throw sceneError('scene/invalid-image', 413, 'Product images are too large.');
+  }
+
+  return {
+    provider: provider as HostedSceneProvider,
+    prompt,
+    negativePrompt: typeof negativePrompt === 'string' ? negativePrompt : '',
+    images: images.map(toInlineImage),
+  };
+};
+
+const requireSecret = (name: string, provider: HostedSceneProvider) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    throw sceneError('scene/provider-not-configured', 503, `${provider} is not configured for this function.`);
+  }
+  return value;
+};
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let index = 0; index < bytes.length; index += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const generateWithGemini = async (request: ReturnType<typeof readRequest>) => {
+  const apiKey = requireSecret('GEMINI_API_KEY', 'gemini');
+  const model = Deno.env.get('GEMINI_IMAGE_MODEL') || DEFAULT_GEMINI_IMAGE_MODEL;
+
+  const response = await fetch(
+    `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              { text: `${request.prompt}\n\nAvoid: ${request.negativePrompt}.` },
+              ...request.images.map((image) => ({ inlineData: image })),
+            ],
+          },
+        ],
+        generationConfig: {
+          responseModalities: ['IMAGE', 'TEXT'],
+        },
+      }),
+    }
+  );
+
+  const payload = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(payload?.error?.message || response.statusText || 'Gemini request failed.');
+  }
+
+  const imagePart = payload?.candidates?.[0]?.content?.parts?.find(
+    (part: { inlineData?: { data?: string } }) => part.inlineData?.data
+  );
+
+  if (!imagePart?.inlineData?.data) {
+    throw new Error('Gemini returned no image for this scene.');
+  }
+
+  return imagePart.inlineData.data as string;
+};
+
+const generateWithReplicate = async (request: ReturnType<typeof readRequest>) => {
+  const apiKey = requireSecret('REPLICATE_API_KEY', 'replicate');
+  const [product] = request.images;
+
+  const response = await fetch(REPLICATE_API_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Token ${apiKey}`,
+    },
+    body: JSON.stringify({
+      version: REPLICATE_SDXL_VERSION,
+      input: {
+        prompt: request.prompt,
+        negative_prompt: request.negativePrompt,
+        image: `data:${product.mimeType};base64,${product.data}`,
+        prompt_strength: REPLICATE_PROMPT_STRENGTH,
+        num_outputs: 1,
+      },
+    }),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Replicate API error: ${response.status} ${response.statusText}`);
+  }
+
+  let prediction = await response.json();
+  let polls = 0;
+
+  while (prediction.status === 'starting' || prediction.status === 'processing') {
+    if (polls >= REPLICATE_POLL_LIMIT) {
+      throw new Error('Replicate prediction timed out.');
+    }
+
+    polls += 1;
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+    const statusResponse = await fetch(`${REPLICATE_API_URL}/${prediction.id}`, {
+      headers: {
+        Authorization: `Token ${apiKey}`,
+      },
+    });
+    prediction = await statusResponse.json();
+  }
+
+  if (prediction.status !== 'succeeded' || !prediction.output?.[0]) {
+    throw new Error(prediction.error || 'Replicate prediction failed.');
+  }
+
+  const imageResponse = await fetch(prediction.output[0]);
+  if (!imageResponse.ok) {
+    throw new Error(`Image download failed: ${imageResponse.status} ${imageResponse.statusText}`);
+  }
+
+  return bytesToBase64(new Uint8Array(await imageResponse.arrayBuffer()));
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return errorResponse(sceneError('scene/invalid-request', 405, 'Method not allowed.'));
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return errorResponse(sceneError('scene/not-authenticated', 401, 'Missing authorization header.'));
+  }
+
+  try {
+    const client = createUserScopedClient(authHeader);
+
+    const {
+      data: { user },
+      error: userError,
+    } = await client.auth.getUser();
+
+    if (userError || !user) {
+      return errorResponse(sceneError('scene/not-authenticated', 401, 'Not authenticated.'));
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return errorResponse(sceneError('scene/invalid-request', 400, 'Invalid JSON body.'));
+    }
+
+    const request = readRequest(body && typeof body === 'object' ? (body as Record<string, unknown>) : {});
+    const imageBase64 =
+      request.provider === 'gemini' ? await generateWithGemini(request) : await generateWithReplicate(request);
+
+    return jsonResponse({ imageBase64 });
+  } catch (error) {
+    console.error('Scene generation error:', error);
+
+    if (isSceneError(error)) {
+      return errorResponse(error);
+    }
+
+    const message = error instanceof Error ? error.message : 'Scene generation failed.';
+    return errorResponse(sceneError('scene/generation-failed', 502, message));
+  }
+});
@@ -1,163 +1,476 @@
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { createClient } from 'npm:@supabase/supabase-js@2.89.0';
+import { extractProduct, getShopifyProductJsonUrl } from '../../../lib/productExtraction.ts';
+import {
+  assessPublicUrl,
+  assessRedirectTarget,
+  isBlockedAddress,
+  isIPv4,
+  isSameAddressSet,
+} from '../../../lib/urlSafety.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
+const USER_AGENT = 'Mozilla/5.0 (compatible; BrandMosaic/1.0)';
+
+// The first image becomes the product reference; the rest are sent as additional angles.
+const MAX_DOWNLOADED_IMAGES = 5;
+const MAX_REDIRECTS = 5;
+const FETCH_TIMEOUT_MS = 10_000;
+// Covers every hop, page, and image of one import, not just a single request
+const REQUEST_DEADLINE_MS = 25_000;
+
+const MAX_HTML_BYTES = 2 * 1024 * 1024;
+const MAX_JSON_BYTES = 1024 * 1024;
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Everything one import downloads, so several large images cannot add up to an oversized response
+const MAX_TOTAL_BYTES = 16 * 1024 * 1024;
+
+const DEFAULT_RATE_LIMIT = 10;
+const DEFAULT_RATE_WINDOW_SECONDS = 300;
+
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+const JSON_CONTENT_TYPES = ['application/json'];
+// SVG is left out on purpose: it can carry script and is not a usable product photo.
+const IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+type ScrapeErrorCode =
+  | 'scene/not-authenticated'
+  | 'scene/rate-limited'
+  | 'scene/invalid-url'
+  | 'scene/blocked-url'
+  | 'scene/unsupported-content'
+  | 'scene/page-too-large'
+  | 'scene/image-too-large'
+  | 'scene/fetch-timeout'
+  | 'scene/no-product-image'
+  | 'scene/scrape-failed';
+
+interface ScrapeError {
+  code: ScrapeErrorCode;
+  status: number;
+  message: string;
+}
+
+const scrapeError = (code: ScrapeErrorCode, status: number, message: string): ScrapeError => ({
+  code,
+  status,
+  message,
+});
+
+const isScrapeError = (error: unknown): error is ScrapeError =>
+  Boolean(error && typeof error === 'object' && 'code' in error && 'status' in error);
+
+interface SafeFetchOptions {
+  accept: string;
+  allowedTypes: string[];
+  maxBytes: number;
+  tooLargeCode: ScrapeErrorCode;
+}
+
+// Shared by every fetch made for one import
+interface ScrapeBudget {
+  deadline: AbortSignal;
+  remainingBytes: number;
+}
+
+interface SafeFetchResult {
+  url: string;
+  contentType: string;
+  bytes: Uint8Array;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const errorResponse = (error: ScrapeError) =>
+  jsonResponse({ error: { code: error.code, message: error.message } }, error.status);
+
+const readPositiveInt = (name: string, fallback: number) => {
+  const value = Number.parseInt(Deno.env.get(name) || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// The rate limit RPC is only executable by the service role, so callers cannot pick their own limit
+const createServiceClient = () => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+  if (!supabaseUrl || !supabaseServiceKey) {
+    throw new Error('Supabase function environment is missing service configuration.');
+  }
+
+  return createClient(supabaseUrl, supabaseServiceKey);
+};
+
+const createUserScopedClient = (authHeader: string) => {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const supabaseAnonKey = Deno.env.get('SUPABASE_ANON_KEY');
+
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error('Supabase function environment is missing base configuration.');
+  }
+
+  return createClient(supabaseUrl, supabaseAnonKey, {
+    global: {
+      headers: {
+        Authorization: authHeader,
+      },
+    },
+  });
+};
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
   }
 
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: { code: 'scene/scrape-failed', message: 'Method not allowed.' } }, 405);
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return errorResponse(scrapeError('scene/not-authenticated', 401, 'Missing authorization header.'));
+  }
+
   try {
-    const { url } = await req.json();
+    const client = createUserScopedClient(authHeader);
 
-    if (!url || typeof url !== 'string') {
-      return new Response(
-        JSON.stringify({ error: 'URL is required' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+    const {
+      data: { user },
+      error: userError,
+    } = await client.auth.getUser();
+
+    if (userError || !user) {
+      return errorResponse(scrapeError('scene/not-authenticated', 401, 'Not authenticated.'));
     }
 
-    // Validate URL
+    let url: unknown;
     try {
-      new URL(url);
+      ({ url } = await req.json());
     } catch {
-      return new Response(
-        JSON.stringify({ error: 'Invalid URL format' }),
-        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-      );
+      return errorResponse(scrapeError('scene/invalid-url', 400, 'Invalid JSON body.'));
     }
 
-    // Fetch the page
-    const pageResponse = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; BrandMosaic/1.0)',
-        'Accept': 'text/html,application/xhtml+xml',
-      },
-      redirect: 'follow',
+    if (!url || typeof url !== 'string') {
+      return errorResponse(scrapeError('scene/invalid-url', 400, 'URL is required'));
+    }
+
+    const assessment = assessPublicUrl(url);
+    if (!assessment.ok) {
+      return errorResponse(scrapeError(`scene/${assessment.issue}`, 400, assessment.reason));
+    }
+
+    const { data: allowed, error: rateError } = await createServiceClient().rpc('claim_scrape_request', {
+      p_user_id: user.id,
+      p_limit: readPositiveInt('SCRAPE_RATE_LIMIT', DEFAULT_RATE_LIMIT),
+      p_window_seconds: readPositiveInt('SCRAPE_RATE_WINDOW_SECONDS', DEFAULT_RATE_WINDOW_SECONDS),
     });
 
-    if (!pageResponse.ok) {
-      throw new Error(`Failed to fetch page: ${pageResponse.status}`);
-    }
-
-    const html = await pageResponse.text();
-
-    // Extract metadata
-    const ogImage = extractMeta(html, 'og:image')
-      || extractMeta(html, 'twitter:image')
-      || extractMeta(html, 'twitter:image:src');
-    const ogTitle = extractMeta(html, 'og:title')
-      || extractMeta(html, 'twitter:title')
-      || extractTitle(html);
-    const ogDescription = extractMeta(html, 'og:description')
-      || extractMeta(html, 'description');
-    const ogPrice = extractMeta(html, 'product:price:amount')
-      || extractMeta(html, 'og:price:amount');
-    const ogBrand = extractMeta(html, 'product:brand')
-      || extractMeta(html, 'og:brand');
-
-    // Resolve relative URLs
-    let imageUrl = ogImage;
-    if (imageUrl && !imageUrl.startsWith('http')) {
-      imageUrl = new URL(imageUrl, url).toString();
-    }
-
-    // Fallback: JSON-LD structured data
-    if (!imageUrl) {
-      imageUrl = extractJsonLdImage(html);
-    }
-
-    // Fetch image and convert to base64
-    let imageBase64: string | null = null;
-    if (imageUrl) {
-      try {
-        const imgResponse = await fetch(imageUrl, {
-          headers: { 'User-Agent': 'Mozilla/5.0 (compatible; BrandMosaic/1.0)' },
-        });
-        if (imgResponse.ok) {
-          const arrayBuffer = await imgResponse.arrayBuffer();
-          const bytes = new Uint8Array(arrayBuffer);
-          // Convert to base64 in chunks to avoid stack overflow
-          let binary = '';
-          const chunkSize = 8192;
-          for (let i = 0; i < bytes.length; i += chunkSize) {
-            const chunk = bytes.subarray(i, i + chunkSize);
-            binary += String.fromCharCode(...chunk);
-          }
-          const base64 = btoa(binary);
-          const contentType = imgResponse.headers.get('content-type') || 'image/jpeg';
-          imageBase64 = `data:${contentType};base64,${base64}`;
-        }
-      } catch (imgError) {
-        console.error('Failed to fetch product image:', imgError);
-      }
+    if (rateError) throw rateError;
+    if (!allowed) {
+      return errorResponse(
+        scrapeError('scene/rate-limited', 429, 'Too many product imports. Wait a few minutes and try again.')
+      );
     }
 
-    return new Response(
-      JSON.stringify({
-        productName: ogTitle || '',
-        imageUrl: imageUrl || null,
-        imageBase64,
-        metadata: {
-          description: ogDescription || '',
-          price: ogPrice || '',
-          brand: ogBrand || '',
-          sourceUrl: url,
+    const budget: ScrapeBudget = {
+      deadline: AbortSignal.timeout(REQUEST_DEADLINE_MS),
+      remainingBytes: MAX_TOTAL_BYTES,
+    };
+
+    // Shopify stores expose the full product, variants and gallery included, as JSON
+    const shopifyPayload = await fetchShopifyProduct(url, budget);
+
+    let page: SafeFetchResult | null = null;
+    try {
+      page = await safeFetch(
+        url,
+        {
+          accept: 'text/html,application/xhtml+xml',
+          allowedTypes: HTML_CONTENT_TYPES,
+          maxBytes: MAX_HTML_BYTES,
+          tooLargeCode: 'scene/page-too-large',
         },
-      }),
-      { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        budget
+      );
+    } catch (error) {
+      if (!shopifyPayload) throw error;
+      console.error('Product page unavailable, using Shopify JSON only:', error);
+    }
+
+    const html = page ? new TextDecoder().decode(page.bytes) : '';
+    const product = extractProduct(html, page?.url || url, shopifyPayload);
+
+    if (product.imageUrls.length === 0) {
+      return errorResponse(scrapeError('scene/no-product-image', 422, 'No product image found on that page.'));
+    }
+
+    // Fetch images and convert to base64
+    const downloads = await Promise.allSettled(
+      product.imageUrls.slice(0, MAX_DOWNLOADED_IMAGES).map((imageUrl) => fetchImageAsDataUrl(imageUrl, budget))
     );
-  } catch (error: any) {
+    const images = downloads.flatMap((download) => (download.status === 'fulfilled' ? [download.value] : []));
+
+    if (images.length === 0) {
+      const failure = downloads.find((download) => download.status === 'rejected');
+      throw failure?.status === 'rejected' ? failure.reason : new Error('No product image could be downloaded.');
+    }
+
+    return jsonResponse({
+      productName: product.productName,
+      imageUrl: product.imageUrls[0] || null,
+      imageUrls: product.imageUrls,
+      imageBase64: images[0],
+      additionalImages: images.slice(1),
+      sources: product.sources,
+      metadata: {
+        description: product.description,
+        price: product.price,
+        currency: product.currency,
+        sku: product.sku,
+        brand: product.brand,
+        sourceUrl: url,
+      },
+    });
+  } catch (error) {
     console.error('Scrape error:', error);
-    return new Response(
-      JSON.stringify({ error: error.message || 'Failed to scrape product page' }),
-      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
-    );
+
+    if (isScrapeError(error)) {
+      return errorResponse(error);
+    }
+
+    const message = error instanceof Error ? error.message : 'Failed to scrape product page';
+    return errorResponse(scrapeError('scene/scrape-failed', 500, message));
   }
 });
 
 // ── Helpers ───────────────────────────────────────────
 
-function extractMeta(html: string, property: string): string | null {
-  const patterns = [
-    new RegExp(`<meta[^>]+property=["']${property}["'][^>]+content=["']([^"']+)["']`, 'i'),
-    new RegExp(`<meta[^>]+content=["']([^"']+)["'][^>]+property=["']${property}["']`, 'i'),
-    new RegExp(`<meta[^>]+name=["']${property}["'][^>]+content=["']([^"']+)["']`, 'i'),
-    new RegExp(`<meta[^>]+content=["']([^"']+)["'][^>]+name=["']${property}["']`, 'i'),
-  ];
+const baseContentType = (value: string | null) => (value || '').split(';')[0].trim().toLowerCase();
+
+const resolveHost = async (hostname: string) => {
+  const answers = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return answers.flatMap((answer) => (answer.status === 'fulfilled' ? answer.value : []));
+};
+
+/**
+ * Resolves the host and rejects it if any A/AAAA answer is non-public. The check runs again on
+ * every redirect hop, since a public page can redirect to an internal address. The answers are
+ * returned so the caller can confirm the host still resolves the same way after connecting.
+ */
+async function assertPublicDestination(value: string): Promise<{ url: URL; addresses: string[] }> {
+  const assessment = assessPublicUrl(value);
+  if (!assessment.ok) {
+    throw scrapeError(`scene/${assessment.issue}`, 400, assessment.reason);
+  }
+
+  const hostname = assessment.url.hostname;
+  if (isIPv4(hostname) || hostname.startsWith('[')) {
+    return { url: assessment.url, addresses: [] };
+  }
+
+  const addresses = await resolveHost(hostname);
+
+  if (addresses.length === 0) {
+    throw scrapeError('scene/invalid-url', 400, `Could not resolve ${hostname}`);
+  }
+
+  if (addresses.some(isBlockedAddress)) {
+    throw scrapeError('scene/blocked-url', 400, 'That host is not publicly reachable');
+  }
+
+  return { url: assessment.url, addresses };
+}
+
+/**
+ * fetch() resolves the host on its own and cannot be pinned to the checked address, so the host is
+ * resolved a second time once the response arrives. A host whose answers changed in between (DNS
+ * rebinding) is rejected before any of its body is read.
+ */
+async function assertStableDestination(url: URL, checkedAddresses: string[]) {
+  if (checkedAddresses.length === 0) return;
 
-  for (const pattern of patterns) {
-    const match = html.match(pattern);
-    if (match?.[1]) return match[1];
+  const addresses = await resolveHost(url.hostname);
+  if (!isSameAddressSet(checkedAddresses, addresses) || addresses.some(isBlockedAddress)) {
+    throw scrapeError('scene/blocked-url', 400, 'That host changed address while it was being fetched');
   }
-  return null;
 }
 
-function extractTitle(html: string): string | null {
-  const match = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-  return match?.[1]?.trim() || null;
+async function readBodyWithLimit(
+  response: Response,
+  options: SafeFetchOptions,
+  budget: ScrapeBudget
+): Promise<Uint8Array> {
+  const limit = Math.min(options.maxBytes, budget.remainingBytes);
+  const declaredLength = Number(response.headers.get('content-length') || 0);
+  if (declaredLength > limit) {
+    await response.body?.cancel();
+    throw scrapeError(options.tooLargeCode, 413, `Response exceeds ${limit} bytes`);
+  }
+
+  if (!response.body) return new Uint8Array();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    received += value.byteLength;
+    // Concurrent image downloads draw on the same budget, so it is charged as bytes arrive
+    budget.remainingBytes -= value.byteLength;
+    if (received > options.maxBytes || budget.remainingBytes < 0) {
+      await reader.cancel();
+      throw scrapeError(options.tooLargeCode, 413, `Response exceeds ${limit} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(received);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+
+  return bytes;
 }
 
-function extractJsonLdImage(html: string): string | null {
-  const jsonLdMatches = html.match(
-    /<script[^>]+type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
-  );
-  if (!jsonLdMatches) return null;
+const isAbort = (error: unknown) =>
+  error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError');
+
+/**
+ * Fetches a user-supplied URL with redirects followed by hand, so each hop is checked against the
+ * address blocklist. Enforces a content-type allowlist, a per-response byte cap, a per-hop timeout,
+ * and the import's overall deadline and byte budget.
+ */
+async function safeFetch(
+  initialUrl: string,
+  options: SafeFetchOptions,
+  budget: ScrapeBudget
+): Promise<SafeFetchResult> {
+  let currentUrl = initialUrl;
 
-  for (const match of jsonLdMatches) {
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop += 1) {
+    const { url: target, addresses } = await assertPublicDestination(currentUrl);
+
+    let response: Response;
     try {
-      const content = match.replace(/<\/?script[^>]*>/gi, '');
-      const data = JSON.parse(content);
-      if (data.image) {
-        const img = Array.isArray(data.image) ? data.image[0] : data.image;
-        return typeof img === 'string' ? img : img?.url || null;
+      response = await fetch(target.toString(), {
+        headers: { 'User-Agent': USER_AGENT, Accept: options.accept },
+        redirect: 'manual',
+        signal: AbortSignal.any([AbortSignal.timeout(FETCH_TIMEOUT_MS), budget.deadline]),
+      });
+    } catch (error) {
+      if (isAbort(error)) {
+        throw scrapeError('scene/fetch-timeout', 504, `Timed out fetching ${target.hostname}`);
       }
-    } catch {
-      // Ignore parse errors
+      throw scrapeError('scene/scrape-failed', 502, error instanceof Error ? error.message : 'Fetch failed');
+    }
+
+    try {
+      await assertStableDestination(target, addresses);
+    } catch (error) {
+      await response.body?.cancel();
+      throw error;
+    }
+
+    if (response.status >= 300 && response.status < 400) {
+      await response.body?.cancel();
+
+      const redirect = assessRedirectTarget(response.headers.get('location'), target);
+      if (!redirect.ok) {
+        throw scrapeError(`scene/${redirect.issue}`, redirect.issue === 'blocked-url' ? 400 : 502, redirect.reason);
+      }
+
+      currentUrl = redirect.url.toString();
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw scrapeError('scene/scrape-failed', 502, `Failed to fetch page: ${response.status}`);
+    }
+
+    const contentType = baseContentType(response.headers.get('content-type'));
+    if (!options.allowedTypes.includes(contentType)) {
+      await response.body?.cancel();
+      throw scrapeError('scene/unsupported-content', 415, `Unsupported content type: ${contentType || 'unknown'}`);
+    }
+
+    try {
+      return {
+        url: target.toString(),
+        contentType,
+        bytes: await readBodyWithLimit(response, options, budget),
+      };
+    } catch (error) {
+      if (isScrapeError(error)) throw error;
+      if (isAbort(error)) {
+        throw scrapeError('scene/fetch-timeout', 504, `Timed out reading ${target.hostname}`);
+      }
+      throw error;
     }
   }
-  return null;
+
+  throw scrapeError('scene/scrape-failed', 502, 'Too many redirects');
+}
+
+async function fetchShopifyProduct(pageUrl: string, budget: ScrapeBudget): Promise<unknown | null> {
+  const jsonUrl = getShopifyProductJsonUrl(pageUrl);
+  if (!jsonUrl) return null;
+
+  try {
+    const response = await safeFetch(
+      jsonUrl,
+      {
+        accept: 'application/json',
+        allowedTypes: JSON_CONTENT_TYPES,
+        maxBytes: MAX_JSON_BYTES,
+        tooLargeCode: 'scene/page-too-large',
+      },
+      budget
+    );
+
+    return JSON.parse(new TextDecoder().decode(response.bytes));
+  } catch (error) {
+    console.error('Shopify product JSON unavailable:', error);
+    return null;
+  }
+}
+
+async function fetchImageAsDataUrl(imageUrl: string, budget: ScrapeBudget): Promise<string> {
+  const { contentType, bytes } = await safeFetch(
+    imageUrl,
+    {
+      accept: IMAGE_CONTENT_TYPES.join(','),
+      allowedTypes: IMAGE_CONTENT_TYPES,
+      maxBytes: MAX_IMAGE_BYTES,
+      tooLargeCode: 'scene/image-too-large',
+    },
+    budget
+  );
+
+  // Convert to base64 in chunks to avoid stack overflow
+  let binary = '';
+  const chunkSize = 8192;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, i + chunkSize);
+    binary += String.fromCharCode(...chunk);
+  }
+
+  return `data:${contentType};base64,${btoa(binary)}`;
 }
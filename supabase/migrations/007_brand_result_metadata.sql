@@ -0,0 +1,5 @@
+-- Generation metadata stored alongside each saved brand result
+-- (validation quality report, provenance, and other per-version notes).
+
+ALTER TABLE public.brand_results
+  ADD COLUMN IF NOT EXISTS metadata JSONB NOT NULL DEFAULT '{}'::jsonb;
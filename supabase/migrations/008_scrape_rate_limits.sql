@@ -0,0 +1,70 @@
+-- Per-user request log for the scrape-product function.
+-- Rows are only written through claim_scrape_request, which counts and records atomically.
+
+CREATE TABLE IF NOT EXISTS public.scrape_requests (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scrape_requests_user_id_created_at
+  ON public.scrape_requests(user_id, created_at DESC);
+
+ALTER TABLE public.scrape_requests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Scrape requests are private to the owner" ON public.scrape_requests;
+CREATE POLICY "Scrape requests are private to the owner"
+  ON public.scrape_requests
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+-- Records a scrape for p_user_id and returns false once they have used up p_limit requests
+-- inside the trailing window. Older rows are pruned on the way. Only the scrape-product function
+-- calls this, with the service role, after it has verified the caller's session; signed-in
+-- users cannot reach it, so they cannot pass their own limit or window.
+DROP FUNCTION IF EXISTS public.claim_scrape_request(INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.claim_scrape_request(
+  p_user_id UUID,
+  p_limit INTEGER,
+  p_window_seconds INTEGER
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_recent INTEGER;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'A user id is required';
+  END IF;
+
+  IF p_limit IS NULL OR p_limit < 1 OR p_window_seconds IS NULL OR p_window_seconds < 1 THEN
+    RAISE EXCEPTION 'Rate limit and window must be positive';
+  END IF;
+
+  -- Serialize concurrent claims from the same user so the count stays exact.
+  PERFORM pg_advisory_xact_lock(hashtext('scrape_requests:' || p_user_id::text));
+
+  DELETE FROM public.scrape_requests
+  WHERE user_id = p_user_id
+    AND created_at < NOW() - make_interval(secs => p_window_seconds);
+
+  SELECT COUNT(*)
+  INTO v_recent
+  FROM public.scrape_requests
+  WHERE user_id = p_user_id;
+
+  IF v_recent >= p_limit THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.scrape_requests (user_id) VALUES (p_user_id);
+  RETURN true;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_scrape_request(UUID, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_scrape_request(UUID, INTEGER, INTEGER) TO service_role;
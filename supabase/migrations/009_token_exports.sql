@@ -0,0 +1,9 @@
+-- Allow design token downloads (W3C JSON, CSS, Tailwind, SCSS) in the export log.
+-- The specific format is stored in exports.metadata ->> 'format'.
+
+ALTER TABLE public.exports
+  DROP CONSTRAINT IF EXISTS exports_export_type_check;
+
+ALTER TABLE public.exports
+  ADD CONSTRAINT exports_export_type_check
+  CHECK (export_type IN ('pdf', 'link', 'json', 'tokens'));
@@ -0,0 +1,164 @@
+-- Public, read-only share links for one saved brand result.
+-- Owners manage links through RLS; anonymous viewers only reach a result through
+-- get_shared_brand_result, which checks the token, revocation, and expiry.
+
+CREATE TABLE IF NOT EXISTS public.share_links (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id UUID NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  brand_result_id UUID NOT NULL REFERENCES public.brand_results(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(uuid_generate_v4()::text || uuid_generate_v4()::text, '-', ''),
+  label TEXT,
+  -- Off by default: viewers only get the answers the kit itself is rendered from
+  include_answers BOOLEAN NOT NULL DEFAULT FALSE,
+  expires_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  view_count INTEGER NOT NULL DEFAULT 0,
+  last_viewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_share_links_project_id_created_at
+  ON public.share_links(project_id, created_at DESC);
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Share links are private to the project owner" ON public.share_links;
+CREATE POLICY "Share links are private to the project owner"
+  ON public.share_links
+  FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.projects
+      WHERE projects.id = share_links.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Share links can be created by the project owner" ON public.share_links;
+CREATE POLICY "Share links can be created by the project owner"
+  ON public.share_links
+  FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.brand_results
+      JOIN public.projects ON projects.id = brand_results.project_id
+      WHERE brand_results.id = share_links.brand_result_id
+        AND brand_results.project_id = share_links.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Share links can be updated by the project owner" ON public.share_links;
+CREATE POLICY "Share links can be updated by the project owner"
+  ON public.share_links
+  FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.projects
+      WHERE projects.id = share_links.project_id
+        AND projects.user_id = auth.uid()
+    )
+  )
+  -- Same check as INSERT, so a link cannot be re-pointed at another project's result
+  WITH CHECK (
+    EXISTS (
+      SELECT 1
+      FROM public.brand_results
+      JOIN public.projects ON projects.id = brand_results.project_id
+      WHERE brand_results.id = share_links.brand_result_id
+        AND brand_results.project_id = share_links.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Share links can be deleted by the project owner" ON public.share_links;
+CREATE POLICY "Share links can be deleted by the project owner"
+  ON public.share_links
+  FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1
+      FROM public.projects
+      WHERE projects.id = share_links.project_id
+        AND projects.user_id = auth.uid()
+    )
+  );
+
+-- Resolves a share token to the shared result, the brand name, and the questionnaire answers
+-- the read-only view needs: the typography and custom color answers the kit is rendered from,
+-- or every answer when the owner opted in on the link. Returns NULL for unknown, revoked, or
+-- expired tokens, and counts each successful lookup as a view. Result metadata and owner
+-- details are never exposed.
+CREATE OR REPLACE FUNCTION public.get_shared_brand_result(p_token TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.share_links%ROWTYPE;
+  v_payload JSONB;
+BEGIN
+  SELECT *
+  INTO v_link
+  FROM public.share_links
+  WHERE token = p_token
+    AND revoked_at IS NULL
+    AND (expires_at IS NULL OR expires_at > NOW());
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_build_object(
+    'brandName', projects.brand_name,
+    'expiresAt', v_link.expires_at,
+    'includesAnswers', v_link.include_answers,
+    'result', jsonb_build_object(
+      'id', brand_results.id,
+      'result', brand_results.result_json,
+      'sourceModel', brand_results.source_model,
+      'logoImageUrl', brand_results.generated_logo_url,
+      'logoGeneratedAt', brand_results.generated_logo_at,
+      'createdAt', brand_results.created_at,
+      'updatedAt', brand_results.updated_at
+    ),
+    'answers', COALESCE(
+      (
+        SELECT jsonb_agg(
+          jsonb_build_object('question_key', answers.question_key, 'answer', answers.answer)
+          ORDER BY answers.created_at
+        )
+        FROM public.questionnaire_answers answers
+        WHERE answers.project_id = projects.id
+          AND (
+            v_link.include_answers
+            OR answers.question_key IN (
+              'typography', 'customFont', 'vibe', 'customVibe', 'tone', 'customColor1', 'customColor2'
+            )
+          )
+      ),
+      '[]'::jsonb
+    )
+  )
+  INTO v_payload
+  FROM public.brand_results
+  JOIN public.projects ON projects.id = brand_results.project_id
+  WHERE brand_results.id = v_link.brand_result_id
+    AND brand_results.project_id = v_link.project_id;
+
+  UPDATE public.share_links
+  SET
+    view_count = view_count + 1,
+    last_viewed_at = NOW()
+  WHERE id = v_link.id;
+
+  RETURN v_payload;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_shared_brand_result(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_shared_brand_result(TEXT) TO anon, authenticated;
@@ -0,0 +1,42 @@
+-- Private storage for server-rendered export files (PDF workbooks).
+-- Objects live under <user_id>/<project_id>/..., so each user can only reach their own folder.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('brand-exports', 'brand-exports', false, 52428800, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
+
+DROP POLICY IF EXISTS "Brand exports are readable by their owner" ON storage.objects;
+CREATE POLICY "Brand exports are readable by their owner"
+  ON storage.objects
+  FOR SELECT
+  USING (
+    bucket_id = 'brand-exports'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Brand exports can be uploaded by their owner" ON storage.objects;
+CREATE POLICY "Brand exports can be uploaded by their owner"
+  ON storage.objects
+  FOR INSERT
+  WITH CHECK (
+    bucket_id = 'brand-exports'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Brand exports can be replaced by their owner" ON storage.objects;
+CREATE POLICY "Brand exports can be replaced by their owner"
+  ON storage.objects
+  FOR UPDATE
+  USING (
+    bucket_id = 'brand-exports'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
+
+DROP POLICY IF EXISTS "Brand exports can be deleted by their owner" ON storage.objects;
+CREATE POLICY "Brand exports can be deleted by their owner"
+  ON storage.objects
+  FOR DELETE
+  USING (
+    bucket_id = 'brand-exports'
+    AND (storage.foldername(name))[1] = auth.uid()::text
+  );
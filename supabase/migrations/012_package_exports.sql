@@ -0,0 +1,9 @@
+-- Allow brand package ZIP downloads in the export log.
+-- The list of bundled files is stored in exports.metadata -> 'manifest'.
+
+ALTER TABLE public.exports
+  DROP CONSTRAINT IF EXISTS exports_export_type_check;
+
+ALTER TABLE public.exports
+  ADD CONSTRAINT exports_export_type_check
+  CHECK (export_type IN ('pdf', 'link', 'json', 'tokens', 'package'));
@@ -0,0 +1,8 @@
+-- Allow Markdown brief downloads in the export log.
+
+ALTER TABLE public.exports
+  DROP CONSTRAINT IF EXISTS exports_export_type_check;
+
+ALTER TABLE public.exports
+  ADD CONSTRAINT exports_export_type_check
+  CHECK (export_type IN ('pdf', 'link', 'json', 'tokens', 'package', 'markdown'));
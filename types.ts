@@ -28,6 +28,28 @@ export interface BrandFormData {
   inspiration: string;
 }
 
+// Type scale, leading, tracking, and spacing that go with the font pairing. Sizes are in px,
+// letter-spacing in em.
+export interface BrandTypographySystem {
+  baseSize: number;
+  scaleRatio: number;
+  /** Musical interval name of the ratio, e.g. "Major Third" */
+  scaleName: string;
+  lineHeights: {
+    heading: number;
+    body: number;
+  };
+  letterSpacing: {
+    heading: number;
+    body: number;
+    caps: number;
+  };
+  spacingUnit: number;
+  spacingScale: number[];
+  /** Which answers shaped the system, one short sentence each */
+  rationale: string[];
+}
+
 export interface BrandKit {
   brandEssence: string;
   summaryParagraph: string;
@@ -49,6 +71,8 @@ export interface BrandKit {
     headlineFont: string;
     bodyFont: string;
     note: string;
+    /** Derived from the typography, vibe, and tone answers when the pairing is generated */
+    system?: BrandTypographySystem;
   };
   logoPrompt: string;
   brandFoundation?: {
@@ -85,13 +109,6 @@ export interface BrandKit {
   };
 }
 
-export type RegenerableKitSectionId =
-  | 'brandEssence'
-  | 'messagingDirection'
-  | 'colorPaletteSuggestions'
-  | 'logoDirection'
-  | 'imageryDirection';
-
 // Kit section identifiers for lock/regenerate feature
 export type KitSectionId =
   | 'brandEssence'
@@ -107,6 +124,9 @@ export type KitSectionId =
   | 'logoDirection'
   | 'imageryDirection';
 
+// Every lockable section can also be regenerated on its own
+export type RegenerableKitSectionId = KitSectionId;
+
 // Lock state for kit sections
 export type BrandKitLocks = Partial<Record<KitSectionId, boolean>>;
 
@@ -119,8 +139,15 @@ export type GenerationStatusPhase =
   | 'persisting'
   | 'failed';
 
+export interface GenerationActivityEntry {
+  id: string;
+  label: string;
+  tone: 'progress' | 'success' | 'failure';
+}
+
 export interface GenerationStatusNotice {
   phase: GenerationStatusPhase;
+  activity?: GenerationActivityEntry[];
   title?: string;
   message?: string;
   notes?: string[];
@@ -128,6 +155,80 @@ export interface GenerationStatusNotice {
   actionLabel?: string;
 }
 
+export interface BrandKitValidationIssue {
+  path: string;
+  message: string;
+}
+
+// Per-result record of how clean the model output was before normalization
+export interface BrandKitQualityReport {
+  repairAttempts: number;
+  defaultedSections: (keyof BrandKit)[];
+  issues: BrandKitValidationIssue[];
+}
+
+// How a palette color that did not arrive as a clean hex value was turned into #RRGGBB
+export interface PaletteColorCorrection {
+  name: string;
+  original: string;
+  /** null when nothing could be recovered and the color was left out of tokens and swatches */
+  corrected: string | null;
+  method: 'parsed' | 'name' | 'approximated' | 'fallback' | 'unresolved';
+  /** For fallbacks: which questionnaire answer supplied the color */
+  source?: string;
+}
+
+export interface BrandResultMetadata {
+  qualityReport?: BrandKitQualityReport;
+  colorCorrections?: PaletteColorCorrection[];
+  // Locked sections copied unchanged from an earlier result during full regeneration
+  carriedOver?: {
+    fromResultId: string;
+    sections: KitSectionId[];
+  };
+  // Section revised to produce this result, with the founder's optional direction
+  sectionRegeneration?: {
+    sectionId: RegenerableKitSectionId;
+    instruction?: string;
+  };
+  // Set when an older version was promoted back to current by copying it
+  restoredFrom?: {
+    resultId: string;
+    createdAt: string;
+  };
+  // Set when the result was picked from several variant takes
+  variantPick?: {
+    variantCount: number;
+    baseVariant: number;
+    sections: Partial<Record<RegenerableKitSectionId, number>>;
+  };
+  // Set when the result came in through a workbook bundle import
+  importedFrom?: {
+    projectId: string;
+    resultId: string;
+    createdAt: string;
+    exportedAt: string;
+    // Schema problems in the bundled kit; the affected fields were saved with defaults
+    issues?: BrandKitValidationIssue[];
+  };
+}
+
+// One unsaved take returned by a multi-variant generation request
+export interface BrandKitVariant {
+  index: number;
+  result: BrandKit;
+  sourceModel: string | null;
+  metadata: BrandResultMetadata;
+  logoImageUrl: string | null;
+  logoGeneratedAt: string | null;
+}
+
+export interface BrandKitVariantSet {
+  baseResultId: string | null;
+  sectionId: RegenerableKitSectionId | null;
+  variants: BrandKitVariant[];
+}
+
 export interface SavedBrandResult {
   id: string;
   projectId: string;
@@ -135,6 +236,7 @@ export interface SavedBrandResult {
   logoImageUrl?: string | null;
   logoGeneratedAt?: string | null;
   sourceModel?: string | null;
+  metadata: BrandResultMetadata;
   createdAt: string;
   updatedAt: string;
 }
@@ -161,6 +263,50 @@ export interface BrandProjectWorkspace {
   resultHistory: SavedBrandResult[];
 }
 
+// Input shared by the print export and the server-side PDF renderer
+export interface BrandKitExportOptions {
+  brandName: string;
+  kit: BrandKit;
+  formData: BrandFormData;
+  exportedAt: string;
+  sourceModel?: string;
+  versionLabel?: string;
+  logoImageUrl?: string | null;
+  /** Defaults to true; shared links without answers leave the questionnaire recap out */
+  includeRecap?: boolean;
+}
+
+export interface ShareLink {
+  id: string;
+  projectId: string;
+  brandResultId: string;
+  token: string;
+  label: string | null;
+  /** Whether viewers also see the full questionnaire recap */
+  includeAnswers: boolean;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  viewCount: number;
+  lastViewedAt: string | null;
+  createdAt: string;
+}
+
+// What the owner picks when creating a share link
+export interface ShareLinkOptions {
+  label: string;
+  expiresInDays: number | null;
+  includeAnswers: boolean;
+}
+
+// What a public share link resolves to: one result plus the answers needed to render it
+export interface SharedBrandResult {
+  brandName: string;
+  expiresAt: string | null;
+  includesAnswers: boolean;
+  formData: BrandFormData;
+  result: SavedBrandResult;
+}
+
 // ============================================
 // PHOTO STUDIO — Visual Scene Generator Types
 // ============================================
@@ -201,6 +347,8 @@ export interface ProductInputData {
   metadata?: {
     description?: string;
     price?: string;
+    currency?: string;
+    sku?: string;
     brand?: string;
   };
 }
@@ -217,7 +365,10 @@ export interface SceneGenerationRequest {
   product: ProductInputData;
   scenes: SceneType[];
   moodText: string;
+  /** The scene-agnostic reading, with every selected scene's override notes merged in */
   interpretation: MoodInterpretation;
+  /** The interpretation after each selected scene's rules, used for that scene's prompt */
+  sceneInterpretations: Partial<Record<SceneType, MoodInterpretation>>;
   businessContext?: BusinessContextData;
   brandContext?: {
     colorPalette?: string[];
@@ -226,10 +377,13 @@ export interface SceneGenerationRequest {
   };
 }
 
+// 'mock' renders a placeholder without calling any service
+export type SceneProvider = 'gemini' | 'replicate' | 'pollinations' | 'mock';
+
 export interface GeneratedScene {
   sceneType: SceneType;
   imageBase64: string;
   promptUsed: string;
   generatedAt: number;
-  provider: 'gemini' | 'replicate' | 'pollinations';
+  provider: SceneProvider;
 }